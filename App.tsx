@@ -8,21 +8,31 @@ import GameReview from './components/GameReview';
 import Auth from './components/Auth';
 import PowerLegend from './components/PowerLegend';
 import BoardEditor from './components/BoardEditor';
+import EvalBar from './components/EvalBar';
 import Analysis from './components/Analysis';
 import AnalysisManager from './components/AnalysisManager';
 import Tournament from './components/Tournament';
 import ConfirmationModal from './components/ConfirmationModal';
-import { BoardState, Color, GameStatus, PieceType, Position, GameState, PromotionData, Piece, GameMode, TimerSettings, PlayerInfo, SentChallenge, Move, ChatMessage, LobbyGame, IncomingChallenge, AutoSetting } from './types';
-import { createInitialBoard, getValidMoves, isPowerMove, hasLegalMoves, isKingInCheck, generateBoardKey, canCaptureKing, isAmbiguousMove, getNotation, applyMoveToBoard, sanitizeBoard, sanitizePiece, isInsufficientMaterial, fenToBoard, boardToKrachtschaakFen } from './utils/game';
-import { getRatingCategory, RatingCategory, RATING_CATEGORIES } from './utils/ratings';
+import RuleSetOptions from './components/RuleSetOptions';
+import EngineGameSetup from './components/EngineGameSetup';
+import { BoardState, Color, GameStatus, PieceType, Position, GameState, PromotionData, Piece, GameMode, TimerSettings, PlayerInfo, SentChallenge, Move, MoveIntent, ChatMessage, LobbyGame, IncomingChallenge, AutoSetting, Variant, RuleSet, EngineOpponent } from './types';
+import { createInitialBoard, createKrachtschaak960Board, randomKrachtschaak960Index, getValidMoves, generateBoardKey, getNotation, applyMoveToBoard, sanitizeBoard, sanitizePiece, fenToBoard, boardToKrachtschaakFen } from './utils/game';
+import { chargeElapsedTime, claimableDraw, completeTurn, gameRules, generateMoves, intentFromRecord, isAmbiguousEnPassant, isPromotionMove, isStandardRules, MoveResolution, opponentOf, resolveMove, STANDARD_RULES, timeoutWinner } from './utils/rules';
+import { getRatingCategory, isCorrespondence, RatingCategory, RATING_CATEGORIES } from './utils/ratings';
 import { getSharedFolders, getPublicFolders } from './utils/analysisFirebase';
 import { updatePairing, updatePlayerScore, recalculateTiebreaks } from './utils/tournamentFirebase';
 import { isFirebaseConfigured, auth, db } from './firebaseConfig';
 import SettingsModal from './components/SettingsModal';
 import useOnlineStatus from './utils/useOnlineStatus';
+import useDelayedEvaluation from './utils/useDelayedEvaluation';
 import { useAutoUpdate } from './utils/useAutoUpdate';
 import UpdateModal from './components/UpdateModal';
 import { getRandomChatColor, getDeterministicChatColor, DEFAULT_CHAT_COLOR } from './utils/chatColors';
+import { chooseEngineMove, engineGamePlayers, engineLevel, engineSearchLimits } from './utils/engineLevels';
+import { saveLocalGame } from './utils/localHistory';
+import { defaultEngineThreads } from './utils/engineCoordinator';
+import { loadOpeningBook, OpeningBook, pickBookMove } from './utils/openingBook';
+import { gameSearchContext } from './engine';
 
 var continueGameClicks = -1;
 const formatTime = (totalSeconds: number | null | undefined): string => {
@@ -82,11 +92,17 @@ const App: React.FC = () => {
     const [completedAt, setCompletedAt] = useState<number | null>(null);
 
     const [gameMode, setGameMode] = useState<GameMode>('menu');
+    // Both players sit at this device: a local game or one against the computer.
+    const isLocalPlay = gameMode === 'local' || gameMode === 'vs_engine';
     const [showLocalSetup, setShowLocalSetup] = useState(false);
+    const [showEngineSetup, setShowEngineSetup] = useState(false);
     const [lastEditedBoard, setLastEditedBoard] = useState<BoardState | null>(null);
     const [lastEditedTurn, setLastEditedTurn] = useState<Color>(Color.White);
     const [showSettings, setShowSettings] = useState(false);
     const [gameKFen, setGameKFen] = useState<string | null>(null);
+    const [gameVariant, setGameVariant] = useState<Variant | null>(null);
+    const [gameRuleSet, setGameRuleSet] = useState<RuleSet | null>(null);
+    const [engineOpponent, setEngineOpponent] = useState<EngineOpponent | null>(null);
 
     // Online state
     const [gameId, setGameId] = useState<string | null>(null);
@@ -230,6 +246,12 @@ const App: React.FC = () => {
     const [notifyDirectTimeControls, _setNotifyDirectTimeControls] = useState(() => localStorage.getItem('notifyDirectTimeControls') || '');
     const [notifyOpenChallenges, _setNotifyOpenChallenges] = useState(() => localStorage.getItem('notifyOpenChallenges') === 'true');
     const [notifyOpenTimeControls, _setNotifyOpenTimeControls] = useState(() => localStorage.getItem('notifyOpenTimeControls') || '');
+    const [engineThreads, _setEngineThreads] = useState(() => parseInt(localStorage.getItem('engineThreads') || '') || defaultEngineThreads());
+    // Seconds the spectators' evaluation bar lags the game by; null when it is off.
+    const [spectatorEvalDelay, _setSpectatorEvalDelay] = useState<number | null>(() => {
+        const saved = parseInt(localStorage.getItem('spectatorEvalDelay') || '');
+        return isNaN(saved) ? null : saved;
+    });
     const [chatColor, _setChatColor] = useState<string>(() => {
         const saved = localStorage.getItem('chatColor');
         if (saved) return saved;
@@ -564,7 +586,7 @@ const App: React.FC = () => {
 
     useEffect(() => {
         // Only play sounds if we are actually in a game screen and not reviewing
-        const isGameScreen = gameMode === 'local' || gameMode === 'online_playing' || gameMode === 'online_spectating';
+        const isGameScreen = isLocalPlay || gameMode === 'online_playing' || gameMode === 'online_spectating';
         if (!isGameScreen || reviewingGame || !soundsEnabled) {
             // Update refs so they don't trigger when we return to the game screen
             prevStatus.current = status;
@@ -605,6 +627,8 @@ const App: React.FC = () => {
                 }
             } else if (status === 'stalemate' || status.startsWith('draw')) {
                 playDrawSound();
+            } else if (status === 'timeout' && !winner) {
+                playDrawSound();
             } else if (status === 'resignation' || status === 'timeout') {
                 if (gameMode === 'online_playing' && myOnlineColor) {
                     const iWon = winner && winner.toLowerCase() === myOnlineColor.toLowerCase();
@@ -634,6 +658,7 @@ const App: React.FC = () => {
 
     // Local Game Custom Time State
     const [localCustomBase, setLocalCustomBase] = useState('10');
+    const [localRules, setLocalRules] = useState<RuleSet>(STANDARD_RULES);
     const [localCustomInc, setLocalCustomInc] = useState('5');
 
     useEffect(() => {
@@ -756,6 +781,16 @@ const App: React.FC = () => {
         updateSetting('autoEnPassant', val);
     };
 
+    const setEngineThreads = (threads: number) => {
+        _setEngineThreads(threads);
+        localStorage.setItem('engineThreads', threads.toString());
+    };
+
+    const setSpectatorEvalDelay = (delay: number | null) => {
+        _setSpectatorEvalDelay(delay);
+        localStorage.setItem('spectatorEvalDelay', delay === null ? 'off' : delay.toString());
+    };
+
     const updateSetting = (key: string, value: any) => {
         localStorage.setItem(key, String(value));
         if (currentUser && isFirebaseConfigured) {
@@ -1221,7 +1256,10 @@ const App: React.FC = () => {
         showPowerPieces: gameShowPowerPieces,
         showPowerRings: gameShowPowerRings,
         showOriginalType: gameShowOriginalType,
-        kFen: gameKFen || undefined
+        kFen: gameKFen || undefined,
+        variant: gameVariant || undefined,
+        rules: gameRuleSet || undefined,
+        engineOpponent: engineOpponent || undefined
     }), [
         board, turn, status, winner, promotionData, capturedPieces,
         enPassantTarget, halfmoveClock, positionHistory,
@@ -1229,9 +1267,13 @@ const App: React.FC = () => {
         isRated, rematchOffer, nextGameId, ratingChange, challengedPlayerInfo, turnStartTime, premoves, lastMove, playersLeft,
         completedAt, moveHistory, chatMessages, spectatorChatMessages, gameRematchOf,
         gameTournamentId, gameTournamentRound, gameTournamentPairingId,
-        gameShowPowerPieces, gameShowPowerRings, gameShowOriginalType, gameKFen
+        gameShowPowerPieces, gameShowPowerRings, gameShowOriginalType, gameKFen, gameVariant, gameRuleSet, engineOpponent
     ]);
 
+    // The evaluation bar a spectator may turn on, lagging the game by spectatorEvalDelay.
+    const spectatorEval = useDelayedEvaluation(board, turn, enPassantTarget, gameRuleSet || undefined,
+        gameMode === 'online_spectating' && status === 'playing' ? spectatorEvalDelay : null);
+
     useEffect(() => {
         gameStateRef.current = currentGameState;
     }, [currentGameState]);
@@ -1346,6 +1388,9 @@ const App: React.FC = () => {
         setGameShowPowerRings(state.showPowerRings);
         setGameShowOriginalType(state.showOriginalType);
         setGameKFen(state.kFen || null);
+        setGameVariant(state.variant || null);
+        setGameRuleSet(state.rules || null);
+        setEngineOpponent(state.engineOpponent || null);
 
         // This is a transient UI state and should be reset whenever the game state is loaded.
         setDraggedPiece(null);
@@ -1390,7 +1435,7 @@ const App: React.FC = () => {
             const isCorrespondence = !newState.timerSettings || 'daysPerMove' in newState.timerSettings;
             // Intercept commit for confirmation if enabled for Correspondence/Daily games
             // Important: Do NOT loadGameState here to prevent visual update until confirmed
-            if (!skipConfirmation && moveConfirmationEnabled && isCorrespondence && gameMode != 'local') {
+            if (!skipConfirmation && moveConfirmationEnabled && isCorrespondence && !isLocalPlay) {
                 setPendingCommitState(newState);
 
                 // If we have a state snapshot from before an online interaction (promotion/ambiguous), use that as the base for reversion.
@@ -1411,7 +1456,7 @@ const App: React.FC = () => {
             setSelectedPiece(null);
             setValidMoves([]);
             setIsForcePowerMode(false);
-            if (gameMode === 'local') {
+            if (isLocalPlay) {
                 setHistory(prev => [...prev, newState]);
             }
             updateGameInDb(newState);
@@ -1487,6 +1532,7 @@ const App: React.FC = () => {
             // Local game - just commit
             commitNewGameState(finalState, false, true);
             isProcessingGameOver.current = false;
+            if (gameMode === 'vs_engine') saveLocalGame(finalState);
         }
 
         async function processRatings(finalState: GameState) {
@@ -1605,98 +1651,8 @@ const App: React.FC = () => {
     }, [gameMode, commitNewGameState, gameId]);
 
 
-    const finalizeTurn = useCallback((
-        baseState: GameState,
-        currentBoard: BoardState,
-        nextEnPassantTarget: Position | null,
-        resetClock: boolean,
-        newCaptured: typeof capturedPieces,
-        move: { from: Position; to: Position } | null,
-        movingPiece?: Piece | null,
-        capturedPiece?: Piece | null,
-        promotion?: PieceType | null,
-        moveDetails?: { isForcePower?: boolean }
-    ) => {
-        const { turn, halfmoveClock, positionHistory, drawOffer, timerSettings, players, playerColors, initialRatings, isRated, ratingCategory, challengedPlayerInfo, playersLeft, moveHistory, tournamentId, tournamentRound, tournamentPairingId, showPowerPieces, showPowerRings, showOriginalType } = baseState;
-
-        const newPlayerTimes = (baseState.playerTimes && timerSettings && 'increment' in timerSettings) ? { ...baseState.playerTimes, [turn]: baseState.playerTimes[turn] + timerSettings.increment } : baseState.playerTimes;
-
-        const nextTurn = turn === Color.White ? Color.Black : Color.White;
-        const newHalfmoveClock = resetClock ? 0 : halfmoveClock + 1;
-        const key = generateBoardKey(currentBoard, nextTurn, nextEnPassantTarget);
-        const isIrreversible = !!capturedPiece || movingPiece?.type === PieceType.Pawn;
-        const newCount = isIrreversible ? 1 : (positionHistory[key] || 0) + 1;
-        const newPositionHistory = isIrreversible ? { [key]: 1 } : { ...positionHistory, [key]: newCount };
-        let newStatus: GameStatus = 'playing';
-        let newWinner: string | null = null;
-
-        if (newHalfmoveClock >= 100) {
-            newStatus = 'draw_fiftyMove';
-        } else if (newCount >= 3) {
-            newStatus = 'draw_threefold';
-        } else if (isInsufficientMaterial(currentBoard)) {
-            newStatus = 'draw_insufficient';
-        } else {
-            const capturedKing = newCaptured.white.some(p => p.isKing || p.originalType === PieceType.King || p.type === PieceType.King || p.power === PieceType.King) ||
-                newCaptured.black.some(p => p.isKing || p.originalType === PieceType.King || p.type === PieceType.King || p.power === PieceType.King);
-            if (capturedKing) {
-                newStatus = 'kingCaptured';
-                newWinner = turn.charAt(0).toUpperCase() + turn.slice(1);
-            } else {
-                const hasStandardLegalMoves = hasLegalMoves(currentBoard, nextTurn, nextEnPassantTarget);
-                const canPlayerCaptureKing = canCaptureKing(currentBoard, nextTurn);
-
-                if (!hasStandardLegalMoves && !canPlayerCaptureKing) {
-                    const isPlayerInCheck = isKingInCheck(currentBoard, nextTurn);
-                    if (isPlayerInCheck) {
-                        newStatus = 'checkmate';
-                        newWinner = turn.charAt(0).toUpperCase() + turn.slice(1);
-                    } else {
-                        newStatus = 'stalemate';
-                    }
-                }
-            }
-        }
-
-        let newMoveDeadline = baseState.moveDeadline;
-        if (timerSettings && 'daysPerMove' in timerSettings) {
-            newMoveDeadline = Date.now() + timerSettings.daysPerMove * 24 * 60 * 60 * 1000;
-        }
-
-        // Append Move to History
-        let newMoveHistory = [...(moveHistory || [])];
-        if (move) {
-            const piece = movingPiece || baseState.board[move.from.row][move.from.col];
-
-            if (piece) {
-                const notation = getNotation(baseState.board, move.from, move.to, piece, capturedPiece || null, promotion || null, moveDetails?.isForcePower);
-
-                const pieceOnNewBoard = currentBoard[move.to.row][move.to.col];
-                const afterPower = pieceOnNewBoard ? pieceOnNewBoard.power : null;
-                const powerConsumed = !!(piece.power && !afterPower);
-
-                const moveData: Move = {
-                    from: move.from,
-                    to: move.to,
-                    piece: piece.type || PieceType.Pawn,
-                    notation: notation,
-                    color: turn,
-                    afterPower: afterPower || null,
-                    isForcePower: !!moveDetails?.isForcePower,
-                    powerConsumed: powerConsumed
-                };
-
-                const capturedPieceType = capturedPiece ? capturedPiece.type : undefined;
-                if (capturedPieceType) {
-                    moveData.captured = capturedPieceType;
-                }
-                if (promotion) {
-                    moveData.promotion = promotion;
-                }
-
-                newMoveHistory.push(moveData);
-            }
-        }
+    const finalizeTurn = useCallback((baseState: GameState, resolution: MoveResolution) => {
+        const turnState = completeTurn(baseState, resolution);
 
         const sanitizeStateForHistory = (state: GameState, depth = 0): GameState => {
             if (depth >= 15 || !state.previousState) {
@@ -1712,46 +1668,111 @@ const App: React.FC = () => {
         const sanitizedPreviousState = sanitizeStateForHistory(baseState, 0);
 
         const turnEndState: GameState = {
-            board: currentBoard, turn, status: newStatus, winner: newWinner, promotionData: null,
-            capturedPieces: newCaptured, enPassantTarget: nextEnPassantTarget, halfmoveClock: newHalfmoveClock,
-            positionHistory: newPositionHistory, ambiguousEnPassantData: null,
-            drawOffer: (drawOffer && drawOffer === turn) ? drawOffer : null,
-            takebackOffer: null,
+            ...turnState,
+            turn: baseState.turn,
             previousState: sanitizedPreviousState,
-            playerTimes: newPlayerTimes,
             turnStartTime: null,
-            moveDeadline: newMoveDeadline,
-            timerSettings, ratingCategory, players, playerColors, initialRatings, isRated, rematchOffer: null, nextGameId: null, ratingChange: null, challengedPlayerInfo,
+            rematchOffer: null,
+            nextGameId: null,
+            ratingChange: null,
             premoves: baseState.premoves,
-            playersLeft,
-            lastMove: move,
-            moveHistory: newMoveHistory,
-            chat: baseState.chat,
-            spectatorChat: baseState.spectatorChat,
-            rematchOf: baseState.rematchOf,
-            tournamentId,
-            tournamentRound,
-            tournamentPairingId,
-            showPowerPieces: showPowerPieces ?? true,
-            showPowerRings: showPowerRings ?? true,
-            showOriginalType: showOriginalType ?? true,
-            kFen: baseState.kFen
+            showPowerPieces: baseState.showPowerPieces ?? true,
+            showPowerRings: baseState.showPowerRings ?? true,
+            showOriginalType: baseState.showOriginalType ?? true,
         };
 
-        if (newStatus !== 'playing') {
-            handleGameOver(turnEndState, newStatus, newWinner);
+        if (turnState.status !== 'playing') {
+            handleGameOver(turnEndState, turnState.status, turnState.winner);
             return;
         }
 
+        const { timerSettings } = baseState;
         const newGameState: GameState = {
             ...turnEndState,
-            turn: nextTurn,
-            turnStartTime: (timerSettings && 'initialTime' in timerSettings) ? (gameMode === 'local' ? Date.now() : (window.firebase.database.ServerValue.TIMESTAMP as any)) : null,
+            turn: turnState.turn,
+            turnStartTime: (timerSettings && 'initialTime' in timerSettings) ? (isLocalPlay ? Date.now() : (window.firebase.database.ServerValue.TIMESTAMP as any)) : null,
         };
 
         commitNewGameState(newGameState);
     }, [commitNewGameState, handleGameOver, gameMode, localPromotionState, localAmbiguousEnPassantState]);
 
+    // The computer's move in a vs_engine game: a book move while the game is in the level's book, else the
+    // worker searches the level's candidates and the level picks one.
+    // One worker serves the whole session so its transposition table carries over from move to move.
+    const engineWorkerRef = useRef<Worker | null>(null);
+    const [openingBook, setOpeningBook] = useState<OpeningBook | null>(null);
+    const engineColor = engineOpponent?.color;
+    const engineLevelIndex = engineOpponent?.level;
+    useEffect(() => {
+        if (gameMode !== 'vs_engine') return;
+        loadOpeningBook().then(setOpeningBook);
+        return () => {
+            engineWorkerRef.current?.terminate();
+            engineWorkerRef.current = null;
+        };
+    }, [gameMode]);
+
+    useEffect(() => {
+        if (gameMode !== 'vs_engine' || engineColor === undefined || engineLevelIndex === undefined) return;
+        if (status !== 'playing' || turn !== engineColor || localPromotionState || localAmbiguousEnPassantState) return;
+
+        const state = gameStateRef.current;
+        const level = engineLevel(engineLevelIndex);
+        const rules = gameRules(state);
+        const bookMove = openingBook && (state.moveHistory?.length || 0) < level.bookPlies && isStandardRules(rules)
+            ? pickBookMove(openingBook, state.board, state.turn, state.enPassantTarget, rules)
+            : null;
+        if (bookMove) {
+            // A short pause, so a book reply does not land the instant the player lets go of their piece.
+            const timer = setTimeout(() => {
+                const current = gameStateRef.current;
+                if (current.status !== 'playing' || current.turn !== engineColor) return;
+                finalizeTurn(chargeElapsedTime(current), resolveMove(current.board, current.enPassantTarget, bookMove.intent, gameRules(current)));
+            }, 400);
+            return () => clearTimeout(timer);
+        }
+
+        const requestId = Date.now();
+        let cancelled = false;
+        if (!engineWorkerRef.current) {
+            engineWorkerRef.current = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+        }
+        const worker = engineWorkerRef.current;
+        worker.onmessage = (e: MessageEvent) => {
+            const msg = e.data || {};
+            if (cancelled || msg.requestId !== requestId || (msg.type !== 'done' && msg.type !== 'error')) return;
+            // The computer's thinking time comes off its clock like the player's does.
+            const current = chargeElapsedTime(gameStateRef.current);
+            if (current.status !== 'playing' || current.turn !== engineColor) return;
+            const move = msg.type === 'done' ? chooseEngineMove(msg.results || [], engineLevelIndex) : null;
+            if (move) {
+                finalizeTurn(current, resolveMove(current.board, current.enPassantTarget, intentFromRecord(move), gameRules(current)));
+                return;
+            }
+            // A failed search must not leave the game waiting on the computer for ever: it plays the first
+            // legal move instead.
+            if (msg.type === 'error') console.error('Engine search failed:', msg.error);
+            const [fallback] = generateMoves(current.board, current.turn, current.enPassantTarget, true, gameRules(current));
+            if (fallback) finalizeTurn(current, fallback.resolution);
+        };
+        worker.postMessage({
+            type: 'start',
+            board: state.board,
+            turn: state.turn,
+            maxDepth: level.maxDepth,
+            multiPv: level.multiPv,
+            rules,
+            limits: engineSearchLimits(state, engineLevelIndex),
+            // The computer cannot claim a draw (see canClaimDraw), so it plays on where only the player may.
+            context: { ...gameSearchContext(state), drawClaimants: [opponentOf(engineColor)] },
+            requestId,
+        });
+        return () => {
+            cancelled = true;
+            worker.postMessage({ type: 'stop', requestId });
+        };
+    }, [gameMode, engineColor, engineLevelIndex, status, turn, moveHistory.length, localPromotionState, localAmbiguousEnPassantState, finalizeTurn, openingBook]);
+
     const [serverOffset, setServerOffset] = useState<number>(0);
 
     useEffect(() => {
@@ -1791,13 +1812,13 @@ const App: React.FC = () => {
                     return;
                 }
                 var elapsedSeconds = Math.max(0, (Date.now() - turnStartTime + serverOffset)) / 1000;
-                if (gameMode === 'local') {
+                if (isLocalPlay) {
                     elapsedSeconds = Math.max(0, Date.now() - turnStartTime) / 1000;
                 }
                 const newTime = timeAtTurnStart - elapsedSeconds;
 
                 if (newTime <= 10 && newTime > 0 && !hasPlayedLowTimeSoundRef.current && timeAtTurnStart > 10) {
-                    const isGameScreen = gameMode === 'online_playing' || gameMode === 'local' || gameMode === 'online_spectating';
+                    const isGameScreen = gameMode === 'online_playing' || isLocalPlay || gameMode === 'online_spectating';
                     if (isGameScreen && !reviewingGame) {
                         if (soundsEnabled) {
                             playLowTimeSound();
@@ -1826,11 +1847,10 @@ const App: React.FC = () => {
                     // Check timeout even if opponent is disconnected
                     if (gameMode !== 'online_playing' || turn === myOnlineColor || statusRef.current === 'playing') {
                         if (timerRef.current) clearInterval(timerRef.current);
-                        const winnerColor = turn.toLowerCase() === Color.White.toLowerCase() ? Color.Black : Color.White;
                         if (gameStateRef.current) {
                             const finalPlayerTimes = { ...(gameStateRef.current.playerTimes!), [turn]: 0 };
                             const timeOutState = { ...gameStateRef.current, playerTimes: finalPlayerTimes };
-                            handleGameOver(timeOutState, 'timeout', winnerColor.charAt(0).toUpperCase() + winnerColor.slice(1));
+                            handleGameOver(timeOutState, 'timeout', timeoutWinner(timeOutState, turn));
                         }
                     }
                 }
@@ -1846,9 +1866,8 @@ const App: React.FC = () => {
                 if (Date.now() > moveDeadline) {
                     if (gameMode !== 'online_playing' || turn === myOnlineColor || statusRef.current === 'playing') {
                         if (timerRef.current) clearInterval(timerRef.current);
-                        const winnerColor = turn.toLowerCase() === Color.White.toLowerCase() ? Color.Black : Color.White;
                         if (gameStateRef.current) {
-                            handleGameOver(gameStateRef.current, 'timeout', winnerColor.charAt(0).toUpperCase() + winnerColor.slice(1));
+                            handleGameOver(gameStateRef.current, 'timeout', timeoutWinner(gameStateRef.current, turn));
                         }
                     }
                 }
@@ -1867,11 +1886,15 @@ const App: React.FC = () => {
         mode: GameMode,
         settings: TimerSettings = null,
         dontLoad = false,
-        isGameRated = true
+        isGameRated = true,
+        variant: Variant = 'standard',
+        rules: RuleSet = STANDARD_RULES,
+        opponent: EngineOpponent | null = null
     ): GameState => {
-        const initialBoard = createInitialBoard();
+        const isLocalMode = mode === 'local' || mode === 'vs_engine';
+        const initialBoard = variant === 'krachtschaak960' ? createKrachtschaak960Board(randomKrachtschaak960Index()) : createInitialBoard();
         const initialKey = generateBoardKey(initialBoard, Color.White, null);
-        const category = getRatingCategory(settings);
+        const category = getRatingCategory(settings, variant);
 
         let initialPlayerTimes = null;
         let initialMoveDeadline = null;
@@ -1879,11 +1902,11 @@ const App: React.FC = () => {
 
         if (settings && 'initialTime' in settings) {
             initialPlayerTimes = { white: settings.initialTime, black: settings.initialTime };
-            if (mode === 'local') {
+            if (isLocalMode) {
                 initialTurnStartTime = Date.now();
             }
         } else if (settings && 'daysPerMove' in settings) {
-            if (mode === 'local') {
+            if (isLocalMode) {
                 initialMoveDeadline = Date.now() + settings.daysPerMove * 24 * 60 * 60 * 1000;
             }
         }
@@ -1901,7 +1924,7 @@ const App: React.FC = () => {
             players: {},
             playerColors: { white: null, black: null },
             initialRatings: null,
-            isRated: mode === 'local' ? false : isGameRated,
+            isRated: isLocalMode ? false : isGameRated,
             rematchOffer: null,
             nextGameId: null,
             ratingChange: null,
@@ -1915,6 +1938,19 @@ const App: React.FC = () => {
             showPowerRings: true,
             showOriginalType: true
         };
+        if (variant === 'krachtschaak960') {
+            initialGameState.variant = variant;
+            initialGameState.kFen = boardToKrachtschaakFen({ board: initialBoard, turn: Color.White });
+        }
+        if (!isStandardRules(rules)) {
+            initialGameState.rules = rules;
+            initialGameState.isRated = false; // Ratings only cover the standard rules
+        }
+        if (mode === 'vs_engine' && opponent) {
+            initialGameState.engineOpponent = opponent;
+            Object.assign(initialGameState, engineGamePlayers(opponent, currentUser?.displayName || 'You'));
+            engineWorkerRef.current?.postMessage({ type: 'newgame' });
+        }
 
         if (!dontLoad) {
             loadGameState(initialGameState);
@@ -1927,9 +1963,10 @@ const App: React.FC = () => {
             setSpectatorChatMessages([]);
             setGameRematchOf(null);
             setMoveHistory([]);
+            setShowEngineSetup(false);
         }
         return initialGameState;
-    }, [loadGameState]);
+    }, [loadGameState, currentUser]);
 
     //spectate functie
     const handleOnlineSpectate = useCallback((id: string) => {
@@ -2129,7 +2166,7 @@ const App: React.FC = () => {
     const handleBackToMenu = useCallback(async () => {
         const localStatus = statusRef.current;
         if (currentUser && gameMode === 'online_playing' && localStatus === 'playing' && gameRef) {
-            const isExempt = ratingCategory === RatingCategory.Daily || ratingCategory === RatingCategory.Unlimited;
+            const isExempt = isCorrespondence(timerSettings);
             if (!isExempt) {
                 gameRef.child(`players/${currentUser.uid}/disconnectTimestamp`).set(window.firebase.database.ServerValue.TIMESTAMP);
             }
@@ -2386,7 +2423,7 @@ const App: React.FC = () => {
             return;
         }
 
-        const isExemptFromDisconnect = ratingCategory === RatingCategory.Daily || ratingCategory === RatingCategory.Unlimited;
+        const isExemptFromDisconnect = isCorrespondence(timerSettings);
         if (isExemptFromDisconnect) {
             if (rejoinTimerRef.current) clearTimeout(rejoinTimerRef.current);
             if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
@@ -2423,7 +2460,7 @@ const App: React.FC = () => {
                 clearTimeout(rejoinTimerRef.current);
             }
         };
-    }, [players, playerColors, myOnlineColor, gameMode, status, handleGameOver, ratingCategory]);
+    }, [players, playerColors, myOnlineColor, gameMode, status, handleGameOver, timerSettings]);
 
     // Rejoin Countdown UI Timer
     useEffect(() => {
@@ -2437,7 +2474,7 @@ const App: React.FC = () => {
             return;
         }
 
-        const isExemptFromDisconnect = ratingCategory === RatingCategory.Daily || ratingCategory === RatingCategory.Unlimited;
+        const isExemptFromDisconnect = isCorrespondence(timerSettings);
         if (isExemptFromDisconnect) return;
 
         const opponentColor = myOnlineColor === Color.White ? Color.Black : Color.White;
@@ -2464,7 +2501,7 @@ const App: React.FC = () => {
                 clearInterval(countdownIntervalRef.current);
             }
         };
-    }, [players, playerColors, gameMode, myOnlineColor, status, ratingCategory]);
+    }, [players, playerColors, gameMode, myOnlineColor, status, timerSettings]);
 
     const confirmOfferDraw = () => {
         if (status === 'playing' && !drawOffer) {
@@ -2483,6 +2520,16 @@ const App: React.FC = () => {
         }
     };
 
+    // Threefold repetition and the fifty-move rule are claimed by the player to move.
+    const drawClaim = claimableDraw(currentGameState);
+    const canClaimDraw = !!drawClaim && (gameMode !== 'online_playing' || turn === myOnlineColor) && !(gameMode === 'vs_engine' && turn === engineOpponent?.color);
+
+    const handleClaimDraw = () => {
+        if (drawClaim && canClaimDraw) {
+            handleGameOver(currentGameState, drawClaim, null);
+        }
+    };
+
     const handleAcceptDraw = () => {
         const acceptingPlayer = gameMode === 'online_playing' ? myOnlineColor : turn;
         if (drawOffer && drawOffer !== acceptingPlayer) {
@@ -2500,7 +2547,7 @@ const App: React.FC = () => {
 
     const handleOfferTakeback = () => {
         if (status !== 'playing' || takebackOffer) return;
-        if (gameMode === 'local') {
+        if (isLocalPlay) {
             handleUndo();
             return;
         }
@@ -2523,7 +2570,7 @@ const App: React.FC = () => {
                     ...prev,
                     takebackOffer: null,
                     previousState: prev.previousState || null,
-                    turnStartTime: isRealtime ? (gameMode === 'local' ? Date.now() : (window.firebase.database.ServerValue.TIMESTAMP as any)) : null,
+                    turnStartTime: isRealtime ? (isLocalPlay ? Date.now() : (window.firebase.database.ServerValue.TIMESTAMP as any)) : null,
                     players: currentGameState.players || prev.players,
                     chat: currentGameState.chat || prev.chat,
                     spectatorChat: currentGameState.spectatorChat || prev.spectatorChat,
@@ -2570,9 +2617,13 @@ const App: React.FC = () => {
     const handlePlayAgain = () => {
         if (gameMode === 'online_playing') {
             handleBackToMenu();
+        } else if (gameMode === 'vs_engine' && engineOpponent) {
+            // Same level and time control; the computer takes the other colour.
+            const color = engineOpponent.color === Color.White ? Color.Black : Color.White;
+            resetGame('vs_engine', timerSettings, false, false, gameVariant || 'standard', gameRuleSet || STANDARD_RULES, { ...engineOpponent, color });
         } else {
             //Maak de schone staat
-            const newLocalState = resetGame('local', timerSettings);
+            const newLocalState = resetGame('local', timerSettings, false, false, gameVariant || 'standard', gameRuleSet || STANDARD_RULES);
 
             //Pas de schone staat toe op alle component states (board, turn, status, etc.)
             loadGameState(newLocalState);
@@ -2637,25 +2688,12 @@ const App: React.FC = () => {
         const currentState = gameStateRef.current;
         if (!currentState) return;
 
-        const { board, capturedPieces, enPassantTarget, turn } = currentState;
-
-        const newBoard = board.map(row => [...row]);
-        const pieceToMove = { ...newBoard[from.row][from.col]! };
-        const capturedPieceOnTarget = newBoard[to.row][to.col];
-        let resetHalfmoveClock = pieceToMove.type === PieceType.Pawn;
-
-        const newCapturedPieces: Record<Color, Piece[]> = {
-            white: [...(capturedPieces.white || [])],
-            black: [...(capturedPieces.black || [])],
-        };
-
-        const wasPowerMove = isPowerMove(board, from, to, enPassantTarget);
-        const wasAmbiguousMove = isAmbiguousMove(board, from, to, enPassantTarget);
-        const isEnPassantCapture = (pieceToMove.type === PieceType.Pawn || pieceToMove.power === PieceType.Pawn) && enPassantTarget && to.row === enPassantTarget.row && to.col === enPassantTarget.col && !capturedPieceOnTarget;
+        const { board, enPassantTarget, turn } = currentState;
+        const rules = gameRules(currentState);
 
         const forcePowerFromPremove = premoveOptions.isPremove && premoveOptions.forcePower;
         const useForcePower = isForcePowerMode || forcePowerFromPremove;
-        const isAmbiguousEnPassant = isEnPassantCapture && pieceToMove.power === PieceType.Pawn && [PieceType.Queen, PieceType.Bishop, PieceType.King].includes(pieceToMove.originalType);
+        const intent: MoveIntent = { from, to, ...(useForcePower ? { forcePower: true } : {}) };
 
         if (premoveOptions.isPremove) {
             // DIRECTLY set the premove without confirmation dialog, per latest request
@@ -2680,29 +2718,12 @@ const App: React.FC = () => {
             return false;
         };
 
-        if (isAmbiguousEnPassant && !useForcePower) {
+        const stateWithCurrentTime = chargeElapsedTime(currentState, isLocalPlay ? Date.now() : Date.now() + serverOffset);
+
+        if (isAmbiguousEnPassant(board, from, to, enPassantTarget) && !useForcePower) {
             if (shouldAutoApply(autoEnPassant, currentState.timerSettings)) {
                 // Auto-apply capture choice
-                const choice: 'capture' = 'capture';
-                let actualCapturedPiece = newBoard[from.row][to.col] as Piece;
-                newBoard[from.row][to.col] = null;
-                const wasCapture = true;
-                let acquiredPower = actualCapturedPiece.originalType;
-                newCapturedPieces[actualCapturedPiece.color].push(actualCapturedPiece);
-
-                pieceToMove.power = acquiredPower;
-                pieceToMove.hasMoved = true;
-                newBoard[to.row][to.col] = pieceToMove;
-                newBoard[from.row][from.col] = null;
-
-                const promotionRank = turn === Color.White ? 0 : 7;
-                if (to.row === promotionRank) {
-                    // Still need to handle promotion if en passant leads to last rank
-                    // But usually en passant happens on ranks 3/6 (0-indexed 2/5 or 3/4)
-                    // In Krachtschaak, pawns can move multiple squares, but en passant only happens on specific ranks.
-                }
-
-                finalizeTurn(currentState, newBoard, null, true, newCapturedPieces, { from, to }, pieceToMove, actualCapturedPiece, null);
+                finalizeTurn(stateWithCurrentTime, resolveMove(board, enPassantTarget, { ...intent, enPassantChoice: 'capture' }, rules));
                 return;
             }
 
@@ -2716,102 +2737,17 @@ const App: React.FC = () => {
             return;
         }
 
-        let actualCapturedPiece: Piece | null = capturedPieceOnTarget;
-        if (isEnPassantCapture) {
-            actualCapturedPiece = newBoard[from.row][to.col] as Piece;
-            newBoard[from.row][to.col] = null;
-        }
-
-        const wasCapture = !!actualCapturedPiece;
-        let acquiredPower: PieceType | null = null;
-
-        if (wasCapture && actualCapturedPiece) {
-            resetHalfmoveClock = true;
-            acquiredPower = actualCapturedPiece.originalType;
-            const capturedColor = actualCapturedPiece.color;
-            newCapturedPieces[capturedColor].push(actualCapturedPiece);
-
-            if (actualCapturedPiece.isKing || actualCapturedPiece.originalType === PieceType.King) {
-                pieceToMove.power = acquiredPower;
-                pieceToMove.hasMoved = true;
-                newBoard[to.row][to.col] = pieceToMove;
-                newBoard[from.row][from.col] = null;
-
-                // Build the move history entry for this king capture
-                const notation = getNotation(currentState.board, from, to, pieceToMove, actualCapturedPiece, null, isForcePowerMode);
-                const pieceOnNewBoard = newBoard[to.row][to.col];
-                const afterPower = pieceOnNewBoard ? pieceOnNewBoard.power : null;
-                const powerConsumed = !!(pieceToMove.power && !afterPower);
-
-                const moveData: Move = {
-                    from,
-                    to,
-                    piece: pieceToMove.type || PieceType.Pawn,
-                    notation,
-                    color: turn,
-                    captured: actualCapturedPiece.type,
-                    afterPower: afterPower || null,
-                    isForcePower: !!isForcePowerMode,
-                    powerConsumed,
-                };
-
-                const newMoveHistory = [...(currentState.moveHistory || []), moveData];
-
-                const finalState: GameState = {
-                    ...currentState,
-                    board: newBoard,
-                    capturedPieces: newCapturedPieces,
-                    lastMove: { from, to },
-                    moveHistory: newMoveHistory,
-                };
-                handleGameOver(finalState, 'kingCaptured', turn.charAt(0).toUpperCase() + turn.slice(1));
-                return;
-            }
-        }
-
-        const promotionRank = turn === Color.White ? 0 : 7;
-        const isMovingToPromotionRank = to.row === promotionRank;
-        const hasPawnAbility = pieceToMove.type === PieceType.Pawn || pieceToMove.power === PieceType.Pawn;
-        const isCapturingPawnOnPromotionRank = wasCapture &&
-            actualCapturedPiece?.originalType === PieceType.Pawn &&
-            isMovingToPromotionRank;
-
-        if ((isMovingToPromotionRank && hasPawnAbility) || isCapturingPawnOnPromotionRank) {
-            let powerAfterPromotion: PieceType | null = null;
-            if (isCapturingPawnOnPromotionRank) {
-                powerAfterPromotion = null;
-            } else if (wasCapture && actualCapturedPiece) {
-                powerAfterPromotion = actualCapturedPiece.originalType === PieceType.Pawn ? null : actualCapturedPiece.originalType;
-            } else {
-                if (pieceToMove.originalType === PieceType.Pawn && !wasPowerMove) {
-                    powerAfterPromotion = pieceToMove.power === PieceType.Pawn ? null : pieceToMove.power;
-                } else {
-                    powerAfterPromotion = null;
-                }
-            }
-
-            if (shouldAutoApply(autoQueen, currentState.timerSettings)) {
-                // Auto Queen promotion
-                const promotedPiece: Piece = {
-                    ...pieceToMove,
-                    type: PieceType.Queen,
-                    originalType: pieceToMove.originalType,
-                    isKing: pieceToMove.isKing || pieceToMove.originalType === PieceType.King,
-                    hasMoved: true,
-                    power: powerAfterPromotion
-                };
-                newBoard[to.row][to.col] = promotedPiece;
-                newBoard[from.row][from.col] = null;
-                finalizeTurn(currentState, newBoard, null, true, newCapturedPieces, { from, to }, pieceToMove, actualCapturedPiece, PieceType.Queen);
-                return;
-            }
+        const isPromotion = isPromotionMove(board, from, to, enPassantTarget);
+        // Resolve as a queen promotion first; it tells us the power the promoted piece keeps.
+        const resolution = resolveMove(board, enPassantTarget, isPromotion ? { ...intent, promotion: PieceType.Queen } : intent, rules);
 
+        if (isPromotion && !resolution.isKingCapture && !shouldAutoApply(autoQueen, currentState.timerSettings)) {
             const promotionInfo: PromotionData = {
                 from,
                 position: to,
-                promotingPiece: pieceToMove,
-                powerAfterPromotion: powerAfterPromotion,
-                capturedPiece: actualCapturedPiece
+                promotingPiece: { ...board[from.row][from.col]! },
+                powerAfterPromotion: resolution.board[to.row][to.col]?.power || null,
+                capturedPiece: resolution.captured
             };
 
             // For online games, don't commit state yet. Show promotion UI locally first.
@@ -2821,74 +2757,19 @@ const App: React.FC = () => {
                 return;
             }
 
+            // The board stays as it was until a piece is chosen, so the move can be resolved from it.
             const newState: GameState = {
-                ...currentState,
-                board: newBoard,
-                capturedPieces: newCapturedPieces,
+                ...stateWithCurrentTime,
                 status: 'promotion',
                 promotionData: promotionInfo,
-                enPassantTarget: null,
-                halfmoveClock: 0,
                 lastMove: { from, to }
             };
             commitNewGameState(newState);
             return;
         }
 
-        let powerAfterMove = pieceToMove.power;
-        if (wasCapture) {
-            powerAfterMove = acquiredPower;
-        } else if (useForcePower && wasAmbiguousMove) {
-            powerAfterMove = null;
-        } else if (wasPowerMove) {
-            powerAfterMove = null;
-        }
-
-        const wasForcedPowerMove = useForcePower && wasAmbiguousMove;
-
-        pieceToMove.power = powerAfterMove;
-        pieceToMove.hasMoved = true;
-        newBoard[to.row][to.col] = pieceToMove;
-        newBoard[from.row][from.col] = null;
-
-        // Handle castling: move the rook. This is a special move type and should not
-        // be triggered if the move was a power move or a forced power move.
-        const isPotentialCastle = pieceToMove.type === PieceType.King &&
-            Math.abs(to.col - from.col) === 2 &&
-            from.row === to.row &&
-            !wasCapture;
-
-
-        if (isPotentialCastle && !wasPowerMove && !wasForcedPowerMove) {
-            const rookCol = to.col === 6 ? 7 : 0;
-            const newRookCol = to.col === 6 ? 5 : 3;
-            // The rook is still on the board at its original position in the `newBoard` copy
-            const rook = newBoard[from.row][rookCol];
-            // Check if rook exists and has not moved (double-checking legality from getValidMoves)
-            if (rook?.type === PieceType.Rook && !rook.hasMoved) {
-                newBoard[from.row][newRookCol] = { ...rook, hasMoved: true };
-                newBoard[from.row][rookCol] = null;
-            }
-        }
-
-        let nextEnPassantTarget: Position | null = (pieceToMove.type === PieceType.Pawn && Math.abs(to.row - from.row) === 2) ? { row: from.row + (to.row - from.row) / 2, col: from.col } : null;
-
-        let newPlayerTimes = currentState.playerTimes;
-        if (currentState.playerTimes && currentState.turnStartTime && currentState.timerSettings && 'initialTime' in currentState.timerSettings) {
-            var elapsedMs = premoveOptions.isPremove ? 0 : (Math.max(0, Date.now() - currentState.turnStartTime + serverOffset));
-            if (gameMode === 'local') {
-                elapsedMs = premoveOptions.isPremove ? 0 : (Math.max(0, Date.now() - currentState.turnStartTime));
-            }
-            const remainingTime = currentState.playerTimes[currentState.turn] - (elapsedMs / 1000);
-            newPlayerTimes = {
-                ...currentState.playerTimes,
-                [currentState.turn]: remainingTime < 0 ? 0 : remainingTime
-            };
-        }
-        const stateWithCurrentTime = { ...currentState, playerTimes: newPlayerTimes };
-
-        finalizeTurn(stateWithCurrentTime, newBoard, nextEnPassantTarget, resetHalfmoveClock, newCapturedPieces, { from, to }, pieceToMove, actualCapturedPiece, null, { isForcePower: wasForcedPowerMove });
-    }, [commitNewGameState, finalizeTurn, handleGameOver, isForcePowerMode, gameMode, moveConfirmationEnabled]);
+        finalizeTurn(stateWithCurrentTime, resolution);
+    }, [commitNewGameState, finalizeTurn, isForcePowerMode, gameMode, moveConfirmationEnabled, serverOffset]);
 
     // Premove execution logic
     useEffect(() => {
@@ -3049,65 +2930,18 @@ const App: React.FC = () => {
         if (!currentState || !data) return;
 
         const { from, to } = data;
-        let newBoard = currentState.board.map(row => [...row]);
-
-        // Fix for online ambiguous en passant where piece is already visually at 'to'
-        const isOnlineAmbiguous = gameMode === 'online_playing' && localAmbiguousEnPassantState;
-        const sourcePos = from; // piece is logically at 'from' in baseState
-
-        // Piece should exist at sourcePos
-        if (!newBoard[sourcePos.row][sourcePos.col]) return;
-
-        const pieceToMove = { ...newBoard[sourcePos.row][sourcePos.col]! };
-        let acquiredPower: PieceType | null = null;
-        let newCapturedPieces = currentState.capturedPieces;
-
-        let capturedPieceResult: Piece | null = null;
-        if (choice === 'capture') {
-            capturedPieceResult = newBoard[from.row][to.col] as Piece;
-            newBoard[from.row][to.col] = null;
-            if (capturedPieceResult) {
-                acquiredPower = capturedPieceResult.originalType;
-                pieceToMove.power = acquiredPower;
-                newCapturedPieces = {
-                    ...currentState.capturedPieces,
-                    [capturedPieceResult.color]: [...(currentState.capturedPieces[capturedPieceResult.color] || []), capturedPieceResult]
-                };
-            }
-        } else {
-            pieceToMove.power = PieceType.Pawn;
-        }
-
-        pieceToMove.hasMoved = true;
-        newBoard[to.row][to.col] = pieceToMove;
 
-        // Ensure 'from' is cleared
-        newBoard[from.row][from.col] = null;
+        // Piece should exist at the source square; the board is untouched until the choice is made
+        if (!currentState.board[from.row][from.col]) return;
 
         if (gameMode === 'online_playing') {
             setLocalAmbiguousEnPassantState(null);
         }
 
-        const promotionRank = currentState.turn === Color.White ? 0 : 7;
-        if (to.row === promotionRank) {
-            let powerAfterPromotion: PieceType | null = choice === 'capture' ? PieceType.Pawn : null;
-            const newState: GameState = {
-                ...currentState,
-                board: newBoard,
-                status: 'promotion',
-                promotionData: { from, position: to, promotingPiece: newBoard[to.row][to.col]!, powerAfterPromotion, capturedPiece: capturedPieceResult },
-                capturedPieces: newCapturedPieces,
-                enPassantTarget: null,
-                halfmoveClock: 0,
-                ambiguousEnPassantData: null,
-                lastMove: { from, to },
-            };
-            commitNewGameState(newState);
-            return;
-        }
-
-        finalizeTurn(currentState, newBoard, null, true, newCapturedPieces, { from, to }, pieceToMove, capturedPieceResult, null);
-    }, [commitNewGameState, finalizeTurn, gameMode, localAmbiguousEnPassantState]);
+        const promotion = isPromotionMove(currentState.board, from, to, currentState.enPassantTarget) ? { promotion: PieceType.Queen } : {};
+        const resolution = resolveMove(currentState.board, currentState.enPassantTarget, { from, to, enPassantChoice: choice, ...promotion }, gameRules(currentState));
+        finalizeTurn(currentState, resolution);
+    }, [finalizeTurn, gameMode, localAmbiguousEnPassantState]);
 
     const handlePromotion = useCallback((chosenPieceType: PieceType) => {
         // Use localPromotionState for online games
@@ -3116,31 +2950,26 @@ const App: React.FC = () => {
 
         if (!currentState || !promotionInfo) return;
 
-        const { from, position, promotingPiece, powerAfterPromotion, capturedPiece } = promotionInfo;
-        const newBoard = currentState.board.map(r => [...r]);
-
-        const promotedPiece: Piece = {
-            ...promotingPiece,
-            type: chosenPieceType,
-            originalType: promotingPiece.originalType,
-            isKing: promotingPiece.isKing || promotingPiece.originalType === PieceType.King,
-            hasMoved: true,
-            power: powerAfterPromotion
-        };
-
-        newBoard[position.row][position.col] = promotedPiece;
-        newBoard[from.row][from.col] = null;
+        const { from, position } = promotionInfo;
+        if (!currentState.board[from.row][from.col]) return;
 
         if (gameMode === 'online_playing') {
             setLocalPromotionState(null);
         }
 
-        finalizeTurn(currentState, newBoard, null, true, currentState.capturedPieces, { from, to: position }, promotingPiece, capturedPiece, chosenPieceType);
+        const resolution = resolveMove(currentState.board, currentState.enPassantTarget, { from, to: position, promotion: chosenPieceType }, gameRules(currentState));
+        finalizeTurn(currentState, resolution);
     }, [finalizeTurn, gameMode, localPromotionState]);
 
     const handleUndo = () => {
-        if ((gameMode !== 'local' && gameMode !== 'analysis') || history.length <= 1) return;
-        const newHistory = history.slice(0, -1);
+        if ((!isLocalPlay && gameMode !== 'analysis') || history.length <= 1) return;
+        let newHistory = history.slice(0, -1);
+        // Against the computer, take its reply back too so it is the player's move again.
+        if (gameMode === 'vs_engine' && engineOpponent) {
+            while (newHistory.length > 1 && newHistory[newHistory.length - 1].turn === engineOpponent.color) {
+                newHistory = newHistory.slice(0, -1);
+            }
+        }
         const lastState = newHistory[newHistory.length - 1];
         loadGameState(lastState);
         setPromotionData(null);
@@ -3344,11 +3173,11 @@ const App: React.FC = () => {
 
         if (currentState.isRated && currentState.ratingChange) {
             const category = currentState.ratingCategory;
-            whiteRatings[category] += currentState.ratingChange.white;
-            blackRatings[category] += currentState.ratingChange.black;
+            whiteRatings[category] = (whiteRatings[category] ?? 1200) + currentState.ratingChange.white;
+            blackRatings[category] = (blackRatings[category] ?? 1200) + currentState.ratingChange.black;
         }
 
-        const newGameState = resetGame('online_playing', currentState.timerSettings, true, currentState.isRated);
+        const newGameState = resetGame('online_playing', currentState.timerSettings, true, currentState.isRated, currentState.variant, gameRules(currentState));
 
         newGameState.playerColors = { white: oldBlackUid, black: oldWhiteUid };
 
@@ -3358,7 +3187,7 @@ const App: React.FC = () => {
         };
 
         const category = newGameState.ratingCategory;
-        newGameState.initialRatings = { white: blackRatings[category], black: whiteRatings[category] };
+        newGameState.initialRatings = { white: blackRatings[category] ?? 1200, black: whiteRatings[category] ?? 1200 };
         newGameState.status = 'playing';
 
         if (newGameState.timerSettings && 'initialTime' in newGameState.timerSettings) {
@@ -3557,7 +3386,8 @@ const App: React.FC = () => {
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [goBack, goForward, activeTab]);
 
-    const isInteractionDisabled = (status !== 'playing' && gameMode !== 'analysis') || !!localPromotionState || !!localAmbiguousEnPassantState || (gameMode === 'online_playing' && turn !== myOnlineColor && !premovesEnabled) || gameMode === 'online_spectating';
+    const isEngineTurn = gameMode === 'vs_engine' && !!engineOpponent && turn === engineOpponent.color;
+    const isInteractionDisabled = (status !== 'playing' && gameMode !== 'analysis') || !!localPromotionState || !!localAmbiguousEnPassantState || (gameMode === 'online_playing' && turn !== myOnlineColor && !premovesEnabled) || gameMode === 'online_spectating' || isEngineTurn;
 
     const handleReviewGame = (gameToReview: GameState) => {
         setReviewReturnTo({ mode: gameMode, lobbyView: lobbyView });
@@ -3669,7 +3499,9 @@ const App: React.FC = () => {
         }
 
 
-        const isFlipped = (gameMode === 'online_playing' ? myOnlineColor === Color.Black : turn === Color.Black) && (gameMode !== 'online_spectating');
+        const isFlipped = gameMode === 'vs_engine' && engineOpponent
+            ? engineOpponent.color === Color.White
+            : (gameMode === 'online_playing' ? myOnlineColor === Color.Black : turn === Color.Black) && (gameMode !== 'online_spectating');
 
         const whitePlayerUid = playerColors?.white;
         const blackPlayerUid = playerColors?.black;
@@ -3688,7 +3520,7 @@ const App: React.FC = () => {
             ? (initialRatings?.black ?? blackPlayer?.ratings?.[ratingCategory])
             : (initialRatings?.white ?? whitePlayer?.ratings?.[ratingCategory]);
 
-        const myColor = gameMode === 'online_playing' ? myOnlineColor : turn;
+        const myColor = gameMode === 'online_playing' ? myOnlineColor : gameMode === 'vs_engine' && engineOpponent ? opponentOf(engineOpponent.color) : turn;
         const myPlayerHasPowerPiece = board.flat().some(p => p && p.color === myColor && p.power);
         const showForcePowerButton = status === 'playing' && myPlayerHasPowerPiece;
 
@@ -3764,7 +3596,7 @@ const App: React.FC = () => {
                                 onPromote={handlePromotion} promotionData={localPromotionState || promotionData}
                                 onResolveAmbiguousEnPassant={resolveAmbiguousEnPassant}
                                 gameMode={gameMode}
-                                isMyTurnForAction={gameMode === 'local' || turn === myOnlineColor}
+                                isMyTurnForAction={gameMode === 'local' || (gameMode === 'vs_engine' ? !isEngineTurn : turn === myOnlineColor)}
                                 ratingChange={ratingChange} initialRatings={initialRatings}
                                 players={players} playerColors={playerColors} isRated={isRated}
                                 rematchOffer={rematchOffer} myOnlineColor={myOnlineColor}
@@ -3785,25 +3617,32 @@ const App: React.FC = () => {
                                     <span className="bg-blue-600 text-white font-bold text-sm px-4 py-1 rounded-b-lg shadow-lg">Reviewing Move {reviewingHistoryIndex + 1}</span>
                                 </div>
                             )}
-                            <Board
-                                board={displayedBoard} selectedPiece={selectedPiece} validMoves={validMoves}
-                                onSquareClick={handleSquareClick} turn={turn} playerColor={myOnlineColor}
-                                gameMode={gameMode} isInteractionDisabled={isInteractionDisabled}
-                                onPieceDragStart={handleDragStart}
-                                onPieceDragEnd={handleDragEnd}
-                                onSquareDrop={handleDrop}
-                                draggedPiece={draggedPiece}
-                                premove={myOnlineColor ? premoves?.[myOnlineColor] : null}
-                                lastMove={displayedLastMove}
-                                highlightedSquares={highlightedSquares}
-                                arrows={arrows}
-                                onBoardMouseDown={handleBoardMouseDown}
-                                onBoardMouseUp={handleBoardMouseUp}
-                                onBoardContextMenu={handleBoardContextMenu}
-                                showPowerPieces={currentShowPowerPieces}
-                                showPowerRings={currentShowPowerRings}
-                                showOriginalType={currentShowOriginalType}
-                            />
+                            <div className="flex gap-2">
+                                {gameMode === 'online_spectating' && spectatorEvalDelay !== null && (
+                                    <EvalBar wdl={spectatorEval?.wdl || null} label={spectatorEval?.label} />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <Board
+                                        board={displayedBoard} selectedPiece={selectedPiece} validMoves={validMoves}
+                                        onSquareClick={handleSquareClick} turn={turn} playerColor={myOnlineColor}
+                                        gameMode={gameMode} isInteractionDisabled={isInteractionDisabled}
+                                        onPieceDragStart={handleDragStart}
+                                        onPieceDragEnd={handleDragEnd}
+                                        onSquareDrop={handleDrop}
+                                        draggedPiece={draggedPiece}
+                                        premove={myOnlineColor ? premoves?.[myOnlineColor] : null}
+                                        lastMove={displayedLastMove}
+                                        highlightedSquares={highlightedSquares}
+                                        arrows={arrows}
+                                        onBoardMouseDown={handleBoardMouseDown}
+                                        onBoardMouseUp={handleBoardMouseUp}
+                                        onBoardContextMenu={handleBoardContextMenu}
+                                        showPowerPieces={currentShowPowerPieces}
+                                        showPowerRings={currentShowPowerRings}
+                                        showOriginalType={currentShowOriginalType}
+                                    />
+                                </div>
+                            </div>
 
                         </div>
                     </div>
@@ -3861,8 +3700,13 @@ const App: React.FC = () => {
                                             </div>
                                         )}
 
+                                        {canClaimDraw && (
+                                            <button onClick={handleClaimDraw} className="w-full px-3 py-2.5 bg-teal-600 hover:bg-teal-700 rounded-lg font-semibold transition-colors text-sm">
+                                                Claim Draw ({drawClaim === 'draw_threefold' ? 'threefold repetition' : '50-move rule'})
+                                            </button>
+                                        )}
                                         <div className="grid grid-cols-2 gap-2">
-                                            {!drawOffer && (
+                                            {!drawOffer && gameMode !== 'vs_engine' && (
                                                 <button onClick={handleOfferDraw} className="w-full px-3 py-2.5 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors text-sm">Offer Draw</button>
                                             )}
                                             {!takebackOffer && (
@@ -3895,7 +3739,7 @@ const App: React.FC = () => {
                                     >
                                         Power Legend
                                     </button>
-                                    {gameMode === 'local' && (<button onClick={handleUndo} disabled={history.length <= 1} className="w-full mt-4 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded-lg font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">Undo Move</button>)}
+                                    {isLocalPlay && (<button onClick={handleUndo} disabled={history.length <= 1} className="w-full mt-4 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded-lg font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">Undo Move</button>)}
                                     {showForcePowerButton && (
                                         <button
                                             onClick={() => setIsForcePowerMode(!isForcePowerMode)}
@@ -4088,6 +3932,11 @@ const App: React.FC = () => {
                                 )}
                                 {status === 'playing' && (
                                     <div className="mt-2 space-y-2 text-center">
+                                        {canClaimDraw && (
+                                            <button onClick={handleClaimDraw} className="w-full px-4 py-2 bg-teal-600 hover:bg-teal-700 rounded-lg font-semibold transition-colors text-sm">
+                                                Claim Draw ({drawClaim === 'draw_threefold' ? 'threefold repetition' : '50-move rule'})
+                                            </button>
+                                        )}
                                         {drawOffer && drawOffer !== myColor ? (
                                             <div className="bg-gray-700/60 p-2 rounded-lg">
                                                 <p className="mb-2 text-yellow-400 text-sm font-semibold">{drawOffer.charAt(0).toUpperCase() + drawOffer.slice(1)} offers draw.</p>
@@ -4098,7 +3947,7 @@ const App: React.FC = () => {
                                             </div>
                                         ) : drawOffer && drawOffer === myColor ? (
                                             <p className="text-gray-400 text-sm">Draw offer sent.</p>
-                                        ) : (
+                                        ) : gameMode === 'vs_engine' ? null : (
                                             <button onClick={handleOfferDraw} className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors text-sm">Offer Draw</button>
                                         )}
 
@@ -4242,12 +4091,13 @@ const App: React.FC = () => {
 
     const renderContent = () => {
         if (reviewingGame) {
-            return <GameReview game={reviewingGame} onBack={handleBackFromReview} onAnalyze={handleStartAnalysisFromPosition} />;
+            return <GameReview game={reviewingGame} onBack={handleBackFromReview} onAnalyze={handleStartAnalysisFromPosition} engineThreads={engineThreads} />;
         }
 
         if (gameMode === 'analysis') {
             return <Analysis
                 initialState={analysisState || undefined}
+                engineThreads={engineThreads}
                 onBack={() => {
                     // Restore where we came from (menu, board_editor, game, or analysis_manager)
                     if (analysisReturnTo) {
@@ -4403,6 +4253,12 @@ const App: React.FC = () => {
                         >
                             <span>♟️</span> Local Game
                         </button>
+                        <button
+                            onClick={() => setShowEngineSetup(true)}
+                            className="w-full py-4 bg-gray-700 hover:bg-gray-600 rounded-xl text-xl font-bold transition-all transform hover:scale-105 shadow-lg flex items-center justify-center gap-3"
+                        >
+                            <span>🤖</span> Play Computer
+                        </button>
                         <button
                             onClick={handleStartOnline}
                             className="w-full py-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 rounded-xl text-xl font-bold transition-all transform hover:scale-105 shadow-lg flex items-center justify-center gap-3"
@@ -4522,6 +4378,13 @@ const App: React.FC = () => {
                         Bug reports and feature requests: <a href="mailto:pannenkoekissus@gmail.com" className="text-gray-400 hover:text-blue-400 underline transition-colors">pannenkoekissus@gmail.com</a>
                     </div>
 
+                    {showEngineSetup && (
+                        <EngineGameSetup
+                            onStart={(opponent, settings, rules) => resetGame('vs_engine', settings, false, false, 'standard', rules, opponent)}
+                            onReview={game => { setShowEngineSetup(false); handleReviewGame(game); }}
+                            onClose={() => setShowEngineSetup(false)}
+                        />
+                    )}
                     {showLocalSetup && (
                         <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
                             <div className="bg-gray-800 p-8 rounded-xl shadow-2xl w-full max-w-sm relative">
@@ -4533,7 +4396,8 @@ const App: React.FC = () => {
                                 </button>
                                 <h2 className="text-3xl font-bold mb-6 text-center text-white">Local Game Setup</h2>
                                 <div className="space-y-3">
-                                    <button onClick={() => resetGame('local', null)} className="w-full py-3 bg-green-600 hover:bg-green-700 rounded-lg text-lg font-semibold transition-colors">Unlimited Time</button>
+                                    <RuleSetOptions rules={localRules} onChange={setLocalRules} />
+                                    <button onClick={() => resetGame('local', null, false, false, 'standard', localRules)} className="w-full py-3 bg-green-600 hover:bg-green-700 rounded-lg text-lg font-semibold transition-colors">Unlimited Time</button>
                                     <div className="border-t border-gray-700 my-4"></div>
 
                                     <div className="flex gap-2 items-end mb-2">
@@ -4550,7 +4414,7 @@ const App: React.FC = () => {
                                         onClick={() => {
                                             const base = parseFloat(localCustomBase) || 10;
                                             const inc = parseInt(localCustomInc) || 0;
-                                            resetGame('local', { initialTime: base * 60, increment: inc });
+                                            resetGame('local', { initialTime: base * 60, increment: inc }, false, false, 'standard', localRules);
                                         }}
                                         className="w-full py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg font-semibold transition-colors"
                                     >
@@ -4600,6 +4464,10 @@ const App: React.FC = () => {
                             setNotifyOpenTimeControls={setNotifyOpenTimeControls}
                             chatColor={chatColor}
                             setChatColor={setChatColor}
+                            engineThreads={engineThreads}
+                            setEngineThreads={setEngineThreads}
+                            spectatorEvalDelay={spectatorEvalDelay}
+                            setSpectatorEvalDelay={setSpectatorEvalDelay}
                             autoUpdate={autoUpdate}
                         />
                     )}
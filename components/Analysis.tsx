@@ -1,13 +1,24 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { BoardState, Color, GameStatus, PieceType, Position, GameState, PromotionData, Piece, Move } from '../types';
-import { createInitialBoard, getValidMoves, isPowerMove, hasLegalMoves, isKingInCheck, generateBoardKey, canCaptureKing, isAmbiguousMove, getNotation, applyMoveToBoard, sanitizeBoard, boardToFen, boardToKrachtschaakFen, fenToBoard, generatePGN, isInsufficientMaterial } from '../utils/game';
+import { BoardState, Color, GameStatus, PieceType, Position, GameState, PromotionData, Piece, Move, MoveIntent } from '../types';
+import { createInitialBoard, getValidMoves, applyMoveToBoard, sanitizeBoard, boardToFen, boardToKrachtschaakFen, fenToBoard, posToNotation } from '../utils/game';
+import { colorName, completeTurn, gameRules, generateMoves, intentFromRecord, isAmbiguousEnPassant, isPromotionMove, isStandardRules, MoveResolution, opponentOf, resolveMove } from '../utils/rules';
+import { parseSan } from '../utils/san';
+import { lineSearchContext, SolveResult } from '../engine';
+import { createEngineCoordinator, EngineWorker, spawnEngineWorker } from '../utils/engineCoordinator';
+import { bookMoves, loadOpeningBook, OpeningBook } from '../utils/openingBook';
+import { hangingPieces } from '../utils/see';
+import { loadTablebase, Tablebase, tablebaseMoves, TablebaseResult } from '../utils/tablebase';
+import { flipWdl, formatWhiteScore, WDL_MODEL_NOTE } from '../utils/wdl';
+import { DEFAULT_FEN, gameTags, movesToSan, parsePgn, pgnResult, PgnMove, writePgn } from '../utils/pgn';
 import { playMoveSound, playCaptureSound, playWinSound, playDrawSound, playLossSound } from '../utils/sounds';
 import { saveAnalysis, loadAnalysis, generateId, AnalysisFolder, SavedAnalysis, listenToAnalysis, updateAnalysisNode, updateCurrentNodeId } from '../utils/analysisFirebase';
 import { getAllFolders } from '../utils/analysisFirebase';
 import Board from './Board';
 import GameOverlay from './GameOverlay';
 import PieceComponent from './Piece';
+import EvalBar from './EvalBar';
+import SolutionTree from './SolutionTree';
 import useOnlineStatus from '../utils/useOnlineStatus';
 
 
@@ -31,6 +42,8 @@ interface AnalysisProps {
     onBackToAnalysisManager?: () => void;
     onBackToMenu?: () => void;
     onBackToWhereIcameFrom?: () => void;
+    /** Engine workers to search with. */
+    engineThreads?: number;
 }
 
 interface AnalysisTreeNode {
@@ -43,7 +56,7 @@ interface AnalysisTreeNode {
     comment?: string;
 }
 
-const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, analysisOwnerUserId, analysisFolderId, canEditAnalysis = true, analysisSourceFolderType, analysisSharedFolders, analysisPublicFolders, currentUser, onBackToAnalysisManager, onBackToMenu, onBackToWhereIcameFrom }) => {
+const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, analysisOwnerUserId, analysisFolderId, canEditAnalysis = true, analysisSourceFolderType, analysisSharedFolders, analysisPublicFolders, currentUser, onBackToAnalysisManager, onBackToMenu, onBackToWhereIcameFrom, engineThreads = 1 }) => {
 
     const formatTimerSettingText = (settings: GameState['timerSettings']) => {
         if (!settings) return 'Unlimited';
@@ -103,10 +116,20 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
             nextGameId: raw?.nextGameId ?? null,
             ratingChange: raw?.ratingChange ?? null,
             moveHistory: raw?.moveHistory ?? [],
-            lastMove: lastMove ?? null // <--- DEZE REGEL TOEVOEGEN
+            lastMove: lastMove ?? null, // <--- DEZE REGEL TOEVOEGEN
+            ...(raw?.rules ? { rules: raw.rules } : {})
         };
     };
 
+    // Analysis keeps navigating past finished positions, so the side to move always flips
+    // and the clocks are left alone.
+    const advanceState = (state: GameState, resolution: MoveResolution): GameState => ({
+        ...completeTurn({ ...state, status: 'playing', winner: null }, resolution),
+        turn: opponentOf(state.turn),
+        playerTimes: state.playerTimes,
+        moveDeadline: state.moveDeadline,
+    });
+
     // Navigation Tree
     // If we have move history, the root should be the STARTING position (before any moves),
     // not the final board position passed in initialState.
@@ -159,7 +182,8 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
         nextGameId: null,
         ratingChange: initialState?.ratingChange || null,
         moveHistory: [],
-        kFen: initialState?.kFen
+        kFen: initialState?.kFen,
+        ...(initialState?.rules ? { rules: initialState.rules } : {})
     };
 
     // Build initial tree if move history exists
@@ -181,6 +205,7 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
             let currentBoard = initialRootState.board;
             let currentTurn = initialRootState.turn;
             let currentCaptured = { ...initialRootState.capturedPieces };
+            const sans = movesToSan(initialState.moveHistory, boardToKrachtschaakFen(initialRootState), gameRules(initialState));
 
             // Gebruik een index (i) voor 100% nauwkeurigheid
             for (let i = 0; i < initialState.moveHistory.length; i++) {
@@ -216,7 +241,7 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                 initialNodes[newNodeId] = {
                     id: newNodeId,
                     gameState: nextState,
-                    notation: move.notation,
+                    notation: sans[i],
                     children: [],
                     parentId: lastId,
                     lastVisited: i === initialState.moveHistory.length - 1,
@@ -241,6 +266,7 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     // Initialize and manage nodes and currentNodeId
     const [nodes, setNodes] = useState<Record<string, AnalysisTreeNode>>(initialTree.initialNodes);
     const [currentNodeId, setCurrentNodeId] = useState<string>(initialTree.leafId);
+    const rules = gameRules(nodes[currentNodeId].gameState);
     const [isFollowingLive, setIsFollowingLive] = useState(true);
     const currentNodeIdRef = useRef(currentNodeId);
     const isSyncingRef = useRef(false);
@@ -378,6 +404,7 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     useEffect(() => {
         return () => {
             stopWorker();
+            solveWorkerRef.current?.terminate();
         };
     }, []);
 
@@ -407,8 +434,11 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
             case 'stalemate': return `Stalemate! It's a draw.`;
             case 'draw_threefold': return `Draw by threefold repetition.`;
             case 'draw_fiftyMove': return `Draw by 50-move rule.`;
+            case 'draw_fivefold': return `Draw by fivefold repetition.`;
+            case 'draw_seventyFiveMove': return `Draw by 75-move rule.`;
+            case 'draw_insufficient': return `Draw by insufficient material.`;
             case 'draw_agreement': return `Draw by agreement.`;
-            case 'timeout': return `${game.winner} wins on time!`;
+            case 'timeout': return game.winner ? `${game.winner} wins on time!` : `Draw: out of time, but the opponent cannot win.`;
             case 'opponent_disconnected': return `${game.winner} wins, opponent disconnected.`;
             default: return "Game Analysis";
         }
@@ -440,12 +470,15 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     const [pgnInput, setPgnInput] = useState('');
     const [showExportModal, setShowExportModal] = useState(false);
     const [exportData, setExportData] = useState<{ type: string; value: string } | null>(null);
+    const [openingBook, setOpeningBook] = useState<OpeningBook | null>(null);
+    const [tablebase, setTablebase] = useState<Tablebase | null>(null);
 
     // UI State
     const [highlightedSquares, setHighlightedSquares] = useState<Position[]>([]);
     const [arrows, setArrows] = useState<{ from: Position; to: Position, color?: string }[]>([]);
     const [engineArrows, setEngineArrows] = useState<{ from: Position; to: Position, color?: string }[]>([]);
     const [showEngineArrow, setShowEngineArrow] = useState(true);
+    const [showHanging, setShowHanging] = useState(false);
     const [rightClickStartSquare, setRightClickStartSquare] = useState<Position | null>(null);
     const [contextMenu, setContextMenu] = useState<{ x: number, y: number, nodeId: string | null }>({ x: 0, y: 0, nodeId: null });
     const [overlayDismissed, setOverlayDismissed] = useState(false);
@@ -470,7 +503,8 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     const [engineDepth, setEngineDepth] = useState(99);
     const [numLines, setNumLines] = useState(1);
     const [engineResults, setEngineResults] = useState<any[]>([]);
-    const workerRef = useRef<Worker | null>(null);
+    const [engineStats, setEngineStats] = useState<{ depth: number, nps: number } | null>(null);
+    const workerRef = useRef<EngineWorker | null>(null);
     const requestIdRef = useRef<number | null>(null);
 
     const stopWorker = () => {
@@ -533,12 +567,13 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
         requestIdRef.current = requestId;
 
         if (!workerRef.current) {
-            workerRef.current = new Worker(new URL('../engine.worker.ts', import.meta.url), { type: 'module' });
+            workerRef.current = createEngineCoordinator(engineThreads);
             workerRef.current.onmessage = (ev) => {
                 const msg = ev.data || {};
                 if (msg.requestId !== requestIdRef.current) return;
 
                 if (msg.type === 'update' || msg.type === 'done') {
+                    setEngineStats(prev => ({ depth: msg.depth ?? prev?.depth ?? 0, nps: msg.nps ?? 0 }));
                     if (msg.results && msg.results.length > 0) {
                         setEngineResults(msg.results);
                         // Draw arrow for the very best move (first result)
@@ -560,9 +595,57 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
             };
         }
 
-        workerRef.current.postMessage({ type: 'start', board, turn, maxDepth: engineDepth, requestId, multiPv: numLines });
+        workerRef.current.postMessage({ type: 'start', board, turn, maxDepth: engineDepth, requestId, multiPv: numLines, rules, context: lineSearchContext(positionsToHere()) });
+    };
+
+    // The positions on the way to this node, for repetitions and the fifty-move rule.
+    const positionsToHere = (): GameState[] => {
+        const line: GameState[] = [getCurrentState()];
+        for (let node = nodes[nodes[currentNodeId]?.parentId || '']; node; node = node.parentId ? nodes[node.parentId] : undefined) {
+            line.unshift(node.gameState);
+        }
+        return line;
+    };
+
+    // The forced-win solver runs on a worker of its own, which stopping terminates.
+    const [solveMoves, setSolveMoves] = useState(3);
+    const [solvingMoves, setSolvingMoves] = useState<number | null>(null);
+    const [solveResult, setSolveResult] = useState<SolveResult | null>(null);
+    const solveWorkerRef = useRef<Worker | null>(null);
+
+    const stopSolver = () => {
+        solveWorkerRef.current?.terminate();
+        solveWorkerRef.current = null;
+        setSolvingMoves(null);
+    };
+
+    const handleFindForcedWin = () => {
+        if (solveWorkerRef.current) {
+            stopSolver();
+            return;
+        }
+        setSolveResult(null);
+        setSolvingMoves(1);
+        const worker = spawnEngineWorker();
+        solveWorkerRef.current = worker;
+        worker.onmessage = (ev) => {
+            const msg = ev.data || {};
+            if (msg.type === 'solving') setSolvingMoves(msg.moves);
+            if (msg.type === 'solved') {
+                setSolveResult(msg.result);
+                stopSolver();
+            }
+            if (msg.type === 'error') stopSolver();
+        };
+        worker.postMessage({ type: 'solve', board, turn, maxMoves: solveMoves, rules, context: lineSearchContext(positionsToHere()) });
     };
 
+    // A solution belongs to the position it was found in.
+    useEffect(() => {
+        stopSolver();
+        setSolveResult(null);
+    }, [currentNodeId]);
+
     useEffect(() => {
         return () => {
             if (workerRef.current) workerRef.current.terminate();
@@ -811,76 +894,18 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     const handleImportPGN = () => {
         if (!pgnInput) return;
 
-        // Basic PGN parser
-        let initialFen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-        const fenMatch = pgnInput.match(/\[FEN\s+"([^"]+)"\]/);
-        if (fenMatch) initialFen = fenMatch[1];
+        const [game] = parsePgn(pgnInput);
+        if (!game) {
+            alert("No game found in PGN");
+            return;
+        }
 
-        const startState = fenToBoard(initialFen) as GameState;
+        const startState = fenToBoard(game.tags.FEN || DEFAULT_FEN) as GameState;
         if (!startState) {
             alert("Invalid starting FEN in PGN");
             return;
         }
 
-        // Extract moves and variations using a tokenizer
-        const moveText = pgnInput
-            .replace(/\[.*?\]/g, '')        // Remove tags
-            .trim();
-
-        // Tokenizer: comments { ... }, start variation (, end variation ), or individual moves/symbols
-        const tokens = moveText.match(/\{[^}]*\}|\(|\)|[^\s()]+/g) || [];
-
-        const doesMoveMatchSAN = (from: Position, to: Position, piece: Piece, capturedPiece: Piece | null, promotion: PieceType | null, sanNotation: string) => {
-            const cleanSan = sanNotation.replace(/[+#!\?\^]/g, '');
-            // check castling
-            if (cleanSan === 'O-O' || cleanSan === '0-0') return piece.originalType === PieceType.King && to.col - from.col === 2;
-            if (cleanSan === 'O-O-O' || cleanSan === '0-0-0') return piece.originalType === PieceType.King && from.col - to.col === 2;
-
-            const match = cleanSan.match(/^([KQRBN])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=?([QRBN]))?$/);
-            if (!match) return false;
-
-            const sanPieceStr = match[1];
-            const sanFromFile = match[2];
-            const sanFromRank = match[3];
-            const sanCapture = match[4];
-            const sanToSquare = match[5];
-            const sanPromotionStr = match[6];
-
-            let expectedPieceType = PieceType.Pawn;
-            if (sanPieceStr === 'K') expectedPieceType = PieceType.King;
-            else if (sanPieceStr === 'Q') expectedPieceType = PieceType.Queen;
-            else if (sanPieceStr === 'R') expectedPieceType = PieceType.Rook;
-            else if (sanPieceStr === 'B') expectedPieceType = PieceType.Bishop;
-            else if (sanPieceStr === 'N') expectedPieceType = PieceType.Knight;
-
-            if (piece.originalType !== expectedPieceType) return false;
-
-            const targetFile = String.fromCharCode('a'.charCodeAt(0) + to.col);
-            const targetRank = (8 - to.row).toString();
-            if (sanToSquare !== `${targetFile}${targetRank}`) return false;
-
-            const fromFileStr = String.fromCharCode('a'.charCodeAt(0) + from.col);
-            const fromRankStr = (8 - from.row).toString();
-
-            if (sanFromFile && sanFromFile !== fromFileStr) return false;
-            if (sanFromRank && sanFromRank !== fromRankStr) return false;
-
-            if (sanCapture && !capturedPiece) return false;
-
-            if (sanPromotionStr) {
-                let eprom = null;
-                if (sanPromotionStr === 'Q') eprom = PieceType.Queen;
-                else if (sanPromotionStr === 'R') eprom = PieceType.Rook;
-                else if (sanPromotionStr === 'B') eprom = PieceType.Bishop;
-                else if (sanPromotionStr === 'N') eprom = PieceType.Knight;
-                if (promotion !== eprom) return false;
-            } else if (promotion) {
-                return false;
-            }
-
-            return true;
-        };
-
         // Start from root node with initial FEN
         const importRootId = 'root';
         const newNodes: Record<string, AnalysisTreeNode> = {
@@ -890,168 +915,42 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                 notation: null,
                 children: [],
                 parentId: null,
-                comment: ''
+                comment: game.comment || ''
             }
         };
 
-        let currentId = importRootId;
-        const stack: string[] = [];
-
-        for (const token of tokens) {
-            if (token === '(') {
-                stack.push(currentId);
-                const parentId = newNodes[currentId].parentId;
-                if (parentId) {
-                    currentId = parentId;
+        // Adds a line of moves below `parentId` and returns the node it ends on. A move's variations
+        // branch off the same parent, after the move itself so the main line stays the first child.
+        const addLine = (parentId: string, moves: PgnMove[]): string => {
+            let currentId = parentId;
+            for (const move of moves) {
+                const currentState = normalizeGameState(newNodes[currentId].gameState);
+                const found = parseSan(move.san, generateMoves(currentState.board, currentState.turn, currentState.enPassantTarget, false, gameRules(currentState)));
+                if (!found) {
+                    console.warn(`Could not find legal move for notation: ${move.san}`);
+                    break;
                 }
-                continue;
-            }
-            if (token === ')') {
-                if (stack.length > 0) {
-                    currentId = stack.pop()!;
-                }
-                continue;
-            }
-            if (token.startsWith('{') && token.endsWith('}')) {
-                const commentText = token.slice(1, -1).trim();
-                newNodes[currentId].comment = (newNodes[currentId].comment ? newNodes[currentId].comment + '\n' : '') + commentText;
-                continue;
-            }
-            // Ignore move numbers (e.g., "1.", "13...", "24") and results ("1-0", "0-1", "1/2-1/2", "*")
-            if (/^\d+\.*$/.test(token) || /^[0-1]-[0-1]$/.test(token) || token === '1/2-1/2' || token === '*') {
-                continue;
-            }
-            if (token.startsWith('$')) {
-                continue; // Ignore NAGs for now
-            }
-
-            const notation = token;
-            const currentState = newNodes[currentId].gameState;
-
-            const tempBoard = currentState.board;
-            const tempTurn = currentState.turn;
-            const tempEp = currentState.enPassantTarget;
-            const tempHalfmove = currentState.halfmoveClock;
-
-            let foundMove: Move | null = null;
-
-            // Find the move that matches this notation
-            for (let r = 0; r < 8; r++) {
-                for (let c = 0; c < 8; c++) {
-                    const piece = tempBoard[r][c];
-                    if (piece && piece.color === tempTurn) {
-                        const from = { row: r, col: c };
-                        const validMoves = getValidMoves(tempBoard, from, tempEp, true);
-
-                        for (const to of validMoves) {
-                            // Determine captured piece for notation
-                            let capturedPiece: Piece | null = tempBoard[to.row][to.col];
-                            if (!capturedPiece && piece.type === PieceType.Pawn && tempEp && to.row === tempEp.row && to.col === tempEp.col) {
-                                capturedPiece = tempBoard[from.row][to.col];
-                            }
-
-                            const isForcePowerFlag = notation.includes('^');
-
-                            const buildMoveData = (n: string, prom: PieceType | null) => {
-                                const wasPowerMove = isPowerMove(tempBoard, from, to, tempEp);
-                                const wasAmbiguousMove = isAmbiguousMove(tempBoard, from, to, tempEp);
-                                let powerAfterMove = piece.power;
-                                let powerConsumed = false;
-
-                                if (capturedPiece) {
-                                    powerAfterMove = capturedPiece.originalType;
-                                    if (prom && capturedPiece.originalType === PieceType.Pawn) {
-                                        powerAfterMove = null;
-                                    }
-                                } else if (isForcePowerFlag && wasAmbiguousMove) {
-                                    powerAfterMove = null;
-                                    powerConsumed = true;
-                                } else if (wasPowerMove) {
-                                    powerAfterMove = null;
-                                    powerConsumed = true;
-                                }
 
-                                if (prom && !capturedPiece) {
-                                    if (piece.originalType === PieceType.Pawn && !wasPowerMove) {
-                                        powerAfterMove = piece.power === PieceType.Pawn ? null : piece.power;
-                                    } else {
-                                        powerAfterMove = null;
-                                    }
-                                }
+                const nextState = normalizeGameState(advanceState(currentState, found.resolution));
+                const nextHistory = nextState.moveHistory || [];
+                const newNodeId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
 
-                                return {
-                                    from,
-                                    to,
-                                    notation: n,
-                                    piece: piece.type,
-                                    color: tempTurn,
-                                    captured: capturedPiece?.type,
-                                    promotion: prom,
-                                    isForcePower: isForcePowerFlag,
-                                    afterPower: powerAfterMove,
-                                    powerConsumed
-                                } as Move;
-                            };
-
-                            // Check standard move
-                            const n = getNotation(tempBoard, from, to, piece, capturedPiece, null, isForcePowerFlag);
-                            if (n === notation || doesMoveMatchSAN(from, to, piece, capturedPiece, null, notation)) {
-                                foundMove = buildMoveData(n, null);
-                                break;
-                            }
-                            // Check for possible promotion
-                            if (piece.type === PieceType.Pawn && (to.row === 0 || to.row === 7)) {
-                                for (const prom of [PieceType.Queen, PieceType.Rook, PieceType.Bishop, PieceType.Knight]) {
-                                    const nProm = getNotation(tempBoard, from, to, piece, capturedPiece, prom, isForcePowerFlag);
-                                    if (nProm === notation || doesMoveMatchSAN(from, to, piece, capturedPiece, prom, notation)) {
-                                        foundMove = buildMoveData(nProm, prom);
-                                        break;
-                                    }
-                                }
-                            }
-                            if (foundMove) break;
-                        }
-                    }
-                    if (foundMove) break;
-                }
-                if (foundMove) break;
-            }
-
-            if (!foundMove) {
-                console.warn(`Could not find legal move for notation: ${notation}`);
-                continue;
-            }
-
-            const nextBoard = applyMoveToBoard(tempBoard, foundMove);
-
-            // Calculate next EP target
-            let nextEp: Position | null = null;
-            if (foundMove.piece === PieceType.Pawn && Math.abs(foundMove.from.row - foundMove.to.row) === 2) {
-                nextEp = { row: (foundMove.from.row + foundMove.to.row) / 2, col: foundMove.from.col };
+                newNodes[newNodeId] = {
+                    id: newNodeId,
+                    gameState: nextState,
+                    notation: nextHistory[nextHistory.length - 1].notation,
+                    children: [],
+                    parentId: currentId,
+                    comment: [move.commentBefore, move.comment].filter(Boolean).join('\n')
+                };
+                newNodes[currentId].children.push(newNodeId);
+                for (const variation of move.variations) addLine(currentId, variation);
+                currentId = newNodeId;
             }
+            return currentId;
+        };
 
-            const nextTurn = tempTurn === Color.White ? Color.Black : Color.White;
-            const nextState = normalizeGameState({
-                board: nextBoard,
-                turn: nextTurn,
-                enPassantTarget: nextEp,
-                halfmoveClock: tempHalfmove + 1,
-                lastMove: foundMove
-            });
-
-            const newNodeId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
-
-            newNodes[newNodeId] = {
-                id: newNodeId,
-                gameState: nextState,
-                notation: foundMove.notation,
-                children: [],
-                parentId: currentId,
-                comment: ''
-            };
-            newNodes[currentId].children.push(newNodeId);
-            currentId = newNodeId;
-        }
+        const currentId = addLine(importRootId, game.moves);
 
         setNodes(newNodes);
         setCurrentNodeId(currentId);
@@ -1078,64 +977,46 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
         const rootNode = nodes['root'];
         if (!rootNode) return;
 
-        const initialFen = boardToKrachtschaakFen(rootNode.gameState);
-        const fenParts = initialFen.split(' ');
-        const initialTurnOffset = fenParts[1] && fenParts[1].toLowerCase() === 'b' ? 1 : 0;
-        const initialFullmove = parseInt(fenParts[5]) || 1;
-
-        let pgnHeader = "";
-        const defaultFen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-        // Check if starting FEN is non-standard
-        if (initialFen.split(' ').slice(0, 4).join(' ') !== defaultFen.split(' ').slice(0, 4).join(' ')) {
-            pgnHeader += `[SetUp "1"]\n[FEN "${initialFen}"]\n\n`;
-        }
-
-        const buildMove = (nodeId: string, ply: number, forceMoveNumber: boolean): string => {
-            const node = nodes[nodeId];
-            if (!node) return '';
-            let pgn = '';
-            if (node.notation) {
-                const actualPly = (initialFullmove - 1) * 2 + initialTurnOffset + ply;
-                const moveNum = Math.floor((actualPly - 1) / 2) + 1;
-                const isWhite = (actualPly % 2 !== 0);
-
-                if (isWhite) {
-                    pgn += `${moveNum}. ${node.notation} `;
-                } else {
-                    if (forceMoveNumber || ply === 1) pgn += `${moveNum}... ${node.notation} `;
-                    else pgn += `${node.notation} `;
-                }
+        // A line of the tree from `firstId` on; the first child of a node is its main line.
+        const lineFrom = (firstId: string): PgnMove[] => {
+            const moves: PgnMove[] = [];
+            let nodeId: string | undefined = firstId;
+            while (nodeId && nodes[nodeId]) {
+                const node: AnalysisTreeNode = nodes[nodeId];
+                const siblings = node.parentId ? nodes[node.parentId].children : [];
+                moves.push({
+                    san: node.notation || '',
+                    nags: [],
+                    ...(node.comment ? { comment: node.comment } : {}),
+                    variations: siblings[0] === nodeId ? siblings.slice(1).map(lineFrom) : [],
+                });
+                nodeId = node.children[0];
             }
-            if (node.comment) pgn += `{${node.comment}} `;
-            return pgn;
+            return moves;
         };
 
-        const traverseChildren = (parentId: string, ply: number, forceMoveNumber: boolean): string => {
-            const parent = nodes[parentId];
-            if (!parent || parent.children.length === 0) return '';
-
-            let pgn = '';
-            const mainChildId = parent.children[0];
-
-            pgn += buildMove(mainChildId, ply, forceMoveNumber);
-
-            for (let i = 1; i < parent.children.length; i++) {
-                const siblingId = parent.children[i];
-                const childPgn = traverseChildren(siblingId, ply + 1, false).trim();
-                const childBody = childPgn ? ` ${childPgn}` : '';
-                pgn += `(${buildMove(siblingId, ply, true).trim()}${childBody}) `;
-            }
-
-            const printedVariations = parent.children.length > 1;
-            pgn += traverseChildren(mainChildId, ply + 1, printedVariations || forceMoveNumber);
-
-            return pgn;
+        // A game opened from history keeps its players, ratings and result.
+        const fromGame = !!initialState?.playerColors?.white;
+        const tags = fromGame ? gameTags(initialState!) : {
+            Event: 'Krachtschaak analysis',
+            Site: 'Krachtschaak Online',
+            Variant: 'Krachtschaak',
         };
+        delete tags.SetUp;
+        delete tags.FEN;
+        const initialFen = boardToKrachtschaakFen(rootNode.gameState);
+        // Check if starting FEN is non-standard
+        if (initialFen.split(' ').slice(0, 4).join(' ') !== DEFAULT_FEN.split(' ').slice(0, 4).join(' ')) {
+            tags.SetUp = '1';
+            tags.FEN = initialFen;
+        }
 
-        const bodyPart = traverseChildren('root', 1, false).trim();
-        const rootComment = rootNode.comment ? `{${rootNode.comment}} ` : '';
-        const body = `${rootComment}${bodyPart} *`.trim();
-        const finalPgn = (pgnHeader + body).trim();
+        const finalPgn = writePgn({
+            tags,
+            ...(rootNode.comment ? { comment: rootNode.comment } : {}),
+            moves: rootNode.children.length > 0 ? lineFrom(rootNode.children[0]) : [],
+            result: fromGame ? pgnResult(initialState!) : '*',
+        }).trim();
 
         navigator.clipboard.writeText(finalPgn);
         setExportData({ type: 'PGN', value: finalPgn });
@@ -1363,79 +1244,17 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
     }, [handleKeyDown]);
 
 
-    const finalizeTurn = (
-        currentBoard: BoardState,
-        nextEnPassantTarget: Position | null,
-        resetClock: boolean,
-        newCaptured: typeof capturedPieces,
-        move: { from: Position; to: Position },
-        movingPiece: Piece,
-        capturedPiece: Piece | null = null,
-        promotion?: PieceType | null,
-    ) => {
-        const nextTurn = turn === Color.White ? Color.Black : Color.White;
-        const newHalfmoveClock = resetClock ? 0 : halfmoveClock + 1;
-        const key = generateBoardKey(currentBoard, nextTurn, nextEnPassantTarget);
-        const isIrreversible = !!capturedPiece || movingPiece.type === PieceType.Pawn;
-        const newCount = isIrreversible ? 1 : (positionHistory[key] || 0) + 1;
-        const newPositionHistory = isIrreversible ? { [key]: 1 } : { ...positionHistory, [key]: newCount };
-        let newStatus: GameStatus = 'playing';
-        let newWinner: string | null = null;
-
-        if (newHalfmoveClock >= 100) {
-            newStatus = 'draw_fiftyMove';
-        } else if (newCount >= 3) {
-            newStatus = 'draw_threefold';
-        } else if (isInsufficientMaterial(currentBoard)) {
-            newStatus = 'draw_insufficient';
-        } else {
-            const capturedKing = newCaptured.white.some(p => p.isKing || p.originalType === PieceType.King || p.type === PieceType.King || p.power === PieceType.King) ||
-                newCaptured.black.some(p => p.isKing || p.originalType === PieceType.King || p.type === PieceType.King || p.power === PieceType.King);
-            if (capturedKing) {
-                newStatus = 'kingCaptured';
-                newWinner = nextTurn === Color.White ? 'Black' : 'White'; // Fixed winner logic: turn is the one who just moved
-            } else {
-                const hasStandardLegalMoves = hasLegalMoves(currentBoard, nextTurn, nextEnPassantTarget);
-                const canPlayerCaptureKing = canCaptureKing(currentBoard, nextTurn);
-
-                if (!hasStandardLegalMoves && !canPlayerCaptureKing) {
-                    const isPlayerInCheck = isKingInCheck(currentBoard, nextTurn);
-                    if (isPlayerInCheck) {
-                        newStatus = 'checkmate';
-                        newWinner = nextTurn === Color.White ? 'Black' : 'White';
-                    } else {
-                        newStatus = 'stalemate';
-                    }
-                }
-            }
-        }
-
-        const notation = getNotation(board, move.from, move.to, movingPiece, capturedPiece, promotion || null, isForcePowerMode);
-        const newMoveHistory = [...moveHistory, { ...move, notation, piece: movingPiece.type, color: turn, captured: capturedPiece?.type, promotion: promotion || undefined }];
-
-        const newState: GameState = {
-            ...getCurrentState(),
-            board: currentBoard,
-            turn: nextTurn,
-            halfmoveClock: newHalfmoveClock,
-            positionHistory: newPositionHistory,
-            enPassantTarget: nextEnPassantTarget,
-            status: newStatus,
-            winner: newWinner,
-            capturedPieces: newCaptured,
-            moveHistory: newMoveHistory,
-            lastMove: move,
-            promotionData: null,
-            ambiguousEnPassantData: null
-        };
+    const finalizeTurn = (resolution: MoveResolution) => {
+        const newState = advanceState(getCurrentState(), resolution);
+        const newStatus = newState.status;
 
         // Play sounds
         if (newStatus === 'checkmate' || newStatus === 'kingCaptured') {
             playWinSound();
-        } else if (newStatus === 'stalemate' || newStatus === 'draw_threefold' || newStatus === 'draw_fiftyMove' || newStatus === 'draw_insufficient') {
+        } else if (newStatus === 'stalemate' || newStatus === 'draw_threefold' || newStatus === 'draw_fiftyMove' || newStatus === 'draw_fivefold' || newStatus === 'draw_seventyFiveMove' || newStatus === 'draw_insufficient') {
             playDrawSound();
         } else {
-            const isCapture = !!capturedPiece;
+            const isCapture = !!resolution.captured;
             if (isCapture) {
                 playCaptureSound();
             } else {
@@ -1443,187 +1262,71 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
             }
         }
 
-        commitNewState(newState, notation);
+        const history = newState.moveHistory || [];
+        commitNewState(newState, history[history.length - 1].notation);
     };
 
-    const applyEngineMove = (move: Move) => {
-        if (!canEditAnalysis) return;
-        const newBoard = board.map(row => [...row]);
-        const pieceToMove = { ...newBoard[move.from.row][move.from.col]! };
-        const capturedPieceOnTarget = newBoard[move.to.row][move.to.col];
-        let resetHalfmoveClock = pieceToMove.type === PieceType.Pawn;
-
-        const newCapturedPieces = {
-            white: [...capturedPieces.white],
-            black: [...capturedPieces.black],
-        };
-
-        const isEnPassantCapture = (pieceToMove.type === PieceType.Pawn || pieceToMove.power === PieceType.Pawn) && enPassantTarget && move.to.row === enPassantTarget.row && move.to.col === enPassantTarget.col && !capturedPieceOnTarget;
-
-        let actualCapturedPiece = capturedPieceOnTarget;
-        if (isEnPassantCapture) {
-            actualCapturedPiece = newBoard[move.from.row][move.to.col];
-            newBoard[move.from.row][move.to.col] = null;
-        }
-
-        let acquiredPower: PieceType | null = null;
-        if (actualCapturedPiece) {
-            resetHalfmoveClock = true;
-            newCapturedPieces[actualCapturedPiece.color].push(actualCapturedPiece);
-            if (!(actualCapturedPiece.isKing || actualCapturedPiece.originalType === PieceType.King)) {
-                acquiredPower = actualCapturedPiece.originalType;
-            }
-        }
-
-        let powerAfterMove = pieceToMove.power;
-        if (actualCapturedPiece && acquiredPower) {
-            powerAfterMove = acquiredPower;
-        } else if (move.isForcePower) {
-            powerAfterMove = null;
-        }
-        pieceToMove.power = powerAfterMove;
+    useEffect(() => {
+        loadOpeningBook().then(setOpeningBook);
+        loadTablebase().then(setTablebase);
+    }, []);
 
-        if (move.promotion) {
-            pieceToMove.type = move.promotion;
+    const currentBookMoves = useMemo(
+        () => openingBook && isStandardRules(rules) ? bookMoves(openingBook, board, turn, enPassantTarget, rules) : [],
+        [openingBook, board, turn, enPassantTarget, rules]
+    );
 
-            if (isEnPassantCapture && newBoard[move.from.row][move.to.col] === actualCapturedPiece) {
-                pieceToMove.power = null;
-            } else if (actualCapturedPiece) {
-                pieceToMove.power = actualCapturedPiece.originalType === PieceType.Pawn ? null : actualCapturedPiece.originalType;
-            } else {
-                if (pieceToMove.originalType === PieceType.Pawn && !move.isForcePower) {
-                    pieceToMove.power = pieceToMove.power === PieceType.Pawn ? null : pieceToMove.power;
-                } else {
-                    pieceToMove.power = null;
-                }
-            }
-        }
+    const tablebaseResult = useMemo(
+        () => tablebase ? tablebase.probe(board, turn, enPassantTarget, rules) : null,
+        [tablebase, board, turn, enPassantTarget, rules]
+    );
+    const currentTablebaseMoves = useMemo(
+        () => tablebase && tablebaseResult ? tablebaseMoves(tablebase, board, turn, enPassantTarget, rules) : [],
+        [tablebase, tablebaseResult, board, turn, enPassantTarget, rules]
+    );
 
-        pieceToMove.hasMoved = true;
-        newBoard[move.to.row][move.to.col] = pieceToMove;
-        newBoard[move.from.row][move.from.col] = null;
-
-        if (pieceToMove.type === PieceType.King && Math.abs(move.from.col - move.to.col) === 2) {
-            const isKingside = move.to.col > move.from.col;
-            const rookFromCol = isKingside ? 7 : 0;
-            const rookToCol = isKingside ? 5 : 3;
-            const rook = newBoard[move.from.row][rookFromCol];
-            if (rook) {
-                newBoard[move.from.row][rookToCol] = { ...rook, hasMoved: true };
-                newBoard[move.from.row][rookFromCol] = null;
-            }
-        }
+    // Pieces either side would lose to a capture on the spot, by static exchange (utils/see.ts).
+    const hanging = useMemo(
+        () => showHanging
+            ? [Color.White, Color.Black].flatMap(color => hangingPieces(board, color, rules).map(h => ({ ...h, color })))
+            : [],
+        [showHanging, board, rules]
+    );
 
-        let nextEnPassantTarget: Position | null = null;
-        if (pieceToMove.type === PieceType.Pawn && Math.abs(move.from.row - move.to.row) === 2) {
-            nextEnPassantTarget = { row: (move.from.row + move.to.row) / 2, col: move.from.col };
-        }
+    // A table result told from the winner's side, e.g. "White wins in 7".
+    const describeTablebaseResult = (result: TablebaseResult, mover: Color): string => {
+        if (result.result === 'draw') return 'Draw';
+        const winner = result.result === 'win' ? mover : opponentOf(mover);
+        return `${colorName(winner)} wins in ${Math.ceil(result.plies / 2)}`;
+    };
 
-        finalizeTurn(newBoard, nextEnPassantTarget, resetHalfmoveClock, newCapturedPieces, { from: move.from, to: move.to }, pieceToMove, actualCapturedPiece, move.promotion);
+    const applyEngineMove = (move: Move) => {
+        if (!canEditAnalysis) return;
+        finalizeTurn(resolveMove(board, enPassantTarget, intentFromRecord(move), rules));
     };
 
     const movePiece = (from: Position, to: Position) => {
-        const newBoard = board.map(row => [...row]);
-        const pieceToMove = { ...newBoard[from.row][from.col]! };
-        const capturedPieceOnTarget = newBoard[to.row][to.col];
-        let resetHalfmoveClock = pieceToMove.type === PieceType.Pawn;
-
-        const newCapturedPieces = {
-            white: [...capturedPieces.white],
-            black: [...capturedPieces.black],
-        };
-
-        const wasPowerMove = isPowerMove(board, from, to, enPassantTarget);
-        const isEnPassantCapture = (pieceToMove.type === PieceType.Pawn || pieceToMove.power === PieceType.Pawn) && enPassantTarget && to.row === enPassantTarget.row && to.col === enPassantTarget.col && !capturedPieceOnTarget;
+        const intent: MoveIntent = { from, to, ...(isForcePowerMode ? { forcePower: true } : {}) };
 
-        if (isEnPassantCapture && pieceToMove.power === PieceType.Pawn && [PieceType.Queen, PieceType.Bishop, PieceType.King].includes(pieceToMove.originalType) && !isForcePowerMode) {
+        if (isAmbiguousEnPassant(board, from, to, enPassantTarget) && !isForcePowerMode) {
             setAmbiguousEnPassantData({ from, to });
             setStatus('ambiguous_en_passant');
             return;
         }
 
-        let actualCapturedPiece = capturedPieceOnTarget;
-        if (isEnPassantCapture) {
-            actualCapturedPiece = newBoard[from.row][to.col];
-            newBoard[from.row][to.col] = null;
-        }
-
-        let acquiredPower: PieceType | null = null;
-        if (actualCapturedPiece) {
-            resetHalfmoveClock = true;
-            newCapturedPieces[actualCapturedPiece.color].push(actualCapturedPiece);
-            if (actualCapturedPiece.isKing || actualCapturedPiece.originalType === PieceType.King) {
-                // Potential king capture - finalized in finalizeTurn
-            } else {
-                acquiredPower = actualCapturedPiece.originalType;
-            }
-        }
-
-        const promotionRank = turn === Color.White ? 0 : 7;
-        const hasPawnAbility = pieceToMove.type === PieceType.Pawn || pieceToMove.power === PieceType.Pawn;
-        const isMovingToPromotionRank = to.row === promotionRank;
-        const isCapturingPawnOnPromotionRank = actualCapturedPiece &&
-            actualCapturedPiece.originalType === PieceType.Pawn &&
-            isMovingToPromotionRank;
-
-        // Update power AFTER saving Pawn ability for promotion check
-        let powerAfterMove = pieceToMove.power;
-        if (actualCapturedPiece && acquiredPower) {
-            powerAfterMove = acquiredPower;
-        } else if (wasPowerMove) {
-            powerAfterMove = null;
-        } else if (isForcePowerMode && isAmbiguousMove(board, from, to, enPassantTarget)) {
-            powerAfterMove = null;
-        }
-        pieceToMove.power = powerAfterMove;
-
-        if ((isMovingToPromotionRank && hasPawnAbility) || isCapturingPawnOnPromotionRank) {
-            // Determine power after promotion, mirroring App.tsx logic
-            let promotionPowerAfterMove: PieceType | null = null;
-            if (isCapturingPawnOnPromotionRank) {
-                promotionPowerAfterMove = null;
-            } else if (actualCapturedPiece) {
-                promotionPowerAfterMove = actualCapturedPiece.originalType === PieceType.Pawn ? null : actualCapturedPiece.originalType;
-            } else {
-                if (pieceToMove.originalType === PieceType.Pawn && !wasPowerMove) {
-                    promotionPowerAfterMove = pieceToMove.power === PieceType.Pawn ? null : pieceToMove.power;
-                } else {
-                    promotionPowerAfterMove = null;
-                }
+        if (isPromotionMove(board, from, to, enPassantTarget)) {
+            // The board stays as it is until a piece is chosen; the queen resolution tells us the power that remains.
+            const resolution = resolveMove(board, enPassantTarget, { ...intent, promotion: PieceType.Queen }, rules);
+            if (!resolution.isKingCapture) {
+                setPromotionData({ from, position: to, promotingPiece: { ...board[from.row][from.col]! }, powerAfterPromotion: resolution.board[to.row][to.col]?.power || null, capturedPiece: resolution.captured });
+                setStatus('promotion');
+                return;
             }
-
-            pieceToMove.hasMoved = true;
-            newBoard[to.row][to.col] = pieceToMove;
-            newBoard[from.row][from.col] = null;
-            setBoard(newBoard);
-            setCapturedPieces(newCapturedPieces);
-            setPromotionData({ from, position: to, promotingPiece: pieceToMove, powerAfterPromotion: promotionPowerAfterMove, capturedPiece: actualCapturedPiece });
-            setStatus('promotion');
+            finalizeTurn(resolution);
             return;
         }
 
-        pieceToMove.hasMoved = true;
-        newBoard[to.row][to.col] = pieceToMove;
-        newBoard[from.row][from.col] = null;
-
-        // Castling
-        if (pieceToMove.type === PieceType.King && Math.abs(from.col - to.col) === 2) {
-            const isKingside = to.col > from.col;
-            const rookFromCol = isKingside ? 7 : 0;
-            const rookToCol = isKingside ? 5 : 3;
-            const rook = newBoard[from.row][rookFromCol];
-            if (rook) {
-                newBoard[from.row][rookToCol] = { ...rook, hasMoved: true };
-                newBoard[from.row][rookFromCol] = null;
-            }
-        }
-
-        let nextEnPassantTarget: Position | null = null;
-        if (pieceToMove.type === PieceType.Pawn && Math.abs(from.row - to.row) === 2) {
-            nextEnPassantTarget = { row: (from.row + to.row) / 2, col: from.col };
-        }
-
-        finalizeTurn(newBoard, nextEnPassantTarget, resetHalfmoveClock, newCapturedPieces, { from, to }, pieceToMove, actualCapturedPiece);
+        finalizeTurn(resolveMove(board, enPassantTarget, intent, rules));
     };
 
     const handleSquareClick = useCallback((row: number, col: number) => {
@@ -1661,43 +1364,14 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
 
     const handlePromotion = (type: PieceType) => {
         if (!promotionData || !canEditAnalysis) return;
-        const { from, position, promotingPiece, powerAfterPromotion, capturedPiece } = promotionData;
-        const newBoard = board.map(r => [...r]);
-        const promotedPiece: Piece = {
-            ...promotingPiece,
-            type: type,
-            originalType: promotingPiece.originalType,
-            isKing: type === PieceType.King || promotingPiece.isKing || promotingPiece.originalType === PieceType.King,
-            hasMoved: true,
-            power: powerAfterPromotion
-        };
-
-        newBoard[position.row][position.col] = promotedPiece;
-        newBoard[from.row][from.col] = null;
-        finalizeTurn(newBoard, null, true, capturedPieces, { from, to: position }, promotingPiece, capturedPiece, type);
+        const { from, position } = promotionData;
+        finalizeTurn(resolveMove(board, enPassantTarget, { from, to: position, promotion: type }, rules));
     };
 
     const resolveAmbiguousEnPassant = (choice: 'move' | 'capture') => {
         if (!ambiguousEnPassantData || !canEditAnalysis) return;
         const { from, to } = ambiguousEnPassantData;
-        const newBoard = board.map(r => [...r]);
-        const pieceToMove = { ...newBoard[from.row][from.col]! };
-        const newCaptured = { ...capturedPieces };
-
-        if (choice === 'capture') {
-            const captured = newBoard[from.row][to.col]!;
-            newCaptured[captured.color].push(captured);
-            pieceToMove.power = captured.originalType;
-            newBoard[from.row][to.col] = null;
-        } else {
-            pieceToMove.power = PieceType.Pawn;
-        }
-
-        pieceToMove.hasMoved = true;
-        newBoard[to.row][to.col] = pieceToMove;
-        newBoard[from.row][from.col] = null;
-
-        finalizeTurn(newBoard, null, true, newCaptured, { from, to }, pieceToMove, choice === 'capture' ? board[from.row][to.col] : null);
+        finalizeTurn(resolveMove(board, enPassantTarget, { from, to, enPassantChoice: choice }, rules));
     };
 
     return (
@@ -1717,49 +1391,59 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                         currentGameState={getCurrentState()}
                     />
                 )}
-                <Board
-                    board={board}
-                    selectedPiece={selectedPiece}
-                    validMoves={validMoves}
-                    onSquareClick={handleSquareClick}
-                    turn={turn}
-                    playerColor={boardOrientation}
-                    gameMode="online_playing"
-                    isInteractionDisabled={status === 'promotion' || status === 'ambiguous_en_passant'}
-                    onPieceDragStart={(e, r, c) => {
-                        handleSquareClick(r, c);
-                        setDraggedPiece({ row: r, col: c });
-                    }}
-                    onPieceDragEnd={() => setDraggedPiece(null)}
-                    onSquareDrop={(e, r, c) => handleSquareClick(r, c)}
-                    draggedPiece={draggedPiece}
-                    premove={null}
-                    lastMove={lastMove}
-                    highlightedSquares={highlightedSquares}
-                    arrows={[...arrows, ...(showEngineArrow ? engineArrows : [])]}
-                    onBoardMouseDown={(e, r, c) => {
-                        if (e.button === 0) {
-                            setHighlightedSquares([]);
-                            setArrows([]);
-                        }
-                        if (e.button === 2) {
-                            e.preventDefault();
-                            setRightClickStartSquare({ row: r, col: c });
-                        }
-                    }}
-                    onBoardMouseUp={(e, r, c) => {
-                        if (e.button === 2 && rightClickStartSquare) {
-                            const end = { row: r, col: c };
-                            if (rightClickStartSquare.row === end.row && rightClickStartSquare.col === end.col) {
-                                setHighlightedSquares(prev => prev.some(s => s.row === end.row && s.col === end.col) ? prev.filter(s => s.row !== end.row || s.col !== end.col) : [...prev, end]);
-                            } else {
-                                setArrows(prev => prev.some(a => a.from.row === rightClickStartSquare.row && a.from.col === rightClickStartSquare.col && a.to.row === end.row && a.to.col === end.col) ? prev.filter(a => a.from.row !== rightClickStartSquare.row || a.from.col !== rightClickStartSquare.col || a.to.row !== end.row || a.to.col !== end.col) : [...prev, { from: rightClickStartSquare, to: end }]);
-                            }
-                        }
-                        setRightClickStartSquare(null);
-                    }}
-                    onBoardContextMenu={(e) => e.preventDefault()}
-                />
+                <div className="flex gap-2">
+                    <EvalBar
+                        wdl={engineResults[0]?.wdl ? (turn === Color.White ? engineResults[0].wdl : flipWdl(engineResults[0].wdl)) : null}
+                        label={engineResults[0] ? formatWhiteScore(engineResults[0].score, turn) : null}
+                        flipped={boardOrientation === Color.Black}
+                    />
+                    <div className="flex-1 min-w-0">
+                        <Board
+                            board={board}
+                            selectedPiece={selectedPiece}
+                            validMoves={validMoves}
+                            onSquareClick={handleSquareClick}
+                            turn={turn}
+                            playerColor={boardOrientation}
+                            gameMode="online_playing"
+                            isInteractionDisabled={status === 'promotion' || status === 'ambiguous_en_passant'}
+                            onPieceDragStart={(e, r, c) => {
+                                handleSquareClick(r, c);
+                                setDraggedPiece({ row: r, col: c });
+                            }}
+                            onPieceDragEnd={() => setDraggedPiece(null)}
+                            onSquareDrop={(e, r, c) => handleSquareClick(r, c)}
+                            draggedPiece={draggedPiece}
+                            premove={null}
+                            lastMove={lastMove}
+                            highlightedSquares={highlightedSquares}
+                            warningSquares={hanging.map(h => h.square)}
+                            arrows={[...arrows, ...(showEngineArrow ? engineArrows : [])]}
+                            onBoardMouseDown={(e, r, c) => {
+                                if (e.button === 0) {
+                                    setHighlightedSquares([]);
+                                    setArrows([]);
+                                }
+                                if (e.button === 2) {
+                                    e.preventDefault();
+                                    setRightClickStartSquare({ row: r, col: c });
+                                }
+                            }}
+                            onBoardMouseUp={(e, r, c) => {
+                                if (e.button === 2 && rightClickStartSquare) {
+                                    const end = { row: r, col: c };
+                                    if (rightClickStartSquare.row === end.row && rightClickStartSquare.col === end.col) {
+                                        setHighlightedSquares(prev => prev.some(s => s.row === end.row && s.col === end.col) ? prev.filter(s => s.row !== end.row || s.col !== end.col) : [...prev, end]);
+                                    } else {
+                                        setArrows(prev => prev.some(a => a.from.row === rightClickStartSquare.row && a.from.col === rightClickStartSquare.col && a.to.row === end.row && a.to.col === end.col) ? prev.filter(a => a.from.row !== rightClickStartSquare.row || a.from.col !== rightClickStartSquare.col || a.to.row !== end.row || a.to.col !== end.col) : [...prev, { from: rightClickStartSquare, to: end }]);
+                                    }
+                                }
+                                setRightClickStartSquare(null);
+                            }}
+                            onBoardContextMenu={(e) => e.preventDefault()}
+                        />
+                    </div>
+                </div>
                 {/* Per-node comment box (small, below the board) */}
                 <div className="mt-2">
                     {nodes[currentNodeId] && (
@@ -2020,10 +1704,77 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                         </button>
                     </div>
 
+                    {currentBookMoves.length > 0 && (
+                        <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
+                            <span className="text-xs font-bold text-gray-400">OPENING BOOK</span>
+                            <div className="flex flex-wrap gap-1">
+                                {currentBookMoves.map(m => (
+                                    <button
+                                        key={m.move.resolution.record.notation}
+                                        onClick={() => applyEngineMove(m.move.resolution.record)}
+                                        className="px-2 py-1 bg-gray-900 hover:bg-gray-800 rounded text-xs font-bold text-amber-300"
+                                        title={`Played in the book with weight ${m.weight}`}
+                                    >
+                                        {m.move.resolution.record.notation} <span className="text-gray-500 font-mono">{Math.round(m.share * 100)}%</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {tablebaseResult && (
+                        <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-bold text-gray-400">TABLEBASE</span>
+                                <span className={`text-sm font-bold ${tablebaseResult.result === 'draw' ? 'text-gray-300' : 'text-green-400'}`}>
+                                    {describeTablebaseResult(tablebaseResult, turn)}
+                                </span>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {currentTablebaseMoves.map(m => (
+                                    <button
+                                        key={`${m.move.resolution.record.notation}-${m.move.intent.forcePower ? 'p' : ''}`}
+                                        onClick={() => applyEngineMove(m.move.resolution.record)}
+                                        className={`px-2 py-1 bg-gray-900 hover:bg-gray-800 rounded text-xs font-bold ${m.result.result === 'win' ? 'text-green-400' : m.result.result === 'loss' ? 'text-red-400' : 'text-gray-300'}`}
+                                        title={describeTablebaseResult(m.result, turn)}
+                                    >
+                                        {m.move.resolution.record.notation} <span className="text-gray-500 font-mono">{m.result.result === 'draw' ? '=' : `${m.result.result === 'win' ? '+' : '-'}${Math.ceil(m.result.plies / 2)}`}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {hanging.length > 0 && (
+                        <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
+                            <span className="text-xs font-bold text-gray-400">HANGING PIECES</span>
+                            <div className="flex flex-wrap gap-1">
+                                {hanging.map(h => (
+                                    <span
+                                        key={`${h.square.row}-${h.square.col}`}
+                                        className={`px-2 py-1 bg-gray-900 rounded text-xs font-bold ${h.color === Color.White ? 'text-white' : 'text-gray-400'}`}
+                                        title={`${colorName(h.color)} loses about ${(h.loss / 100).toFixed(1)} to a capture here`}
+                                    >
+                                        {posToNotation(h.square.row, h.square.col)} <span className="text-red-400 font-mono">-{(h.loss / 100).toFixed(1)}</span>
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
                         <div className="flex items-center justify-between">
                             <span className="text-xs font-bold text-gray-400">ANALYSIS LINES</span>
                             <div className="flex items-center gap-3">
+                                <label className="flex items-center gap-1 cursor-pointer" title="Mark pieces that a capture would win">
+                                    <input
+                                        type="checkbox"
+                                        checked={showHanging}
+                                        onChange={() => setShowHanging(!showHanging)}
+                                        className="w-3 h-3 cursor-pointer accent-red-500"
+                                    />
+                                    <span className="text-[10px] text-gray-400 font-bold uppercase">Hanging</span>
+                                </label>
                                 <label className="flex items-center gap-1 cursor-pointer" title="Toggle engine best move arrow">
                                     <input
                                         type="checkbox"
@@ -2055,16 +1806,17 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                         >
                             {engineThinking ? 'STOP ENGINE' : 'RUN ENGINE ANALYSIS'}
                         </button>
+                        {engineStats && engineResults.length > 0 && (
+                            <div className="text-[10px] text-gray-400 font-mono text-right">
+                                depth {engineStats.depth} · {Math.round(engineStats.nps / 1000)} kN/s · {engineThreads} thread{engineThreads > 1 ? 's' : ''}
+                            </div>
+                        )}
 
                         {engineResults.length > 0 && (
                             <div className="flex flex-col gap-2 max-h-[300px] overflow-y-auto custom-scrollbar pr-1 mt-1">
                                 {engineResults.map((result, idx) => {
-                                    const score = result.score;
-                                    const isMate = Math.abs(score) > 19000;
-                                    const forceWhiteScore = turn === Color.White ? score : -score;
-                                    const formattedScore = isMate
-                                        ? `${forceWhiteScore > 0 ? '+' : '-'}M${Math.max(1, Math.ceil((20000 - Math.abs(forceWhiteScore)) / 2))}`
-                                        : (forceWhiteScore / 100).toFixed(2);
+                                    const forceWhiteScore = turn === Color.White ? result.score : -result.score;
+                                    const whiteWdl = result.wdl ? (turn === Color.White ? result.wdl : flipWdl(result.wdl)) : null;
 
                                     return (
                                         <div key={idx} className="p-3 bg-gray-900 rounded-lg border border-gray-700 hover:border-blue-500/50 transition-all shadow-inner group mb-2 last:mb-0 cursor-pointer" onClick={() => { if (result.move) applyEngineMove(result.move); }}>
@@ -2082,8 +1834,13 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                                                 ))}
                                                 {result.pv.length > 8 && <span className="text-[10px] text-gray-600 italic">...</span>}
                                                 <div className="flex-grow"></div>
-                                                <span className={`text-xs font-mono font-bold px-1.5 py-0.5 rounded ml-auto ${forceWhiteScore >= 0 ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
-                                                    {forceWhiteScore > 0 && !isMate ? '+' : ''}{formattedScore}
+                                                {whiteWdl && (
+                                                    <span className="text-[10px] font-mono text-gray-500 ml-auto" title={`White wins · draw · Black wins${WDL_MODEL_NOTE ? `\n${WDL_MODEL_NOTE}` : ''}`}>
+                                                        {Math.round(whiteWdl.win * 100)}/{Math.round(whiteWdl.draw * 100)}/{Math.round(whiteWdl.loss * 100)}
+                                                    </span>
+                                                )}
+                                                <span className={`text-xs font-mono font-bold px-1.5 py-0.5 rounded ${whiteWdl ? '' : 'ml-auto'} ${forceWhiteScore >= 0 ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
+                                                    {formatWhiteScore(result.score, turn)}
                                                 </span>
                                             </div>
                                         </div>
@@ -2097,6 +1854,55 @@ const Analysis: React.FC<AnalysisProps> = ({ initialState, onBack, analysisId, a
                         )}
                     </div>
 
+                    <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-gray-400">FORCED WIN</span>
+                            <div className="flex items-center gap-1" title="Most moves to look for a forced mate or king capture in">
+                                <span className="text-[10px] text-gray-400 font-bold uppercase mr-1">Within</span>
+                                {[1, 2, 3, 4, 5].map(n => (
+                                    <button
+                                        key={n}
+                                        onClick={() => {
+                                            setSolveMoves(n);
+                                            stopSolver();
+                                        }}
+                                        className={`w-7 h-7 rounded flex items-center justify-center text-xs font-bold transition-all ${solveMoves === n ? 'bg-green-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-600'}`}
+                                    >
+                                        {n}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <button
+                            onClick={handleFindForcedWin}
+                            className={`w-full py-2 rounded-lg font-bold text-sm transition-all shadow-md ${solvingMoves !== null ? 'bg-red-600 animate-pulse' : 'bg-green-700 hover:bg-green-600'}`}
+                        >
+                            {solvingMoves !== null ? `STOP (TRYING ${solvingMoves} MOVE${solvingMoves > 1 ? 'S' : ''})` : 'FIND FORCED WIN'}
+                        </button>
+                        {solveResult && (
+                            <div className="flex flex-col gap-2">
+                                <div className="flex items-center justify-between text-sm font-bold">
+                                    <span className={solveResult.solution ? 'text-green-400' : 'text-gray-300'}>
+                                        {solveResult.solution
+                                            ? `${colorName(turn)} wins in ${solveResult.moves}`
+                                            : `No forced win in ${solveMoves} move${solveMoves > 1 ? 's' : ''} or fewer`}
+                                    </span>
+                                    {solveResult.solution && (
+                                        <span className={solveResult.solution.alternatives.length === 0 ? 'text-green-400 text-xs' : 'text-yellow-400 text-xs'}>
+                                            {solveResult.solution.alternatives.length === 0 ? 'unique first move' : `${solveResult.solution.alternatives.length + 1} first moves win as fast`}
+                                        </span>
+                                    )}
+                                </div>
+                                {solveResult.solution && (
+                                    <div className="max-h-[300px] overflow-y-auto custom-scrollbar pr-1">
+                                        <SolutionTree node={solveResult.solution} />
+                                    </div>
+                                )}
+                                <div className="text-[10px] text-gray-400 font-mono text-right">{solveResult.nodes} nodes</div>
+                            </div>
+                        )}
+                    </div>
+
                     {/* Share & Export Section */}
                     <div className="bg-gray-700 p-3 rounded-lg flex flex-col gap-2">
                         <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Share & Export</span>
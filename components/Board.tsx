@@ -20,6 +20,7 @@ interface BoardProps {
     // Highlighting and arrows
     lastMove: { from: Position, to: Position } | null;
     highlightedSquares: Position[];
+    warningSquares?: Position[]; // e.g. hanging pieces
     arrows: { from: Position, to: Position, color?: string }[];
     onBoardMouseDown: (e: React.MouseEvent, row: number, col: number) => void;
     onBoardMouseUp: (e: React.MouseEvent, row: number, col: number) => void;
@@ -34,7 +35,7 @@ interface BoardProps {
 const Board: React.FC<BoardProps> = ({
     board, selectedPiece, validMoves, onSquareClick, turn, playerColor, gameMode, isInteractionDisabled,
     onPieceDragStart, onPieceDragEnd, onSquareDrop, draggedPiece, premove,
-    lastMove, highlightedSquares, arrows, onBoardMouseDown, onBoardMouseUp, onBoardContextMenu,
+    lastMove, highlightedSquares, warningSquares = [], arrows, onBoardMouseDown, onBoardMouseUp, onBoardContextMenu,
     showPowerPieces = true, showPowerRings = true, showOriginalType = true,
     allowTouchDragging = true, onPieceTouchDropOutside
 }) => {
@@ -70,6 +71,7 @@ const Board: React.FC<BoardProps> = ({
         const isPremoveTarget = premove && premove.to.row === row && premove.to.col === col;
         const isLastMove = lastMove && ((lastMove.from.row === row && lastMove.from.col === col) || (lastMove.to.row === row && lastMove.to.col === col));
         const isHighlighted = highlightedSquares.some(p => p.row === row && p.col === col);
+        const isWarning = warningSquares.some(p => p.row === row && p.col === col);
 
         const overlays: React.ReactNode[] = [];
 
@@ -79,6 +81,9 @@ const Board: React.FC<BoardProps> = ({
         if (isHighlighted) {
             overlays.push(<div key="highlight" className="absolute inset-0 bg-green-600 opacity-50"></div>);
         }
+        if (isWarning) {
+            overlays.push(<div key="warning" className="absolute inset-0 border-4 border-red-500 opacity-80"></div>);
+        }
         if (isPremoveSource || isPremoveTarget) {
             overlays.push(<div key="premove" className="absolute inset-0 bg-purple-500 opacity-50"></div>);
         } else if (isSelected) {
@@ -1,8 +1,10 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { BoardState, Color, PieceType, Piece, Position, Square } from '../types';
-import { boardToFen, boardToKrachtschaakFen, fenToBoard } from '../utils/game';
+import { boardToFen, boardToKrachtschaakFen } from '../utils/game';
+import { validateKFen } from '../utils/kfen';
 import Board from './Board';
+import KFenIssues from './KFenIssues';
 import PieceComponent from './Piece';
 
 interface BoardEditorProps {
@@ -23,6 +25,7 @@ const BoardEditor: React.FC<BoardEditorProps> = ({ initialBoard, initialTurn, on
     const [selectedOriginalType, setSelectedOriginalType] = useState<PieceType | null>(null);
     const [touchPaletteDragging, setTouchPaletteDragging] = useState<{ source: 'palette' | 'power' | 'originalType', data: any, x: number, y: number } | null>(null);
     const [fenEditorInput, setFenEditorInput] = useState('');
+    const fenReport = useMemo(() => fenEditorInput.trim() ? validateKFen(fenEditorInput) : null, [fenEditorInput]);
     const [desktopDragging, setDesktopDragging] = useState(false);
 
     const clearBoard = () => {
@@ -432,13 +435,16 @@ const BoardEditor: React.FC<BoardEditorProps> = ({ initialBoard, initialTurn, on
                             { color: Color.Black, side: 'K', label: 'Black O-O' },
                             { color: Color.Black, side: 'Q', label: 'Black O-O-O' }
                         ].map((c, i) => {
+                            // The king may stand on any file (Krachtschaak960); the right belongs to the outermost rook on that side.
                             const row = c.color === Color.White ? 7 : 0;
-                            const col = c.side === 'K' ? 7 : 0;
-                            const rook = board[row][col];
-                            const king = board[row][4];
+                            const kingCol = board[row].findIndex(p => p?.type === PieceType.King && p.color === c.color);
+                            const rookCols = [0, 1, 2, 3, 4, 5, 6, 7].filter(col => kingCol !== -1 && (c.side === 'K' ? col > kingCol : col < kingCol) &&
+                                board[row][col]?.type === PieceType.Rook && board[row][col]?.color === c.color);
+                            const col = c.side === 'K' ? rookCols[rookCols.length - 1] : rookCols[0];
+                            const rook = col !== undefined ? board[row][col] : null;
+                            const king = kingCol !== -1 ? board[row][kingCol] : null;
 
-                            const isPossible = king && king.type === PieceType.King && king.color === c.color &&
-                                rook && rook.type === PieceType.Rook && rook.color === c.color;
+                            const isPossible = king && rook;
 
                             // Castling logic expects !hasMoved.
                             const isAllowed = isPossible && !king.hasMoved && !rook.hasMoved;
@@ -453,7 +459,7 @@ const BoardEditor: React.FC<BoardEditorProps> = ({ initialBoard, initialTurn, on
                                             if (isAllowed) {
                                                 newBoard[row][col]!.hasMoved = true;
                                             } else {
-                                                newBoard[row][4]!.hasMoved = false;
+                                                newBoard[row][kingCol]!.hasMoved = false;
                                                 newBoard[row][col]!.hasMoved = false;
                                             }
                                             setBoard(newBoard);
@@ -497,21 +503,18 @@ const BoardEditor: React.FC<BoardEditorProps> = ({ initialBoard, initialTurn, on
                         />
                         <button
                             onClick={() => {
-                                const result = fenToBoard(fenEditorInput);
-                                if (result && result.board) {
-                                    setBoard(result.board);
-                                    if (result.turn) setTurn(result.turn);
-                                    setFenEditorInput('');
-                                } else {
-                                    alert('Invalid FEN string');
-                                }
+                                if (!fenReport?.position) return;
+                                setBoard(fenReport.position.board);
+                                setTurn(fenReport.position.turn);
+                                setFenEditorInput('');
                             }}
-                            disabled={!fenEditorInput.trim()}
+                            disabled={!fenReport?.position}
                             className="px-3 py-1.5 bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded font-semibold text-sm transition-colors"
                         >
                             Load
                         </button>
                     </div>
+                    <KFenIssues report={fenReport} />
                     <div className="flex gap-2 w-full mt-2">
                         <button
                             onClick={() => {
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Color, EngineOpponent, GameState, RuleSet, TimerSettings } from '../types';
+import { ENGINE_LEVELS, engineLevelLabel } from '../utils/engineLevels';
+import { loadLocalGames } from '../utils/localHistory';
+import { pgnResult } from '../utils/pgn';
+import { STANDARD_RULES } from '../utils/rules';
+import RuleSetOptions from './RuleSetOptions';
+
+interface EngineGameSetupProps {
+    onStart: (opponent: EngineOpponent, settings: TimerSettings, rules: RuleSet) => void;
+    onReview: (game: GameState) => void;
+    onClose: () => void;
+}
+
+type ColorChoice = Color | 'random';
+
+// Setup for a game against the computer, with the games already played on this device below it.
+const EngineGameSetup: React.FC<EngineGameSetupProps> = ({ onStart, onReview, onClose }) => {
+    const [level, setLevel] = useState(() => parseInt(localStorage.getItem('engineLevel') || '2') || 0);
+    const [colorChoice, setColorChoice] = useState<ColorChoice>('random');
+    const [rules, setRules] = useState<RuleSet>(STANDARD_RULES);
+    const [base, setBase] = useState('10');
+    const [inc, setInc] = useState('5');
+    const pastGames = useMemo(() => loadLocalGames(), []);
+
+    const start = (settings: TimerSettings) => {
+        localStorage.setItem('engineLevel', level.toString());
+        const humanColor = colorChoice === 'random' ? (Math.random() < 0.5 ? Color.White : Color.Black) : colorChoice;
+        onStart({ level, color: humanColor === Color.White ? Color.Black : Color.White }, settings, rules);
+    };
+
+    const colorButton = (choice: ColorChoice, label: string) => (
+        <button
+            onClick={() => setColorChoice(choice)}
+            className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${colorChoice === choice ? 'bg-green-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 p-8 rounded-xl shadow-2xl w-full max-w-sm relative max-h-[90vh] overflow-y-auto">
+                <button onClick={onClose} className="absolute top-2 right-3 text-2xl text-gray-400 hover:text-white">&times;</button>
+                <h2 className="text-3xl font-bold mb-6 text-center text-white">Play the Computer</h2>
+                <div className="space-y-3">
+                    <div>
+                        <label className="block mb-1 text-xs text-gray-400">Strength</label>
+                        <select value={level} onChange={e => setLevel(parseInt(e.target.value))} className="w-full p-2 bg-gray-700 rounded text-white">
+                            {ENGINE_LEVELS.map((_, i) => <option key={i} value={i}>{engineLevelLabel(i)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block mb-1 text-xs text-gray-400">You play</label>
+                        <div className="flex gap-2">
+                            {colorButton(Color.White, 'White')}
+                            {colorButton('random', 'Random')}
+                            {colorButton(Color.Black, 'Black')}
+                        </div>
+                    </div>
+                    <RuleSetOptions rules={rules} onChange={setRules} />
+                    <button onClick={() => start(null)} className="w-full py-3 bg-green-600 hover:bg-green-700 rounded-lg text-lg font-semibold transition-colors">Unlimited Time</button>
+                    <div className="border-t border-gray-700 my-4"></div>
+                    <div className="flex gap-2 items-end mb-2">
+                        <div>
+                            <label className="block mb-1 text-xs text-gray-400">Base (min)</label>
+                            <input type="number" value={base} onChange={e => setBase(e.target.value)} className="w-full p-2 bg-gray-700 rounded text-center" min="1" />
+                        </div>
+                        <div>
+                            <label className="block mb-1 text-xs text-gray-400">Inc (sec)</label>
+                            <input type="number" value={inc} onChange={e => setInc(e.target.value)} className="w-full p-2 bg-gray-700 rounded text-center" min="0" />
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => start({ initialTime: (parseFloat(base) || 10) * 60, increment: parseInt(inc) || 0 })}
+                        className="w-full py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg font-semibold transition-colors"
+                    >
+                        Start Timed Game
+                    </button>
+                </div>
+
+                {pastGames.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-sm font-bold text-gray-400 uppercase mb-2">Previous games</h3>
+                        <ul className="space-y-1">
+                            {pastGames.map((game, i) => (
+                                <li key={i} className="flex items-center justify-between bg-gray-700/50 px-2 py-1.5 rounded text-sm">
+                                    <span className="text-gray-300 truncate">
+                                        {game.completedAt ? new Date(game.completedAt).toLocaleDateString() : ''} · {pgnResult(game)} · {game.engineOpponent ? `Level ${game.engineOpponent.level + 1}` : ''}
+                                    </span>
+                                    <button onClick={() => onReview(game)} className="ml-2 px-2 py-0.5 bg-blue-600 hover:bg-blue-700 rounded text-xs font-semibold">Review</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EngineGameSetup;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Wdl, WDL_MODEL_NOTE } from '../utils/wdl';
+
+interface EvalBarProps {
+    wdl: Wdl | null;        // White's chances; null while there is no evaluation
+    label?: string | null;  // e.g. the score, shown at the end of the side it favours
+    flipped?: boolean;      // Black at the bottom, as on a flipped board
+}
+
+const percent = (x: number): string => `${(x * 100).toFixed(1)}%`;
+
+// A vertical bar beside the board: White's winning chance from White's end, Black's from the other, and
+// the chance of a draw in grey between them.
+const EvalBar: React.FC<EvalBarProps> = ({ wdl, label, flipped = false }) => {
+    const shown = wdl || { win: 0.5, draw: 0, loss: 0.5 };
+    const favoursWhite = shown.win >= shown.loss;
+    const title = wdl
+        ? `White wins ${percent(wdl.win)} · draw ${percent(wdl.draw)} · Black wins ${percent(wdl.loss)}${WDL_MODEL_NOTE ? `\n${WDL_MODEL_NOTE}` : ''}`
+        : 'No evaluation yet';
+    return (
+        <div
+            className={`relative w-4 md:w-6 self-stretch flex-shrink-0 rounded overflow-hidden flex ${flipped ? 'flex-col' : 'flex-col-reverse'} ${wdl ? '' : 'opacity-40'}`}
+            title={title}
+        >
+            <div className="bg-gray-100 transition-all duration-500" style={{ height: percent(shown.win) }} />
+            <div className="bg-gray-500 transition-all duration-500" style={{ height: percent(shown.draw) }} />
+            <div className="bg-gray-900 transition-all duration-500" style={{ height: percent(shown.loss) }} />
+            <div className="absolute left-0 right-0 top-1/2 h-px bg-red-500/70" />
+            {label && (
+                <span className={`absolute left-0 right-0 text-center text-[8px] md:text-[9px] font-bold font-mono ${favoursWhite ? 'text-gray-900' : 'text-gray-100'} ${favoursWhite !== flipped ? 'bottom-1' : 'top-1'}`}>
+                    {label}
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default EvalBar;
@@ -83,6 +83,12 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
             case 'draw_fiftyMove':
                 message = `Draw by 50-move rule.`;
                 break;
+            case 'draw_fivefold':
+                message = `Draw by fivefold repetition.`;
+                break;
+            case 'draw_seventyFiveMove':
+                message = `Draw by 75-move rule.`;
+                break;
             case 'draw_insufficient':
                 message = `Draw by insufficient material.`;
                 break;
@@ -90,14 +96,14 @@ const GameOverlay: React.FC<GameOverlayProps> = ({
                 message = `Draw by agreement.`;
                 break;
             case 'timeout':
-                message = `${winner} wins on time!`;
+                message = winner ? `${winner} wins on time!` : `Draw: out of time, but the opponent cannot win.`;
                 break;
             case 'opponent_disconnected':
                 message = `${winner} wins, opponent disconnected.`;
                 break;
         }
 
-        const buttonText = gameMode === 'local' ? 'Play Again' : gameMode === 'analysis' ? 'Back to start' : 'Back to Menu';
+        const buttonText = gameMode === 'local' || gameMode === 'vs_engine' ? 'Play Again' : gameMode === 'analysis' ? 'Back to start' : 'Back to Menu';
         const whiteUid = playerColors?.white;
         const blackUid = playerColors?.black;
         const whitePlayer = whiteUid ? players[whiteUid] : null;
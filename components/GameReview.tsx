@@ -2,14 +2,20 @@
 import React, { useState, useEffect } from 'react';
 import { GameState, Color, BoardState, Piece, Move, Position } from '../types';
 import Board from './Board';
+import EvalBar from './EvalBar';
 import PieceComponent from './Piece';
 import { createInitialBoard, applyMoveToBoard, fenToBoard } from '../utils/game';
-import KrachtschaakAI from '../engine';
+import KrachtschaakAI, { gameSearchContext } from '../engine';
+import { gameToPgn, writePgn } from '../utils/pgn';
+import { createEngineCoordinator, EngineWorker } from '../utils/engineCoordinator';
+import { flipWdl, formatWhiteScore, Wdl } from '../utils/wdl';
 
 interface GameReviewProps {
     game: GameState;
     onBack: () => void;
     onAnalyze: (state: GameState) => void;
+    /** Engine workers to search with. */
+    engineThreads?: number;
 }
 
 const formatTimerSettingText = (settings: GameState['timerSettings']) => {
@@ -18,7 +24,7 @@ const formatTimerSettingText = (settings: GameState['timerSettings']) => {
     return `${settings.initialTime / 60} min | ${settings.increment} sec`;
 };
 
-const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
+const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze, engineThreads = 1 }) => {
     // We reconstruct the board state history locally for review
     const [currentMoveIndex, setCurrentMoveIndex] = useState(-1); // -1 means initial board
     const [boards, setBoards] = useState<BoardState[]>([]);
@@ -27,8 +33,10 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
     // engineDepth removed: engine will search until user interaction
     const [engineSuggestion, setEngineSuggestion] = useState<string | null>(null);
     const [engineThinking, setEngineThinking] = useState(false);
+    // The engine's chances for the shown position, White's, and its score, for the bar beside the board.
+    const [engineEval, setEngineEval] = useState<{ wdl: Wdl, label: string } | null>(null);
 
-    const workerRef = React.useRef<Worker | null>(null);
+    const workerRef = React.useRef<EngineWorker | null>(null);
     const requestIdRef = React.useRef<number | null>(null);
 
     const terminateWorker = () => {
@@ -113,8 +121,11 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
             case 'stalemate': return `Stalemate! It's a draw.`;
             case 'draw_threefold': return `Draw by threefold repetition.`;
             case 'draw_fiftyMove': return `Draw by 50-move rule.`;
+            case 'draw_fivefold': return `Draw by fivefold repetition.`;
+            case 'draw_seventyFiveMove': return `Draw by 75-move rule.`;
+            case 'draw_insufficient': return `Draw by insufficient material.`;
             case 'draw_agreement': return `Draw by agreement.`;
-            case 'timeout': return `${winner} wins on time!`;
+            case 'timeout': return winner ? `${winner} wins on time!` : `Draw: out of time, but the opponent cannot win.`;
             case 'opponent_disconnected': return `${winner} wins, opponent disconnected.`;
             default: return "Game Over";
         }
@@ -150,6 +161,7 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
 
     const changeIndex = (newIndex: number) => {
         stopWorker();
+        setEngineEval(null);
         setCurrentMoveIndex(newIndex);
     };
 
@@ -175,20 +187,24 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
 
         // Create a worker if none exists (keep alive between runs so cache stays)
         if (!workerRef.current) {
-            const worker = new Worker(new URL('../engine.worker.ts', import.meta.url), { type: 'module' });
+            const worker = createEngineCoordinator(engineThreads);
             workerRef.current = worker;
 
             worker.onmessage = (ev: MessageEvent) => {
                 const msg = ev.data || {};
                 if (msg.requestId !== requestIdRef.current) return; // ignore old jobs
 
+                const best = msg.results?.[0];
+                if (best?.wdl && (msg.type === 'update' || msg.type === 'done')) {
+                    setEngineEval({ wdl: turn === Color.White ? best.wdl : flipWdl(best.wdl), label: formatWhiteScore(best.score, turn) });
+                }
                 if (msg.type === 'update') {
-                    const move = msg.move;
+                    const move = best?.move;
                     const depth = msg.depth;
-                    setEngineSuggestion(`${move.notation} (depth ${depth})`);
+                    if (move) setEngineSuggestion(`${move.notation} (depth ${depth})`);
                 }
                 if (msg.type === 'done') {
-                    const move = msg.move;
+                    const move = best?.move;
                     if (move) setEngineSuggestion(move.notation);
                     setEngineThinking(false);
                     requestIdRef.current = null;
@@ -209,7 +225,16 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
         }
 
         // Start analysis
-        workerRef.current.postMessage({ type: 'start', board: currentBoard, turn, maxDepth: engineDepth, requestId });
+        workerRef.current.postMessage({ type: 'start', board: currentBoard, turn, maxDepth: engineDepth, requestId, rules: game.rules, context: gameSearchContext(game, moveCount) });
+    };
+
+    const [pgnCopied, setPgnCopied] = useState(false);
+
+    const handleCopyPGN = () => {
+        navigator.clipboard.writeText(writePgn(gameToPgn(game))).then(() => {
+            setPgnCopied(true);
+            setTimeout(() => setPgnCopied(false), 2000);
+        });
     };
 
     const startAnalysisHere = () => {
@@ -246,27 +271,32 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
                     <button onClick={() => changeIndex(moves.length - 1)} disabled={currentMoveIndex === moves.length - 1} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50">&gt;&gt;</button>
                 </div>
 
-                <Board
-                    board={displayBoard}
-                    selectedPiece={selectedPiece}
-                    validMoves={[]}
-                    onSquareClick={handleSquareClick}
-                    turn={(currentMoveIndex + 1) % 2 === 0 ? Color.White : Color.Black}
-                    playerColor={Color.White}
-                    gameMode="local"
-                    isInteractionDisabled={false}
-                    onPieceDragStart={handleDragStart}
-                    onPieceDragEnd={() => setDraggedPiece(null)}
-                    onSquareDrop={() => { }}
-                    draggedPiece={draggedPiece}
-                    premove={null}
-                    lastMove={lastMove ? { from: lastMove.from, to: lastMove.to } : null}
-                    highlightedSquares={[]}
-                    arrows={[]}
-                    onBoardMouseDown={() => { }}
-                    onBoardMouseUp={() => { }}
-                    onBoardContextMenu={(e) => e.preventDefault()}
-                />
+                <div className="flex gap-2">
+                    <EvalBar wdl={engineEval?.wdl || null} label={engineEval?.label} flipped={(currentMoveIndex + 1) % 2 === 1} />
+                    <div className="flex-1 min-w-0">
+                        <Board
+                            board={displayBoard}
+                            selectedPiece={selectedPiece}
+                            validMoves={[]}
+                            onSquareClick={handleSquareClick}
+                            turn={(currentMoveIndex + 1) % 2 === 0 ? Color.White : Color.Black}
+                            playerColor={Color.White}
+                            gameMode="local"
+                            isInteractionDisabled={false}
+                            onPieceDragStart={handleDragStart}
+                            onPieceDragEnd={() => setDraggedPiece(null)}
+                            onSquareDrop={() => { }}
+                            draggedPiece={draggedPiece}
+                            premove={null}
+                            lastMove={lastMove ? { from: lastMove.from, to: lastMove.to } : null}
+                            highlightedSquares={[]}
+                            arrows={[]}
+                            onBoardMouseDown={() => { }}
+                            onBoardMouseUp={() => { }}
+                            onBoardContextMenu={(e) => e.preventDefault()}
+                        />
+                    </div>
+                </div>
             </div>
             <div className="w-full md:w-80 bg-gray-800 p-4 rounded-lg shadow-xl flex flex-col max-h-[90vh] overflow-y-auto">
                 <h2 className="text-2xl font-bold text-center mb-2 text-green-400">Game Review</h2>
@@ -371,6 +401,9 @@ const GameReview: React.FC<GameReviewProps> = ({ game, onBack, onAnalyze }) => {
                     <button onClick={startAnalysisHere} className="w-full mt-4 px-4 py-3 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors">
                         Analyse Game
                     </button>
+                    <button onClick={handleCopyPGN} className="w-full mt-2 px-4 py-3 bg-gray-600 hover:bg-gray-500 rounded-lg font-semibold transition-colors">
+                        {pgnCopied ? 'PGN Copied!' : 'Copy PGN'}
+                    </button>
                     <button onClick={onBack} className="w-full mt-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors">
                         Back
                     </button>
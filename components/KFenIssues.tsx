@@ -0,0 +1,23 @@
+import React from 'react';
+import { formatKFenIssue, KFenReport } from '../utils/kfen';
+
+interface KFenIssuesProps {
+    report: KFenReport | null;
+}
+
+// Lists what `validateKFen` found under a KFen input: errors in red, warnings in yellow.
+const KFenIssues: React.FC<KFenIssuesProps> = ({ report }) => {
+    if (!report || (report.errors.length === 0 && report.warnings.length === 0)) return null;
+    return (
+        <ul className="space-y-0.5 text-[11px] font-mono">
+            {report.errors.map((issue, i) => (
+                <li key={`e${i}`} className="text-red-400">❌ {formatKFenIssue(issue)}</li>
+            ))}
+            {report.warnings.map((issue, i) => (
+                <li key={`w${i}`} className="text-yellow-400">⚠️ {formatKFenIssue(issue)}</li>
+            ))}
+        </ul>
+    );
+};
+
+export default KFenIssues;
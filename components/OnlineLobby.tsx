@@ -1,10 +1,14 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { auth, db } from '../firebaseConfig';
-import { Color, GameState, LobbyGame, TimerSettings, PlayerInfo, UserInfo, ActiveGameSummary, GameStatus, IncomingChallenge, SentChallenge, AutoSetting } from '../types';
-import { getRatingCategory, RatingCategory, RATING_CATEGORIES } from '../utils/ratings';
+import { Color, GameState, LobbyGame, TimerSettings, PlayerInfo, UserInfo, ActiveGameSummary, GameStatus, IncomingChallenge, SentChallenge, AutoSetting, Variant, RuleSet } from '../types';
+import { getRatingCategory, isCorrespondence, RatingCategory, RATING_CATEGORIES } from '../utils/ratings';
 import { fenToBoard } from '../utils/game';
+import { describeRules, isStandardRules, STANDARD_RULES } from '../utils/rules';
+import { formatKFenIssue, validateKFen } from '../utils/kfen';
 import SettingsModal from './SettingsModal';
+import KFenIssues from './KFenIssues';
+import RuleSetOptions from './RuleSetOptions';
 
 type LobbyTab = 'games' | 'players' | 'current_games' | 'finished_games' | 'challenges' | 'live';
 
@@ -13,7 +17,7 @@ interface OnlineLobbyProps {
     userUid: string;
     onGameStart: (gameId: string, playerColor: Color) => void;
     onBack: () => void;
-    getInitialGameState: (mode: 'online_playing', settings: TimerSettings, dontLoad: boolean, isRated: boolean) => GameState;
+    getInitialGameState: (mode: 'online_playing', settings: TimerSettings, dontLoad: boolean, isRated: boolean, variant?: Variant, rules?: RuleSet) => GameState;
     creatorColor: Color;
     onGameCreated: () => void;
     myRatings: Record<RatingCategory, number> | null;
@@ -424,10 +428,13 @@ const PlayerGameHistoryModal: React.FC<{
 const ChallengeConfigModal: React.FC<{
     opponent: UserInfo;
     onCancel: () => void;
-    onSend: (settings: TimerSettings, isRated: boolean, challengeColor: string, visualSettings: { showPowerPieces: boolean, showPowerRings: boolean, showOriginalType: boolean }) => void;
+    onSend: (settings: TimerSettings, isRated: boolean, challengeColor: string, visualSettings: { showPowerPieces: boolean, showPowerRings: boolean, showOriginalType: boolean }, variant: Variant, rules: RuleSet) => void;
     isCustomPosition?: boolean;
 }> = ({ opponent, onCancel, onSend, isCustomPosition }) => {
     const [isRated, setIsRated] = useState(!isCustomPosition);
+    const [variant, setVariant] = useState<Variant>('standard');
+    const [rules, setRules] = useState<RuleSet>(STANDARD_RULES);
+    const isUnrated = !!isCustomPosition || !isStandardRules(rules);
     const [type, setType] = useState<'realtime' | 'correspondence'>('realtime');
     const [corrType, setCorrType] = useState<'daily' | 'unlimited'>('daily');
     const [baseMin, setBaseMin] = useState('10');
@@ -445,7 +452,7 @@ const ChallengeConfigModal: React.FC<{
         } else if (corrType === 'daily') {
             settings = { daysPerMove: parseInt(days) };
         }
-        onSend(settings, isRated, challengeColor, { showPowerPieces, showPowerRings, showOriginalType });
+        onSend(settings, isRated && !isUnrated, challengeColor, { showPowerPieces, showPowerRings, showOriginalType }, isCustomPosition ? 'standard' : variant, rules);
     };
 
     return (
@@ -454,12 +461,23 @@ const ChallengeConfigModal: React.FC<{
                 <h3 className="text-xl font-bold mb-4 text-center">Challenge {opponent.displayName}</h3>
 
                 <div className="mb-4 flex items-center justify-center">
-                    <input type="checkbox" id="modal-rated" checked={isRated} onChange={e => !isCustomPosition && setIsRated(e.target.checked)} disabled={!!isCustomPosition} className="w-4 h-4 text-purple-600 bg-gray-700 rounded focus:ring-purple-600 disabled:opacity-50" />
-                    <label htmlFor="modal-rated" className={`ml-2 font-medium ${isCustomPosition ? 'text-gray-500 italic' : 'text-gray-300'}`}>
-                        {isCustomPosition ? 'From Position (Unrated)' : 'Rated Game'}
+                    <input type="checkbox" id="modal-rated" checked={isRated && !isUnrated} onChange={e => !isUnrated && setIsRated(e.target.checked)} disabled={isUnrated} className="w-4 h-4 text-purple-600 bg-gray-700 rounded focus:ring-purple-600 disabled:opacity-50" />
+                    <label htmlFor="modal-rated" className={`ml-2 font-medium ${isUnrated ? 'text-gray-500 italic' : 'text-gray-300'}`}>
+                        {isCustomPosition ? 'From Position (Unrated)' : isUnrated ? 'Custom Rules (Unrated)' : 'Rated Game'}
                     </label>
                 </div>
 
+                {!isCustomPosition && (
+                    <div className="flex bg-gray-700 rounded-lg p-1 mb-4">
+                        <button onClick={() => setVariant('standard')} className={`flex-1 py-1 text-sm rounded ${variant === 'standard' ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>Standard</button>
+                        <button onClick={() => setVariant('krachtschaak960')} className={`flex-1 py-1 text-sm rounded ${variant === 'krachtschaak960' ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>Krachtschaak960</button>
+                    </div>
+                )}
+
+                <div className="mb-4">
+                    <RuleSetOptions rules={rules} onChange={setRules} />
+                </div>
+
                 <div className="flex bg-gray-700 rounded-lg p-1 mb-4">
                     <button onClick={() => setType('realtime')} className={`flex-1 py-1 text-sm rounded ${type === 'realtime' ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>Real-Time</button>
                     <button onClick={() => setType('correspondence')} className={`flex-1 py-1 text-sm rounded ${type === 'correspondence' ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>Correspondence</button>
@@ -540,6 +558,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
     const [myCurrentGames, setMyCurrentGames] = useState<ActiveGameSummary[]>([]);
     const [myFinishedGames, setMyFinishedGames] = useState<{ id: string, data: GameState }[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const pendingKFenReport = useMemo(() => pendingChallengeKFen ? validateKFen(pendingChallengeKFen) : null, [pendingChallengeKFen]);
     const [tick, setTick] = useState(0); // Force update for timers
     const [showSettings, setShowSettings] = useState(false);
     const [liveGames, setLiveGames] = useState<LobbyGame[]>([]);
@@ -584,6 +603,8 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
 
     // Quick Create Config
     const [isRated, setIsRated] = useState(true);
+    const [lobbyVariant, setLobbyVariant] = useState<Variant>('standard');
+    const [lobbyRules, setLobbyRules] = useState<RuleSet>(STANDARD_RULES);
     const [timeControlType, setTimeControlType] = useState<'realtime' | 'correspondence'>('realtime');
     const [correspondenceType, setCorrespondenceType] = useState<'daily' | 'unlimited'>('daily');
     const [baseMinutes, setBaseMinutes] = useState('10');
@@ -657,6 +678,8 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                             showPowerPieces: game.showPowerPieces,
                                             showPowerRings: game.showPowerRings,
                                             showOriginalType: game.showOriginalType,
+                                            variant: game.variant,
+                                            rules: game.rules,
                                         });
                                     }
                                 }
@@ -769,7 +792,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
 
         const currentGames: ActiveGameSummary[] = [];
         const finishedGames: { id: string; data: GameState }[] = [];
-        const finishedStatuses: GameStatus[] = ['checkmate', 'kingCaptured', 'stalemate', 'draw_threefold', 'draw_fiftyMove', 'draw_agreement', 'timeout', 'opponent_disconnected', 'resignation'];
+        const finishedStatuses: GameStatus[] = ['checkmate', 'kingCaptured', 'stalemate', 'draw_threefold', 'draw_fiftyMove', 'draw_fivefold', 'draw_seventyFiveMove', 'draw_insufficient', 'draw_agreement', 'timeout', 'opponent_disconnected', 'resignation'];
 
         Object.entries(allMyGames).forEach(([gameId, gameData]) => {
             const data = gameData as GameState;
@@ -783,7 +806,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                     gameId, myColor, opponent, isMyTurn: false, status: data.status, timerSettings: data.timerSettings,
                     ratingCategory: data.ratingCategory, isRated: typeof data.isRated === 'boolean' ? data.isRated : true,
                     moveDeadline: null, playerTimes: null, challengedPlayerInfo: data.challengedPlayerInfo || null, turnStartTime: null,
-                    kFen: data.kFen
+                    kFen: data.kFen, variant: data.variant, rules: data.rules
                 });
             } else if (data.status === 'playing') {
                 const opponentColor = myColor === Color.White ? Color.Black : Color.White;
@@ -794,7 +817,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                         status: data.status, timerSettings: data.timerSettings, ratingCategory: data.ratingCategory,
                         isRated: typeof data.isRated === 'boolean' ? data.isRated : true,
                         moveDeadline: data.moveDeadline, playerTimes: data.playerTimes, turnStartTime: data.turnStartTime,
-                        kFen: data.kFen
+                        kFen: data.kFen, variant: data.variant, rules: data.rules
                     });
                 }
             }
@@ -867,10 +890,14 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
 
     // --- CHALLENGE ACTIONS ---
 
-    const handleSendChallenge = async (settings: TimerSettings, isRated: boolean, challengeColor: string, visualSettings: { showPowerPieces: boolean, showPowerRings: boolean, showOriginalType: boolean }) => {
+    const handleSendChallenge = async (settings: TimerSettings, isRated: boolean, challengeColor: string, visualSettings: { showPowerPieces: boolean, showPowerRings: boolean, showOriginalType: boolean }, variant: Variant, rules: RuleSet) => {
         if (!challengeTarget || !myRatings) return;
+        if (pendingKFenReport && pendingKFenReport.errors.length > 0) {
+            setError(`Cannot challenge from this position: ${formatKFenIssue(pendingKFenReport.errors[0])}`);
+            return;
+        }
 
-        const category = getRatingCategory(settings);
+        const category = getRatingCategory(settings, variant);
         const myRating = myRatings[category] ?? 1200;
         const targetUid = challengeTarget.uid;
 
@@ -886,7 +913,9 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             showPowerPieces: visualSettings.showPowerPieces,
             showPowerRings: visualSettings.showPowerRings,
             showOriginalType: visualSettings.showOriginalType,
-            kFen: pendingChallengeKFen || null
+            kFen: pendingChallengeKFen || null,
+            variant,
+            rules: isStandardRules(rules) ? null : rules
         };
 
         const newChallengeRef = db.ref(`challenges/${targetUid}`).push();
@@ -906,7 +935,9 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             showPowerPieces: visualSettings.showPowerPieces,
             showPowerRings: visualSettings.showPowerRings,
             showOriginalType: visualSettings.showOriginalType,
-            kFen: pendingChallengeKFen || null
+            kFen: pendingChallengeKFen || null,
+            variant,
+            rules: isStandardRules(rules) ? null : rules
         });
 
         setChallengeTarget(null); // Close Modal
@@ -939,7 +970,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             const myColor = isCreatorWhite ? Color.Black : Color.White;
             const opponentColor = isCreatorWhite ? Color.White : Color.Black;
 
-            const initialState = getInitialGameState('online_playing', challenge.timerSettings, true, challenge.isRated);
+            const initialState = getInitialGameState('online_playing', challenge.timerSettings, true, challenge.isRated, challenge.variant, challenge.rules);
 
             const myPlayerInfo: PlayerInfo = {
                 uid: userUid,
@@ -977,8 +1008,8 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             }
 
             initialState.initialRatings = {
-                white: initialState.playerColors.white === userUid ? myRatings[challenge.ratingCategory] : challenge.fromRating,
-                black: initialState.playerColors.black === userUid ? myRatings[challenge.ratingCategory] : challenge.fromRating,
+                white: initialState.playerColors.white === userUid ? (myRatings[challenge.ratingCategory] ?? 1200) : challenge.fromRating,
+                black: initialState.playerColors.black === userUid ? (myRatings[challenge.ratingCategory] ?? 1200) : challenge.fromRating,
             };
             initialState.showPowerPieces = challenge.showPowerPieces ?? true;
             initialState.showPowerRings = challenge.showPowerRings ?? true;
@@ -1063,7 +1094,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             const gameId = newGameRef.key;
             if (!gameId) { setError("Could not create a game ID."); setIsCreatingGame(false); return; }
 
-            const initialState = getInitialGameState('online_playing', settings, true, isRated);
+            const initialState = getInitialGameState('online_playing', settings, true, isRated, lobbyVariant, lobbyRules);
             const user = auth.currentUser;
             const displayName = user?.displayName || 'Guest';
 
@@ -1089,8 +1120,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
             });
             createdGameListenerRef.current = { gameId, ref: newGameRef };
 
-            const category = getRatingCategory(settings);
-            const isRealTimeChallenge = category !== RatingCategory.Daily && category !== RatingCategory.Unlimited;
+            const isRealTimeChallenge = !isCorrespondence(settings);
             onGameCreated();
             setCurrentLobbyTab('current_games');
 
@@ -1305,6 +1335,11 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                         </div>
                     </div>
                 )}
+                {pendingChallengeKFen && (
+                    <div className="w-full max-w-3xl -mt-2 mb-4">
+                        <KFenIssues report={pendingKFenReport} />
+                    </div>
+                )}
 
 
                 {currentLobbyTab === 'challenges' && (
@@ -1325,7 +1360,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                         <div key={c.id} className="bg-indigo-900 border border-indigo-500 p-4 rounded-lg shadow-lg flex flex-col sm:flex-row items-center justify-between gap-4">
                                             <div>
                                                 <p className="font-bold text-white text-lg">{c.fromName} ({c.fromRating})</p>
-                                                <p className="text-indigo-200 text-sm">{renderTimerSetting(c.timerSettings)} • {c.isRated ? 'Rated' : 'Unrated'} {c.ratingCategory}</p>
+                                                <p className="text-indigo-200 text-sm">{renderTimerSetting(c.timerSettings)} • {c.isRated ? 'Rated' : 'Unrated'} {c.ratingCategory}{!isStandardRules(c.rules) ? ` • ${describeRules(c.rules)}` : ''}</p>
                                                 <p className="font-bold text-white text-lg">{"Opponent plays as: " + c.challengeColor}</p>
                                                 {renderVisualSettings(c.showPowerPieces, c.showPowerRings, c.showOriginalType) && (
                                                     <p className="text-indigo-300 text-xs mt-1">{renderVisualSettings(c.showPowerPieces, c.showPowerRings, c.showOriginalType)}</p>
@@ -1363,7 +1398,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                             <div>
                                                 <p className="font-semibold text-gray-300">To: <span className="text-white">{c.targetName}</span></p>
                                                 <p className="text-xs text-gray-400">Sent: {new Date(c.timestamp).toLocaleString()}</p>
-                                                <p className="text-xs text-blue-300 mt-1">{renderTimerSetting(c.timerSettings)} • {c.isRated ? 'Rated' : 'Unrated'} ({c.ratingCategory})</p>
+                                                <p className="text-xs text-blue-300 mt-1">{renderTimerSetting(c.timerSettings)} • {c.isRated ? 'Rated' : 'Unrated'} ({c.ratingCategory}){!isStandardRules(c.rules) ? ` • ${describeRules(c.rules)}` : ''}</p>
                                                 <p className="text-xs text-blue-300 mt-1">{"you play as: " + c.challengeColor}</p>
                                                 {renderVisualSettings(c.showPowerPieces, c.showPowerRings, c.showOriginalType) && (
                                                     <p className="text-xs text-blue-300 mt-1">{renderVisualSettings(c.showPowerPieces, c.showPowerRings, c.showOriginalType)}</p>
@@ -1482,7 +1517,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                             <p className="font-semibold truncate">
                                                 Open Game (Waiting for Opponent)
                                             </p>
-                                            <p className="text-sm text-gray-300">{renderTimerSetting(game.timerSettings)} ({game.ratingCategory}, {game.isRated ? 'Rated' : 'Unrated'}{game.kFen ? ', From Position' : ''})</p>
+                                            <p className="text-sm text-gray-300">{renderTimerSetting(game.timerSettings)} ({game.ratingCategory}, {game.isRated ? 'Rated' : 'Unrated'}{game.kFen && game.variant !== 'krachtschaak960' ? ', From Position' : ''}{!isStandardRules(game.rules) ? `, ${describeRules(game.rules)}` : ''})</p>
                                         </div>
                                         <div className="flex flex-col items-center gap-1">
                                             <p className="font-bold text-gray-400 flex items-center gap-2 text-xs"><div className="w-2 h-2 bg-yellow-500 rounded-full animate-ping"></div> Waiting...</p>
@@ -1493,7 +1528,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                     <>
                                         <div>
                                             <p className="font-semibold truncate text-gray-100">vs {game.opponent?.displayName} ({game.opponent?.ratings?.[game.ratingCategory] ?? '...'})</p>
-                                            <p className="text-sm text-gray-300">{renderTimerSetting(game.timerSettings)} ({game.ratingCategory}, {game.isRated ? 'Rated' : 'Unrated'}{game.kFen ? ', From Position' : ''})</p>
+                                            <p className="text-sm text-gray-300">{renderTimerSetting(game.timerSettings)} ({game.ratingCategory}, {game.isRated ? 'Rated' : 'Unrated'}{game.kFen && game.variant !== 'krachtschaak960' ? ', From Position' : ''}{!isStandardRules(game.rules) ? `, ${describeRules(game.rules)}` : ''})</p>
                                         </div>
                                         <div className="text-right flex items-center gap-4">
                                             <div>
@@ -1567,7 +1602,14 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                     <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-8">
                         <div className="p-4 border border-gray-600 rounded-lg flex flex-col gap-4">
                             <h3 className="text-xl font-semibold text-center">Create New Game</h3>
-                            <div className="flex items-center justify-center"><input id="rated-check" type="checkbox" checked={isRated} onChange={(e) => setIsRated(e.target.checked)} className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-600 ring-offset-gray-800 focus:ring-2" /><label htmlFor="rated-check" className="ms-2 text-lg font-medium text-gray-300">Rated Game</label></div>
+                            <div className="flex items-center justify-center"><input id="rated-check" type="checkbox" checked={isRated && isStandardRules(lobbyRules)} disabled={!isStandardRules(lobbyRules)} onChange={(e) => setIsRated(e.target.checked)} className="w-4 h-4 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-600 ring-offset-gray-800 focus:ring-2 disabled:opacity-50" /><label htmlFor="rated-check" className="ms-2 text-lg font-medium text-gray-300">{isStandardRules(lobbyRules) ? 'Rated Game' : 'Custom Rules (Unrated)'}</label></div>
+
+                            <div className="flex justify-center bg-gray-700 rounded-lg p-1">
+                                <button onClick={() => setLobbyVariant('standard')} className={`flex-1 p-2 rounded ${lobbyVariant === 'standard' ? 'bg-blue-600' : ''}`}>Standard</button>
+                                <button onClick={() => setLobbyVariant('krachtschaak960')} className={`flex-1 p-2 rounded ${lobbyVariant === 'krachtschaak960' ? 'bg-blue-600' : ''}`}>Krachtschaak960</button>
+                            </div>
+
+                            <RuleSetOptions rules={lobbyRules} onChange={setLobbyRules} />
 
                             <div className="flex justify-center bg-gray-700 rounded-lg p-1">
                                 <button onClick={() => setTimeControlType('realtime')} className={`flex-1 p-2 rounded ${timeControlType === 'realtime' ? 'bg-blue-600' : ''}`}>Real-Time</button>
@@ -1646,6 +1688,7 @@ const OnlineLobby: React.FC<OnlineLobbyProps> = ({
                                                 <span className="text-sm text-gray-300">{renderTimerSetting(game.timerSettings)}</span>
                                                 <span className="text-xs px-1.5 py-0.5 bg-gray-800 rounded text-gray-400 uppercase font-bold">{game.ratingCategory}</span>
                                                 {game.isRated && <span className="text-[10px] text-teal-400 font-bold tracking-tight">RATED</span>}
+                                                {!isStandardRules(game.rules) && <span className="text-[10px] text-purple-300 font-bold tracking-tight">{describeRules(game.rules)}</span>}
                                             </div>
                                             {renderVisualSettings(game.showPowerPieces, game.showPowerRings, game.showOriginalType) && (
                                                 <p className="text-[10px] text-gray-500 mt-1 italic leading-tight">{renderVisualSettings(game.showPowerPieces, game.showPowerRings, game.showOriginalType)}</p>
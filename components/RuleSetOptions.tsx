@@ -0,0 +1,36 @@
+import React from 'react';
+import { RuleSet } from '../types';
+import { describeRules } from '../utils/rules';
+
+interface RuleSetOptionsProps {
+    rules: RuleSet;
+    onChange: (rules: RuleSet) => void;
+}
+
+// Checkboxes for the power rules of a new game. Anything but the standard rules makes the game unrated.
+const RuleSetOptions: React.FC<RuleSetOptionsProps> = ({ rules, onChange }) => {
+    const option = (label: string, checked: boolean, update: (checked: boolean) => Partial<RuleSet>, disabled = false) => (
+        <label className={`flex items-center justify-between text-sm ${disabled ? 'text-gray-500' : 'text-gray-300'}`}>
+            {label}
+            <input
+                type="checkbox"
+                checked={checked}
+                disabled={disabled}
+                onChange={e => onChange({ ...rules, ...update(e.target.checked) })}
+                className="w-4 h-4 text-purple-600 bg-gray-700 rounded disabled:opacity-50"
+            />
+        </label>
+    );
+
+    return (
+        <div className="p-3 bg-gray-700/50 rounded-lg space-y-1.5">
+            <p className="text-xs font-bold text-gray-400 uppercase">Rules: {describeRules(rules)}</p>
+            {option('Captures grant powers', rules.powers, powers => ({ powers }))}
+            {option('Keep the first power', rules.powerOnCapture === 'keep', keep => ({ powerOnCapture: keep ? 'keep' : 'replace' }), !rules.powers)}
+            {option('Powers persist after use', rules.powerPersists, powerPersists => ({ powerPersists }), !rules.powers)}
+            {option('King can gain powers', rules.kingGainsPowers, kingGainsPowers => ({ kingGainsPowers }), !rules.powers)}
+        </div>
+    );
+};
+
+export default RuleSetOptions;
@@ -2,6 +2,7 @@
 import React from 'react';
 import { AutoSetting } from '../types';
 import { CHAT_COLOR_PALETTE, getRandomChatColor } from '../utils/chatColors';
+import { maxEngineThreads } from '../utils/engineCoordinator';
 
 interface SettingsModalProps {
     onClose: () => void;
@@ -41,6 +42,11 @@ interface SettingsModalProps {
     setNotifyOpenTimeControls: (val: string) => void;
     chatColor?: string;
     setChatColor?: (color: string) => void;
+    engineThreads?: number;
+    setEngineThreads?: (threads: number) => void;
+    /** Seconds the evaluation bar lags a spectated game by; null: no bar. */
+    spectatorEvalDelay?: number | null;
+    setSpectatorEvalDelay?: (delay: number | null) => void;
     autoUpdate?: {
         currentTag: string;
         currentBuildTime: string;
@@ -91,6 +97,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     setNotifyOpenTimeControls,
     chatColor,
     setChatColor,
+    engineThreads,
+    setEngineThreads,
+    spectatorEvalDelay,
+    setSpectatorEvalDelay,
     autoUpdate,
 }) => {
     const renderToggle = (label: string, description: string, value: boolean, onChange: (val: boolean) => void) => (
@@ -187,6 +197,41 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         </div>
                     </section>
 
+                    {engineThreads !== undefined && setEngineThreads && (
+                        <section>
+                            <SectionHeader title="Engine" icon="🧠" />
+                            <div className="bg-gray-900/40 rounded-2xl border border-white/5 py-3 px-4 flex items-center justify-between">
+                                <div className="flex flex-col gap-1">
+                                    <p className="font-bold text-gray-100 uppercase text-sm tracking-wide">Engine Threads</p>
+                                    <p className="text-xs text-gray-400 leading-relaxed max-w-[200px]">Workers for analysis and game review</p>
+                                </div>
+                                <select
+                                    value={engineThreads}
+                                    onChange={(e) => setEngineThreads(parseInt(e.target.value))}
+                                    className="bg-gray-700 text-white rounded-lg px-3 py-1.5 text-sm font-bold"
+                                >
+                                    {Array.from({ length: maxEngineThreads() }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            {spectatorEvalDelay !== undefined && setSpectatorEvalDelay && (
+                                <div className="mt-2 bg-gray-900/40 rounded-2xl border border-white/5 py-3 px-4 flex items-center justify-between">
+                                    <div className="flex flex-col gap-1">
+                                        <p className="font-bold text-gray-100 uppercase text-sm tracking-wide">Spectator Eval Bar</p>
+                                        <p className="text-xs text-gray-400 leading-relaxed max-w-[200px]">Win chances beside games you watch, behind by the delay</p>
+                                    </div>
+                                    <select
+                                        value={spectatorEvalDelay === null ? 'off' : spectatorEvalDelay}
+                                        onChange={(e) => setSpectatorEvalDelay(e.target.value === 'off' ? null : parseInt(e.target.value))}
+                                        className="bg-gray-700 text-white rounded-lg px-3 py-1.5 text-sm font-bold"
+                                    >
+                                        <option value="off">Off</option>
+                                        {[0, 15, 30, 60, 120].map(n => <option key={n} value={n}>{n === 0 ? 'No delay' : `${n} s`}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                        </section>
+                    )}
+
                     {chatColor && setChatColor && (
                         <section>
                             <SectionHeader title="Chat Customization" icon="💬" />
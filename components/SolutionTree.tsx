@@ -0,0 +1,37 @@
+import React from 'react';
+import { SolutionNode } from '../engine';
+
+interface SolutionTreeProps {
+    node: SolutionNode;
+    depth?: number;
+}
+
+const ending = (node: SolutionNode): string =>
+    node.ends === 'checkmate' ? '#' : node.ends === 'kingCaptured' ? ' (king captured)' : '';
+
+// A proved win from KrachtschaakAI.solve: the winning move, any others that win as fast in yellow, and
+// under it every defence with its answer. The longest defence comes first and opens by itself.
+const SolutionTree: React.FC<SolutionTreeProps> = ({ node, depth = 0 }) => (
+    <div className="flex flex-col gap-0.5 text-xs font-mono">
+        <div>
+            <span className="font-bold text-green-400">{node.move.notation}{ending(node)}</span>
+            {node.alternatives.length > 0 && (
+                <span className="text-yellow-400" title="Other moves that win as fast">
+                    {' '}(also {node.alternatives.map(m => m.notation).join(', ')})
+                </span>
+            )}
+        </div>
+        {node.defences.map((defence, i) => (
+            <details key={`${defence.move.notation}-${i}`} open={i === 0 && depth < 2} className="pl-3 border-l border-gray-600">
+                <summary className="cursor-pointer text-gray-300">
+                    {defence.move.notation} <span className="text-gray-500">in {defence.answer.moves}</span>
+                </summary>
+                <div className="pl-3">
+                    <SolutionTree node={defence.answer} depth={depth + 1} />
+                </div>
+            </details>
+        ))}
+    </div>
+);
+
+export default SolutionTree;
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { db, auth } from '../firebaseConfig';
 import {
     TournamentData, TournamentPlayer, TournamentPairing, TournamentRound,
-    TimerSettings, PairingMode, Color, GameState, PlayerInfo, PairingResult
+    TimerSettings, PairingMode, Color, GameState, PlayerInfo, PairingResult, Variant
 } from '../types';
 import {
     createTournament, joinTournament, removePlayer,
@@ -11,8 +11,10 @@ import {
     listActiveTournaments, listTournamentHistory, generateSwissPairings, recalculateTiebreaks,
     toggleHostParticipation, listPublicTournamentHistory, updateTournamentDetails, unwithdrawPlayer
 } from '../utils/tournamentFirebase';
-import { createInitialBoard, fenToBoard } from '../utils/game';
+import { boardToKrachtschaakFen, createInitialBoard, createKrachtschaak960Board, fenToBoard, generateBoardKey, KRACHTSCHAAK960_POSITIONS } from '../utils/game';
+import { formatKFenIssue, validateKFen } from '../utils/kfen';
 import Board from './Board';
+import KFenIssues from './KFenIssues';
 import { getRatingCategory } from '../utils/ratings';
 
 interface TournamentProps {
@@ -21,13 +23,20 @@ interface TournamentProps {
     onBack: () => void;
     onGameStart: (gameId: string, playerColor: Color) => void;
     onSpectate: (gameId: string) => void;
-    getInitialGameState: (mode: 'online_playing', settings: TimerSettings, dontLoad: boolean, isRated: boolean) => GameState;
+    getInitialGameState: (mode: 'online_playing', settings: TimerSettings, dontLoad: boolean, isRated: boolean, variant?: Variant) => GameState;
     myRatings: any;
     activeTournamentId?: string | null;
     onTournamentJoined: (id: string | null) => void;
     onViewPosition?: (kFen: string) => void;
 }
 
+// Every game of a Krachtschaak960 round starts from the same position, picked from the tournament id and round.
+const roundPositionIndex = (tournamentId: string, round: number): number => {
+    let hash = 0;
+    for (const char of `${tournamentId}:${round}`) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return hash % KRACHTSCHAAK960_POSITIONS;
+};
+
 type TournamentView = 'list' | 'create' | 'lobby' | 'in_progress' | 'finished';
 type ListTab = 'my_active' | 'active' | 'history' | 'public_history';
 
@@ -62,6 +71,7 @@ const Tournament: React.FC<TournamentProps> = ({
     const [createExpectedStartDate, setCreateExpectedStartDate] = useState('');
     const [createTimezone, setCreateTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
     const [createKFen, setCreateKFen] = useState('');
+    const [createVariant, setCreateVariant] = useState<Variant>('standard');
 
     // Join
     const [joinCode, setJoinCode] = useState('');
@@ -87,17 +97,10 @@ const Tournament: React.FC<TournamentProps> = ({
     const [previewKFenModal, setPreviewKFenModal] = useState<{ kFen: string; title: string } | null>(null);
     const [copiedKFen, setCopiedKFen] = useState(false);
 
-    const isCreateKFenValid = React.useMemo(() => {
-        if (!createKFen.trim()) return true;
-        const res = fenToBoard(createKFen.trim());
-        return !!(res && res.board);
-    }, [createKFen]);
-
-    const isEditKFenValid = React.useMemo(() => {
-        if (!editKFen.trim()) return true;
-        const res = fenToBoard(editKFen.trim());
-        return !!(res && res.board);
-    }, [editKFen]);
+    const createKFenReport = React.useMemo(() => createKFen.trim() ? validateKFen(createKFen) : null, [createKFen]);
+    const editKFenReport = React.useMemo(() => editKFen.trim() ? validateKFen(editKFen) : null, [editKFen]);
+    const isCreateKFenValid = !createKFenReport || createKFenReport.errors.length === 0;
+    const isEditKFenValid = !editKFenReport || editKFenReport.errors.length === 0;
 
     useEffect(() => {
         if (activeTournament) {
@@ -200,10 +203,7 @@ const Tournament: React.FC<TournamentProps> = ({
     // Handle create
     const handleCreate = async () => {
         if (!createName.trim()) { setError('Enter a tournament name'); return; }
-        if (createKFen.trim()) {
-            const kRes = fenToBoard(createKFen.trim());
-            if (!kRes || !kRes.board) { setError('Invalid starting K-FEN or FEN format'); return; }
-        }
+        if (createVariant === 'standard' && createKFenReport && createKFenReport.errors.length > 0) { setError(`Invalid starting K-FEN: ${formatKFenIssue(createKFenReport.errors[0])}`); return; }
         try {
             setError(null);
             const baseTime = createTimeControlType === 'realtime' ? (parseFloat(createBaseMinutes) || 0) * 60 : 0;
@@ -226,7 +226,8 @@ const Tournament: React.FC<TournamentProps> = ({
                 showPowerPieces: createShowPowerPieces,
                 showPowerRings: createShowPowerRings,
                 showOriginalType: createShowOriginalType
-            }, createIsPrivate, createIsRated, flagsArray, expectedStartStr || null, createTimezone, createKFen.trim() || undefined);
+            }, createIsPrivate, createIsRated, flagsArray, expectedStartStr || null, createTimezone,
+                createVariant === 'standard' ? createKFen.trim() || undefined : undefined, createVariant);
             onTournamentJoined(id);
             subscribeToTournament(id);
             setView('lobby');
@@ -404,8 +405,8 @@ const Tournament: React.FC<TournamentProps> = ({
                 console.error("Error fetching ratings for tournament game:", e);
             }
 
-            const category = getRatingCategory(activeTournament.timerSettings);
-            const initialState = getInitialGameState('online_playing', activeTournament.timerSettings, true, false);
+            const category = getRatingCategory(activeTournament.timerSettings, activeTournament.variant);
+            const initialState = getInitialGameState('online_playing', activeTournament.timerSettings, true, false, activeTournament.variant);
 
             const whiteInfo: PlayerInfo = {
                 uid: whitePlayer.uid, displayName: whitePlayer.nickname,
@@ -442,7 +443,11 @@ const Tournament: React.FC<TournamentProps> = ({
             initialState.tournamentRound = currentRound;
             initialState.tournamentPairingId = pairing.id;
 
-            if (activeTournament.kFen) {
+            if (activeTournament.variant === 'krachtschaak960') {
+                initialState.board = createKrachtschaak960Board(roundPositionIndex(activeTournament.id, currentRound));
+                initialState.kFen = boardToKrachtschaakFen({ board: initialState.board, turn: Color.White });
+                initialState.positionHistory = { [generateBoardKey(initialState.board, Color.White, null)]: 1 };
+            } else if (activeTournament.kFen) {
                 const kRes = fenToBoard(activeTournament.kFen);
                 if (kRes && kRes.board) {
                     initialState.board = kRes.board;
@@ -598,10 +603,7 @@ const Tournament: React.FC<TournamentProps> = ({
     const handleSaveSettings = async () => {
         if (!activeTournament || !isHost) return;
         if (!editName.trim()) { setError('Enter a tournament name'); return; }
-        if (editKFen.trim()) {
-            const kRes = fenToBoard(editKFen.trim());
-            if (!kRes || !kRes.board) { setError('Invalid starting K-FEN or FEN format'); return; }
-        }
+        if (editKFenReport && editKFenReport.errors.length > 0) { setError(`Invalid starting K-FEN: ${formatKFenIssue(editKFenReport.errors[0])}`); return; }
         try {
             setError(null);
             const flagsArray = editFlags.split(',').map(s => s.trim()).filter(s => s);
@@ -790,6 +792,11 @@ const Tournament: React.FC<TournamentProps> = ({
                                                                 🧩 Custom K-FEN
                                                             </span>
                                                         )}
+                                                        {t.variant === 'krachtschaak960' && (
+                                                            <span className="text-[10px] bg-purple-900/60 text-purple-300 border border-purple-600/50 px-1.5 py-0.5 rounded font-normal">
+                                                                🎲 960
+                                                            </span>
+                                                        )}
                                                     </h3>
                                                     <div className="text-xs text-gray-400">
                                                         Round {t.currentRound} of {t.totalRounds} • {timeLabel}
@@ -963,6 +970,7 @@ const Tournament: React.FC<TournamentProps> = ({
                                                             </span>
                                                             {t.isPrivate && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-amber-900/50 text-amber-500">Private</span>}
                                                             {t.isRated && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-green-900/50 text-green-500">Rated</span>}
+                                                            {t.variant === 'krachtschaak960' && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-purple-900/50 text-purple-400">Krachtschaak960</span>}
                                                             {t.kFen && (
                                                                 <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-purple-900/70 text-purple-300 border border-purple-500/50 flex items-center gap-1">
                                                                     🧩 Custom K-FEN
@@ -1201,7 +1209,18 @@ const Tournament: React.FC<TournamentProps> = ({
                             />
                         </div>
 
-                        <div className="p-3 bg-gray-800/80 rounded-lg border border-purple-900/50 space-y-2">
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-300 mb-1">Variant</label>
+                            <div className="flex bg-gray-700 rounded-lg p-1">
+                                <button type="button" onClick={() => setCreateVariant('standard')} className={`flex-1 py-1 text-sm rounded ${createVariant === 'standard' ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>Standard</button>
+                                <button type="button" onClick={() => setCreateVariant('krachtschaak960')} className={`flex-1 py-1 text-sm rounded ${createVariant === 'krachtschaak960' ? 'bg-purple-600 text-white' : 'text-gray-400'}`}>Krachtschaak960</button>
+                            </div>
+                            {createVariant === 'krachtschaak960' && (
+                                <p className="text-[11px] text-gray-400 mt-1">Each round starts from a random Krachtschaak960 position, the same for every board.</p>
+                            )}
+                        </div>
+
+                        {createVariant === 'standard' && <div className="p-3 bg-gray-800/80 rounded-lg border border-purple-900/50 space-y-2">
                             <div className="flex justify-between items-center">
                                 <label className="block text-sm font-semibold text-gray-300">
                                     🧩 Starting K-FEN / FEN (Optional)
@@ -1219,6 +1238,7 @@ const Tournament: React.FC<TournamentProps> = ({
                                 placeholder="Paste K-FEN or FEN string or leave blank for default"
                                 className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-xs placeholder-gray-400 focus:outline-none focus:border-purple-500"
                             />
+                            <KFenIssues report={createKFenReport} />
                             <div className="flex justify-between items-center pt-0.5">
                                 <p className="text-[11px] text-gray-400">
                                     All tournament games will start from this position.
@@ -1233,7 +1253,7 @@ const Tournament: React.FC<TournamentProps> = ({
                                     </button>
                                 )}
                             </div>
-                        </div>
+                        </div>}
 
                         <div className="bg-gray-800 p-3 rounded-lg space-y-2 border border-yellow-900/30">
                             <p className="text-xs font-bold text-yellow-500 uppercase mb-2">Visual Settings (Enforced for all games)</p>
@@ -1345,6 +1365,7 @@ const Tournament: React.FC<TournamentProps> = ({
                                             placeholder="Paste K-FEN or FEN string or leave blank for default"
                                             className="w-full px-3 py-2 bg-gray-755 border border-gray-650 rounded-lg text-white font-mono text-xs placeholder-gray-400 focus:outline-none focus:border-purple-500"
                                         />
+                                        <KFenIssues report={editKFenReport} />
                                         {editKFen.trim() && isEditKFenValid && (
                                             <button
                                                 type="button"
@@ -1,53 +1,14 @@
-import { BoardState, Position, Move, PieceType, Color, Piece, Square } from './types';
-import { getValidMoves, isPowerMove, findKingPosition, getNotation, isKingInCheck, getMovesForPieceType } from './utils/game';
-
-// --- Zobrist Hashing Setup ---
-const PIECE_INDICES: Record<PieceType, number> = {
-    [PieceType.Pawn]: 0,
-    [PieceType.Knight]: 1,
-    [PieceType.Bishop]: 2,
-    [PieceType.Rook]: 3,
-    [PieceType.Queen]: 4,
-    [PieceType.King]: 5
-};
-
-const POWER_INDICES: Record<string, number> = {
-    'none': 0,
-    [PieceType.Pawn]: 1,
-    [PieceType.Knight]: 2,
-    [PieceType.Bishop]: 3,
-    [PieceType.Rook]: 4,
-    [PieceType.Queen]: 5,
-    [PieceType.King]: 6
-};
-
-const NUM_ZOBRIST_KEYS = 2 * 6 * 7 * 6 * 64; // color * type * power * originalType * squares
-const ZOBRIST_KEYS = new BigInt64Array(NUM_ZOBRIST_KEYS);
-const ZOBRIST_CASTLING = new BigInt64Array(16);
-const ZOBRIST_EP = new BigInt64Array(8);
-const ZOBRIST_SIDE = generateRandomBigInt();
-
-function generateRandomBigInt() {
-    const r1 = BigInt(Math.floor(Math.random() * 0xFFFFFFFF));
-    const r2 = BigInt(Math.floor(Math.random() * 0xFFFFFFFF));
-    return (r1 << 32n) | r2;
-}
-
-for (let i = 0; i < NUM_ZOBRIST_KEYS; i++) ZOBRIST_KEYS[i] = generateRandomBigInt();
-for (let i = 0; i < 16; i++) ZOBRIST_CASTLING[i] = generateRandomBigInt();
-for (let i = 0; i < 8; i++) ZOBRIST_EP[i] = generateRandomBigInt();
-
-function getZobristKey(color: Color, type: PieceType, power: PieceType | null, originalType: PieceType, squareIndex: number): bigint {
-    const c = color === Color.White ? 0 : 1;
-    const t = PIECE_INDICES[type];
-    const p = power ? POWER_INDICES[power] : 0;
-    const o = PIECE_INDICES[originalType];
-    // Index: (((c * 6 + t) * 7) + p) * 6 + o) * 64 + squareIndex
-    const index = (((((c * 6 + t) * 7) + p) * 6) + o) * 64 + squareIndex;
-    return ZOBRIST_KEYS[index];
-}
+import { BoardState, Position, Move, PieceType, Color, Piece, Square, RuleSet, TimerSettings, GameState } from './types';
+import { CastlingMove, castlingRookMask, findCastlingMove, findKingPosition, isKingInCheck } from './utils/game';
+import { createGameState, gameRules, generateMoves, intentFromRecord, opponentOf, resolveMove, STANDARD_RULES } from './utils/rules';
+import { DEFAULT_EVAL_PARAMS, EvalParams, gamePhase, pieceValue, positionalScore } from './utils/evaluation';
+import { staticExchange } from './utils/see';
+import { Tablebase } from './utils/tablebase';
+import { Wdl, wdlFromScore } from './utils/wdl';
+import { castlingKey, enPassantKey, hashPosition, PIECE_INDICES, pieceKey, ZOBRIST_SIDE } from './utils/zobrist';
 
 // --- Constants ---
+// For move ordering only; the evaluation's piece values are in utils/evalParams.json.
 const PIECE_VALUES = {
     [PieceType.Pawn]: 100,
     [PieceType.Knight]: 320,
@@ -57,53 +18,250 @@ const PIECE_VALUES = {
     [PieceType.King]: 20000
 };
 
-const COMBINATION_BONUSES: Record<PieceType, Partial<Record<PieceType, number>>> = {
-    [PieceType.Pawn]: {
-        [PieceType.Knight]: 60, [PieceType.Bishop]: 70, [PieceType.Rook]: 100, [PieceType.Queen]: 250,
-    },
-    [PieceType.Knight]: {
-        [PieceType.Pawn]: 20, [PieceType.Bishop]: 130, [PieceType.Rook]: 180, [PieceType.Queen]: 250,
-    },
-    [PieceType.Bishop]: {
-        [PieceType.Pawn]: 10, [PieceType.Knight]: 110, [PieceType.Rook]: 200, [PieceType.Queen]: 200,
-    },
-    [PieceType.Rook]: {
-        [PieceType.Pawn]: 20, [PieceType.Knight]: 130, [PieceType.Bishop]: 160, [PieceType.Queen]: 160,
-    },
-    [PieceType.Queen]: {
-        [PieceType.Pawn]: 5, [PieceType.Knight]: 120,
-    },
-    [PieceType.King]: {
-        [PieceType.Pawn]: 20, [PieceType.Knight]: 70, [PieceType.Bishop]: 60, [PieceType.Rook]: 100, [PieceType.Queen]: 150,
-    }
-};
+// The weights evaluate() uses; see utils/evaluation.ts.
+let EVAL_PARAMS: EvalParams = DEFAULT_EVAL_PARAMS;
 
-function getPieceValue(piece: Piece): number {
-    const isKing = piece.isKing || piece.originalType === PieceType.King;
-    const baseType = isKing ? PieceType.King : piece.type;
-    let score = PIECE_VALUES[baseType];
-    if (piece.originalType === PieceType.King && piece.type !== PieceType.King) {
-        score += PIECE_VALUES[piece.type];
-    }
-    if (piece.power) {
-        score += COMBINATION_BONUSES[baseType]?.[piece.power] || 0;
-    }
-    return score;
-}
+// Endgame tables the search looks positions up in; see utils/tablebase.ts.
+let TABLEBASE: Tablebase | null = null;
 
 // --- Transposition Table ---
+// A fixed-size table in typed arrays, in buckets of four entries. A new result overwrites the entry for
+// the same position, else the bucket's least useful entry: the shallowest, counting entries from
+// earlier searches as TT_AGE_PENALTY plies shallower per search. The table is kept from one search to
+// the next, so stepping through a game reuses what earlier searches found. Parallel workers can all use
+// one SharedArrayBuffer; a torn entry costs at most a wrong score, since a table move is only played
+// when it matches a generated move.
+const TT_BUCKET = 4;
+const TT_ENTRY_BYTES = 8 + 4 + 4 + 1 + 1; // key, score, move, depth, flag and age
+const TT_AGE_PENALTY = 4;
+export const DEFAULT_HASH_MB = 16;
+
 interface TTEntry {
     depth: number;
     score: number;
     flag: 0 | 1 | 2;
-    bestMove: Move | null;
-    pv?: string[];
+    move: number; // packMove of the best move, 0 for none
+}
+
+// Enough to tell apart every move generateMoves returns from one position: the squares, the promotion,
+// and the flags that separate a power move, a forced power and en passant from the plain move.
+const packMove = (move: Move): number =>
+    (move.from.row * 8 + move.from.col)
+    | (move.to.row * 8 + move.to.col) << 6
+    | (move.promotion ? PIECE_INDICES[move.promotion] + 1 : 0) << 12
+    | (move.captured ? 1 : 0) << 15
+    | (move.isForcePower ? 1 : 0) << 16
+    | (move.powerConsumed ? 1 : 0) << 17
+    | 1 << 18;
+
+class TranspositionTable {
+    private keys: BigInt64Array<ArrayBufferLike> = new BigInt64Array(0);
+    private scores: Int32Array<ArrayBufferLike> = new Int32Array(0);
+    private moves: Uint32Array<ArrayBufferLike> = new Uint32Array(0);
+    private depths: Int8Array<ArrayBufferLike> = new Int8Array(0);
+    private meta: Uint8Array<ArrayBufferLike> = new Uint8Array(0); // flag in bits 0-1, bit 2 set when used, age in bits 3-7
+    private mask = 0n;
+    private age = 0;
+
+    constructor(megabytes: number) {
+        this.resize(megabytes);
+    }
+
+    resize(megabytes: number) {
+        this.attach(new ArrayBuffer(megabytes * 1024 * 1024));
+    }
+
+    // Lays the table out in `buffer`, using a power of two number of buckets that fits.
+    attach(buffer: ArrayBuffer | SharedArrayBuffer) {
+        const buckets = Math.max(1, Math.floor(buffer.byteLength / (TT_ENTRY_BYTES * TT_BUCKET)));
+        const size = 2 ** Math.floor(Math.log2(buckets)) * TT_BUCKET;
+        this.keys = new BigInt64Array(buffer, 0, size);
+        this.scores = new Int32Array(buffer, size * 8, size);
+        this.moves = new Uint32Array(buffer, size * 12, size);
+        this.depths = new Int8Array(buffer, size * 16, size);
+        this.meta = new Uint8Array(buffer, size * 17, size);
+        this.mask = BigInt(size / TT_BUCKET - 1);
+        this.age = 0;
+    }
+
+    clear() {
+        this.keys.fill(0n);
+        this.moves.fill(0);
+        this.meta.fill(0);
+        this.age = 0;
+    }
+
+    // Called once per search; entries from older searches become the first to be replaced.
+    newSearch() {
+        this.age = (this.age + 1) & 31;
+    }
+
+    private bucket(hash: bigint): number {
+        return Number(hash & this.mask) * TT_BUCKET;
+    }
+
+    probe(hash: bigint): TTEntry | null {
+        const start = this.bucket(hash);
+        for (let i = start; i < start + TT_BUCKET; i++) {
+            if (this.keys[i] === hash && (this.meta[i] & 4) !== 0) {
+                return { depth: this.depths[i], score: this.scores[i], flag: (this.meta[i] & 3) as 0 | 1 | 2, move: this.moves[i] };
+            }
+        }
+        return null;
+    }
+
+    store(hash: bigint, depth: number, score: number, flag: 0 | 1 | 2, move: number) {
+        const start = this.bucket(hash);
+        let target = start;
+        let worst = Infinity;
+        for (let i = start; i < start + TT_BUCKET; i++) {
+            if (this.keys[i] === hash || (this.meta[i] & 4) === 0) {
+                target = i;
+                break;
+            }
+            const staleness = ((this.age - (this.meta[i] >> 3)) & 31) * TT_AGE_PENALTY;
+            const worth = this.depths[i] - staleness;
+            if (worth < worst) {
+                worst = worth;
+                target = i;
+            }
+        }
+        // Keep the best move of a deeper search of the same position when this one found none.
+        if (move === 0 && this.keys[target] === hash && (this.meta[target] & 4) !== 0) move = this.moves[target];
+        this.keys[target] = hash;
+        this.scores[target] = Math.round(score);
+        this.moves[target] = move;
+        this.depths[target] = Math.min(127, depth);
+        this.meta[target] = flag | 4 | (this.age << 3);
+    }
+
+    // Permille of a sample of entries written by the current search, as UCI reports it.
+    hashfull(): number {
+        const sample = Math.min(1000, this.meta.length);
+        let used = 0;
+        for (let i = 0; i < sample; i++) {
+            if ((this.meta[i] & 4) !== 0 && this.meta[i] >> 3 === this.age) used++;
+        }
+        return Math.round(used * 1000 / sample);
+    }
+}
+
+const TT = new TranspositionTable(DEFAULT_HASH_MB);
+
+// --- Time Management ---
+// How long a search may run besides its depth. With a time or node limit the search is cut off
+// mid-iteration and answers with the last depth it completed.
+export interface SearchLimits {
+    movetime?: number;   // ms for this move
+    time?: number;       // ms left on the mover's clock
+    increment?: number;  // ms added to it per move
+    movesToGo?: number;  // moves until the next time control, if any
+    nodes?: number;
+}
+
+// `soft`: no new depth starts after it. `hard`: the running depth is abandoned.
+export const allocateTime = (limits: SearchLimits): { soft: number, hard: number } | null => {
+    if (limits.movetime !== undefined) return { soft: limits.movetime, hard: limits.movetime };
+    if (limits.time === undefined) return null;
+    // Keep some time back so a slow message round trip does not flag us.
+    const available = Math.max(10, limits.time - Math.min(1000, limits.time / 10));
+    const target = limits.time / (limits.movesToGo || 30) + (limits.increment || 0) * 0.75;
+    return { soft: Math.min(available, target * 0.6), hard: Math.min(available, target * 2.5) };
+};
+
+// Limits for an engine playing under the game's TimerSettings. `remainingSeconds` is the mover's
+// entry in playerTimes. Daily and untimed games get a fixed think.
+export const clockLimits = (timerSettings: TimerSettings, remainingSeconds: number | null): SearchLimits => {
+    if (timerSettings && 'initialTime' in timerSettings && remainingSeconds !== null) {
+        return { time: remainingSeconds * 1000, increment: timerSettings.increment * 1000 };
+    }
+    return { movetime: 3000 };
+};
+
+// --- Game Context ---
+// What the search needs from the game besides the board: the en passant square, the fifty-move count
+// and the positions since the last capture or pawn move, which repeat into draws, and who may claim them.
+export interface SearchContext {
+    enPassantTarget?: Position | null;
+    halfmoveClock?: number;
+    history?: bigint[];      // hashPosition of each earlier position, oldest first
+    drawClaimants?: Color[]; // the sides that claim a draw by repetition or the fifty-move rule; both unless given
+}
+
+type LinePosition = Pick<GameState, 'board' | 'turn' | 'enPassantTarget' | 'halfmoveClock'>;
+
+// Context from the positions leading to the searched one, which comes last.
+export const lineSearchContext = (line: LinePosition[]): SearchContext => {
+    const current = line[line.length - 1];
+    const halfmoveClock = current.halfmoveClock || 0;
+    const earlier = halfmoveClock > 0 ? line.slice(0, -1).slice(-halfmoveClock) : [];
+    return {
+        enPassantTarget: current.enPassantTarget,
+        halfmoveClock,
+        history: earlier.map(p => hashPosition(p.board, p.turn, p.enPassantTarget)),
+    };
+};
+
+// Context after the first `moveCount` moves of `game`, replayed from its start position.
+export const gameSearchContext = (game: GameState, moveCount: number = game.moveHistory?.length || 0): SearchContext => {
+    const rules = gameRules(game);
+    const start = createGameState(game.kFen, rules);
+    const line: LinePosition[] = [start];
+    for (const move of (game.moveHistory || []).slice(0, moveCount)) {
+        const prev = line[line.length - 1];
+        const resolution = resolveMove(prev.board, prev.enPassantTarget, intentFromRecord(move), rules);
+        line.push({
+            board: resolution.board,
+            turn: opponentOf(prev.turn),
+            enPassantTarget: resolution.enPassantTarget,
+            halfmoveClock: resolution.resetsClock ? 0 : prev.halfmoveClock + 1,
+        });
+    }
+    return lineSearchContext(line);
+};
+
+// --- Solver ---
+// A forced win proved rather than scored: the side to move wins in n moves when one of its moves mates or
+// captures the king, or leaves every reply answered by a win in n - 1. The solution lists every defence,
+// and beside each move the others that win as fast, so a puzzle's second solutions show.
+export interface SolutionNode {
+    move: Move;                                       // the winning side's move
+    moves: number;                                    // the moves to the win from here, this one included
+    ends: 'checkmate' | 'kingCaptured' | null;        // how this move ends the game, if it does
+    alternatives: Move[];                             // other moves here that win in as few moves
+    defences: { move: Move, answer: SolutionNode }[]; // every reply, the longest resistance first
+}
+
+export interface SolveResult {
+    moves: number | null;          // the shortest forced win, null when there is none within the limit
+    solution: SolutionNode | null;
+    nodes: number;
+    complete: boolean;             // false when the time or node limit ran out first; a win found by then
+                                   // comes with as much of its solution as had been proved
 }
-const TT = new Map<bigint, TTEntry>();
-const MAX_TT_SIZE = 1000000;
 
 // --- Move Ordering Heuristics ---
+// Killers are kept per ply. History scores quiet moves by colour, from and to square; a quiet move that
+// refuted the opponent's last move is its counter move.
 const KILLER_MOVES = new Map<number, Move[]>();
+const HISTORY_MAX = 16384;
+const HISTORY = new Int32Array(2 * 64 * 64);
+const COUNTER_MOVES: (Move | null)[] = new Array(2 * 64 * 64).fill(null);
+
+const moveIndex = (move: Move): number =>
+    (move.color === Color.White ? 0 : 4096) + (move.from.row * 8 + move.from.col) * 64 + move.to.row * 8 + move.to.col;
+
+// Moves toward HISTORY_MAX (or -HISTORY_MAX) more slowly the closer they already are.
+const updateHistory = (move: Move, bonus: number) => {
+    const i = moveIndex(move);
+    HISTORY[i] += bonus - Math.round(HISTORY[i] * Math.abs(bonus) / HISTORY_MAX);
+};
+
+// --- Search Parameters ---
+const ASPIRATION_WINDOW = 40;
+const FUTILITY_MARGINS = [0, 200, 450]; // by remaining depth
+const LMR_MIN_DEPTH = 3;
+const LMR_MIN_MOVES = 3;
 
 // --- Mutable Board Class ---
 export class MutableBoard {
@@ -112,54 +270,28 @@ export class MutableBoard {
     turn: Color;
     enPassantTarget: Position | null;
     currentScore: number; // White perspective score
-
-    constructor(initialBoard: BoardState, turn: Color, enPassantTarget: Position | null = null) {
+    rules: RuleSet;
+    halfmoveClock = 0;
+    // Hashes of the positions before this one, on the game and then the search path, oldest first.
+    keyHistory: bigint[] = [];
+    // The sides that claim the draws they may (see claimableDraw in utils/rules.ts) when they are to move.
+    drawClaimants: Color[] = [Color.White, Color.Black];
+
+    constructor(initialBoard: BoardState, turn: Color, enPassantTarget: Position | null = null, rules: RuleSet = STANDARD_RULES) {
         this.board = initialBoard.map(row => row.map(p => p ? { ...p } : null));
         this.turn = turn;
         this.enPassantTarget = enPassantTarget;
+        this.rules = rules;
         this.hash = this.computeHash();
         this.currentScore = this.computeScore();
     }
 
-    getCastlingBits(): number {
-        let castlingBits = 0;
-        const wk = this.board[7][4];
-        const wrk = this.board[7][7];
-        const wrq = this.board[7][0];
-        const bk = this.board[0][4];
-        const brk = this.board[0][7];
-        const brq = this.board[0][0];
-
-        if (wk?.type === PieceType.King && wk.color === Color.White && !wk.hasMoved) {
-            if (wrk?.type === PieceType.Rook && wrk.color === Color.White && !wrk.hasMoved) castlingBits |= 1;
-            if (wrq?.type === PieceType.Rook && wrq.color === Color.White && !wrq.hasMoved) castlingBits |= 2;
-        }
-        if (bk?.type === PieceType.King && bk.color === Color.Black && !bk.hasMoved) {
-            if (brk?.type === PieceType.Rook && brk.color === Color.Black && !brk.hasMoved) castlingBits |= 4;
-            if (brq?.type === PieceType.Rook && brq.color === Color.Black && !brq.hasMoved) castlingBits |= 8;
-        }
-        return castlingBits;
+    enPassantKey(): bigint {
+        return enPassantKey(this.board, this.turn, this.enPassantTarget);
     }
 
     computeHash(): bigint {
-        let h = 0n;
-        for (let r = 0; r < 8; r++) {
-            for (let c = 0; c < 8; c++) {
-                const p = this.board[r][c];
-                if (p) {
-                    h ^= getZobristKey(p.color, p.type, p.power, p.originalType, r * 8 + c);
-                }
-            }
-        }
-        if (this.turn === Color.Black) h ^= ZOBRIST_SIDE;
-
-        h ^= ZOBRIST_CASTLING[this.getCastlingBits()];
-
-        if (this.enPassantTarget) {
-            h ^= ZOBRIST_EP[this.enPassantTarget.col];
-        }
-
-        return h;
+        return hashPosition(this.board, this.turn, this.enPassantTarget);
     }
 
     computeScore(): number {
@@ -168,7 +300,7 @@ export class MutableBoard {
             for (let c = 0; c < 8; c++) {
                 const piece = this.board[r][c];
                 if (piece) {
-                    const val = getPieceValue(piece);
+                    const val = pieceValue(piece, EVAL_PARAMS);
                     totalScore += (piece.color === Color.White ? val : -val);
                 }
             }
@@ -176,21 +308,44 @@ export class MutableBoard {
         return totalScore;
     }
 
+    // Drawn by the rules of the game (see outcome in utils/rules.ts): the 75-move rule and fivefold repetition
+    // always, and for a side to move that claims draws the fifty-move rule and any repeat of an earlier
+    // position since the last capture or pawn move, since it can repeat it into a claim.
+    isDraw(): boolean {
+        if (this.halfmoveClock >= 150) return true;
+        const claims = this.drawClaimants.includes(this.turn);
+        if (claims && this.halfmoveClock >= 100) return true;
+        const stop = Math.max(0, this.keyHistory.length - this.halfmoveClock);
+        let repeats = 0;
+        for (let i = this.keyHistory.length - 2; i >= stop; i -= 2) {
+            if (this.keyHistory[i] === this.hash && (claims || ++repeats >= 4)) return true;
+        }
+        return false;
+    }
+
     makeNullMove(): any {
         const oldHash = this.hash;
         const oldEnPassant = this.enPassantTarget;
+        const oldClock = this.halfmoveClock;
+
+        // A repetition across a null move is no repetition, so it starts the count afresh.
+        this.keyHistory.push(this.hash);
+        this.halfmoveClock = 0;
 
         // Null move: just switch turn and clear EP
+        this.hash ^= this.enPassantKey();
         this.turn = this.turn === Color.White ? Color.Black : Color.White;
         this.hash ^= ZOBRIST_SIDE;
         this.enPassantTarget = null; // EP rights lost
 
-        return { oldHash, oldEnPassant };
+        return { oldHash, oldEnPassant, oldClock };
     }
 
     unmakeNullMove(undoInfo: any) {
         this.hash = undoInfo.oldHash;
         this.enPassantTarget = undoInfo.oldEnPassant;
+        this.halfmoveClock = undoInfo.oldClock;
+        this.keyHistory.pop();
         this.turn = this.turn === Color.White ? Color.Black : Color.White;
     }
 
@@ -203,15 +358,23 @@ export class MutableBoard {
         const piece = this.board[fromRow][fromCol];
         if (!piece) return null;
 
+        if (move.piece === PieceType.King && !piece.hasMoved && !move.captured && !move.isForcePower && !move.powerConsumed) {
+            const castle = findCastlingMove(this.board, move.from, move.to);
+            if (castle) return this.makeCastle(move, castle);
+        }
+
         const oldHash = this.hash;
         const oldEnPassant = this.enPassantTarget;
         const oldScore = this.currentScore;
+        const oldClock = this.halfmoveClock;
         const targetSquare = this.board[toRow][toCol];
+        this.keyHistory.push(oldHash);
 
-        const oldCastlingBits = this.getCastlingBits();
+        const oldCastlingMask = castlingRookMask(this.board);
+        this.hash ^= this.enPassantKey();
 
         // 1. Remove piece from source
-        this.hash ^= getZobristKey(piece.color, piece.type, piece.power, piece.originalType, fromRow * 8 + fromCol);
+        this.hash ^= pieceKey(piece, fromRow * 8 + fromCol);
         this.board[fromRow][fromCol] = null;
 
         // 2. Handle Capture
@@ -220,20 +383,20 @@ export class MutableBoard {
 
         if (targetSquare) {
             // Capture: Remove target from hash and score
-            this.hash ^= getZobristKey(targetSquare.color, targetSquare.type, targetSquare.power, targetSquare.originalType, toRow * 8 + toCol);
-            const val = getPieceValue(targetSquare);
+            this.hash ^= pieceKey(targetSquare, toRow * 8 + toCol);
+            const val = pieceValue(targetSquare, EVAL_PARAMS);
             this.currentScore -= (targetSquare.color === Color.White ? val : -val);
-        } else if (move.piece === PieceType.Pawn && move.to.col !== move.from.col && !targetSquare) {
-            // En Passant
+        } else if (move.captured && !targetSquare) {
+            // En Passant (by a pawn or a piece with pawn power)
             const epR = fromRow;
             const epC = toCol;
             actualCaptured = this.board[epR][epC];
             if (actualCaptured) {
-                this.hash ^= getZobristKey(actualCaptured.color, actualCaptured.type, actualCaptured.power, actualCaptured.originalType, epR * 8 + epC);
+                this.hash ^= pieceKey(actualCaptured, epR * 8 + epC);
                 this.board[epR][epC] = null;
                 epCapturedPos = { row: epR, col: epC };
 
-                const val = getPieceValue(actualCaptured);
+                const val = pieceValue(actualCaptured, EVAL_PARAMS);
                 this.currentScore -= (actualCaptured.color === Color.White ? val : -val);
             }
         }
@@ -245,7 +408,7 @@ export class MutableBoard {
         const oldHasMoved = piece.hasMoved;
 
         // Remove old piece value from score
-        const oldPieceVal = getPieceValue(piece);
+        const oldPieceVal = pieceValue(piece, EVAL_PARAMS);
         this.currentScore -= (piece.color === Color.White ? oldPieceVal : -oldPieceVal);
 
         // CREATE NEW PIECE OBJECT INSTEAD OF MODIFYING
@@ -262,74 +425,94 @@ export class MutableBoard {
         }
 
         // Add new piece value to score
-        const newPieceVal = getPieceValue(newPiece);
+        const newPieceVal = pieceValue(newPiece, EVAL_PARAMS);
         this.currentScore += (piece.color === Color.White ? newPieceVal : -newPieceVal);
 
         // 4. Place at dest
         this.board[toRow][toCol] = newPiece;
-        this.hash ^= getZobristKey(newPiece.color, newPiece.type, newPiece.power, newPiece.originalType, toRow * 8 + toCol);
-
-        // 5. Castling (Move Rook)
-        let rookMove = null;
-        const isBackRank = fromRow === 0 || fromRow === 7;
-        if (move.piece === PieceType.King && Math.abs(fromCol - toCol) === 2 && isBackRank) {
-            const isKingside = toCol > fromCol;
-            const rFromCol = isKingside ? 7 : 0;
-            const rToCol = isKingside ? 5 : 3;
-            const rook = this.board[fromRow][rFromCol];
-            if (rook && rook.type === PieceType.Rook && rook.color === piece.color) {
-                const oldRookHasMoved = rook.hasMoved;
-                this.hash ^= getZobristKey(rook.color, rook.type, rook.power, rook.originalType, fromRow * 8 + rFromCol);
-                this.board[fromRow][rFromCol] = null;
-
-                const newRook: Piece = { ...rook, hasMoved: true };
-
-                this.board[fromRow][rToCol] = newRook;
-                this.hash ^= getZobristKey(newRook.color, newRook.type, newRook.power, newRook.originalType, fromRow * 8 + rToCol);
-
-                rookMove = { from: { r: fromRow, c: rFromCol }, to: { r: fromRow, c: rToCol }, piece: newRook, oldHasMoved: oldRookHasMoved };
-            }
-        }
-
-        // 6. Update En Passant Target & Castling Bits in Hash
-        if (oldEnPassant) this.hash ^= ZOBRIST_EP[oldEnPassant.col];
+        this.hash ^= pieceKey(newPiece, toRow * 8 + toCol);
 
+        // 6. Update En Passant Target & Castling Rights in Hash
         if (move.piece === PieceType.Pawn && Math.abs(fromRow - toRow) === 2) {
             this.enPassantTarget = { row: (fromRow + toRow) / 2, col: fromCol };
-            this.hash ^= ZOBRIST_EP[this.enPassantTarget.col];
         } else {
             this.enPassantTarget = null;
         }
 
-        const newCastlingBits = this.getCastlingBits();
-        this.hash ^= ZOBRIST_CASTLING[oldCastlingBits];
-        this.hash ^= ZOBRIST_CASTLING[newCastlingBits];
+        this.hash ^= castlingKey(oldCastlingMask);
+        this.hash ^= castlingKey(castlingRookMask(this.board));
 
         // 7. Switch turn
         this.turn = this.turn === Color.White ? Color.Black : Color.White;
         this.hash ^= ZOBRIST_SIDE;
+        this.hash ^= this.enPassantKey();
+        this.halfmoveClock = move.piece === PieceType.Pawn || actualCaptured ? 0 : oldClock + 1;
 
         return {
             move,
             oldHash,
             oldEnPassant,
             oldScore,
+            oldClock,
             captured: actualCaptured,
             epCapturedPos,
-            oldPieceState: { type: oldType, power: oldPower, originalType: oldOriginalType, isKing: piece.isKing, hasMoved: oldHasMoved },
-            rookMove
+            oldPieceState: { type: oldType, power: oldPower, originalType: oldOriginalType, isKing: piece.isKing, hasMoved: oldHasMoved }
         };
     }
 
+    // King and rook land on the c/g and d/f files, wherever they started.
+    private makeCastle(move: Move, castle: CastlingMove): any {
+        const { from } = move;
+        const { kingTo, rookFrom, rookTo } = castle;
+        const king = this.board[from.row][from.col]!;
+        const rook = this.board[rookFrom.row][rookFrom.col]!;
+        const oldHash = this.hash;
+        const oldEnPassant = this.enPassantTarget;
+        const oldCastlingMask = castlingRookMask(this.board);
+        const oldClock = this.halfmoveClock;
+
+        this.keyHistory.push(oldHash);
+        this.hash ^= this.enPassantKey();
+        this.hash ^= pieceKey(king, from.row * 8 + from.col);
+        this.hash ^= pieceKey(rook, rookFrom.row * 8 + rookFrom.col);
+        this.board[from.row][from.col] = null;
+        this.board[rookFrom.row][rookFrom.col] = null;
+        this.board[kingTo.row][kingTo.col] = { ...king, hasMoved: true };
+        this.board[rookTo.row][rookTo.col] = { ...rook, hasMoved: true };
+        this.hash ^= pieceKey(king, kingTo.row * 8 + kingTo.col);
+        this.hash ^= pieceKey(rook, rookTo.row * 8 + rookTo.col);
+
+        this.enPassantTarget = null;
+        this.hash ^= castlingKey(oldCastlingMask);
+        this.hash ^= castlingKey(castlingRookMask(this.board));
+
+        this.turn = this.turn === Color.White ? Color.Black : Color.White;
+        this.hash ^= ZOBRIST_SIDE;
+        this.halfmoveClock = oldClock + 1;
+
+        return { move, oldHash, oldEnPassant, oldScore: this.currentScore, oldClock, castle: { king, rook, ...castle } };
+    }
+
     unmakeMove(undoInfo: any) {
         if (!undoInfo) return;
-        const { move, oldHash, oldEnPassant, oldScore, captured, epCapturedPos, oldPieceState, rookMove } = undoInfo;
+        const { move, oldHash, oldEnPassant, oldScore, oldClock, captured, epCapturedPos, oldPieceState } = undoInfo;
 
         this.hash = oldHash;
         this.enPassantTarget = oldEnPassant;
         this.currentScore = oldScore;
+        this.halfmoveClock = oldClock;
+        this.keyHistory.pop();
         this.turn = this.turn === Color.White ? Color.Black : Color.White;
 
+        if (undoInfo.castle) {
+            const { king, rook, kingTo, rookFrom, rookTo } = undoInfo.castle;
+            this.board[kingTo.row][kingTo.col] = null;
+            this.board[rookTo.row][rookTo.col] = null;
+            this.board[move.from.row][move.from.col] = king;
+            this.board[rookFrom.row][rookFrom.col] = rook;
+            return;
+        }
+
         const pieceAtTo = this.board[move.to.row][move.to.col];
         if (!pieceAtTo) {
             console.error(`CRITICAL: unmakeMove found null at ${move.to.row},${move.to.col} for move ${move.notation}`);
@@ -355,21 +538,15 @@ export class MutableBoard {
                 this.board[move.to.row][move.to.col] = captured;
             }
         }
-
-        if (rookMove) {
-            const rook = this.board[rookMove.to.r][rookMove.to.c];
-            if (rook) {
-                this.board[rookMove.from.r][rookMove.from.c] = rook;
-                this.board[rookMove.to.r][rookMove.to.c] = null;
-                rook.hasMoved = rookMove.oldHasMoved;
-            }
-        }
     }
 
     clone(): MutableBoard {
-        const nb = new MutableBoard(this.board, this.turn, this.enPassantTarget);
+        const nb = new MutableBoard(this.board, this.turn, this.enPassantTarget, this.rules);
         nb.hash = this.hash;
         nb.currentScore = this.currentScore;
+        nb.halfmoveClock = this.halfmoveClock;
+        nb.keyHistory = [...this.keyHistory];
+        nb.drawClaimants = this.drawClaimants;
         return nb;
     }
 }
@@ -377,35 +554,121 @@ export class MutableBoard {
 export default class KrachtschaakAI {
     static shouldStop = false;
     static nodesVisited = 0;
+    static deadline = Infinity;
+    static nodeLimit = Infinity;
+    static rootDepth = 0;
+    // Parallel search. A helper (index > 0) sharing the main search's table starts at a different depth
+    // so the two fill it with different work; without a shared table each worker takes its share of the
+    // root moves instead.
+    static helperIndex = 0;
+    static rootSplit: { index: number, count: number } | null = null;
+    private static hashRules = '';
 
     static resetStopFlag() {
         this.shouldStop = false;
         this.nodesVisited = 0;
     }
 
+    static setHashSize(megabytes: number) {
+        TT.resize(megabytes);
+    }
+
+    static useSharedHash(buffer: SharedArrayBuffer) {
+        TT.attach(buffer);
+    }
+
+    // Forget everything learned so far, e.g. for a new game.
+    static clearHash() {
+        TT.clear();
+    }
+
+    static hashfull(): number {
+        return TT.hashfull();
+    }
+
+    static getEvalParams(): EvalParams {
+        return EVAL_PARAMS;
+    }
+
+    static setTablebase(tablebase: Tablebase | null) {
+        TABLEBASE = tablebase;
+    }
+
+    // Scores in the table were computed with the old weights, so it is cleared.
+    static setEvalParams(params: EvalParams) {
+        EVAL_PARAMS = params;
+        TT.clear();
+    }
+
+    // Polled from the search every 256 nodes, since a running depth cannot see messages.
+    static checkLimits() {
+        if ((this.nodesVisited & 255) !== 0) return;
+        if (this.nodesVisited >= this.nodeLimit || Date.now() >= this.deadline) this.shouldStop = true;
+    }
+
     static async getBestMoveIterative(
         board: BoardState,
         turn: Color,
         maxDepth: number = 99,
         onUpdate?: (results: any[], depth: number) => void,
-        multiPv: number = 1
+        multiPv: number = 1,
+        rules: RuleSet = STANDARD_RULES,
+        limits: SearchLimits = {},
+        context: SearchContext = {}
     ): Promise<any[]> {
         let bestResults: any[] = [];
 
-        TT.clear(); // Always clear TT at the start of a new analysis
+        // Entries are only valid under the rules they were searched with.
+        const rulesKey = JSON.stringify(rules);
+        if (rulesKey !== this.hashRules) {
+            TT.clear();
+            this.hashRules = rulesKey;
+        }
+        TT.newSearch();
         KILLER_MOVES.clear();
+        HISTORY.fill(0);
+        COUNTER_MOVES.fill(null);
         this.nodesVisited = 0;
         const startTime = Date.now();
+        const budget = allocateTime(limits);
+        this.deadline = budget ? startTime + budget.hard : Infinity;
+        this.nodeLimit = limits.nodes ?? Infinity;
+        const lines = Math.min(multiPv, KrachtschaakAI.rootMoves(new MutableBoard(board, turn, context.enPassantTarget || null, rules)).length);
 
-        for (let depth = 1; depth <= maxDepth; depth++) {
+        for (let depth = 1 + this.helperIndex % 2; depth <= maxDepth; depth++) {
             if (this.shouldStop) break;
 
-            const results = KrachtschaakAI.searchRoot(board, turn, depth, multiPv);
+            // Aspiration window around the last depth's scores, widened until the lines fall inside it.
+            let delta = ASPIRATION_WINDOW;
+            let alpha = -Infinity;
+            let beta = Infinity;
+            if (depth >= 4 && bestResults.length > 0 && Math.abs(bestResults[0].score) < 15000) {
+                alpha = bestResults[bestResults.length - 1].score - delta;
+                beta = bestResults[0].score + delta;
+            }
+
+            let results = KrachtschaakAI.searchRoot(board, turn, depth, multiPv, rules, alpha, beta, bestResults[0]?.move || null, context);
+            while (!this.shouldStop) {
+                const failHigh = results.length > 0 && results[0].score >= beta;
+                const failLow = results.length < lines && alpha > -Infinity;
+                if (!failHigh && !failLow) break;
+                delta *= 2;
+                if (failHigh) beta = delta > 1000 ? Infinity : results[0].score + delta;
+                if (failLow) alpha = delta > 1000 ? -Infinity : alpha - delta;
+                results = KrachtschaakAI.searchRoot(board, turn, depth, multiPv, rules, alpha, beta, results[0]?.move || bestResults[0]?.move || null, context);
+            }
+
+            if (this.shouldStop) {
+                // A depth cut short only counts when there is nothing better to answer with.
+                if (bestResults.length === 0) bestResults = results;
+                break;
+            }
             if (results.length > 0) bestResults = results;
 
             if (bestResults.length > 0 && onUpdate) {
                 onUpdate(bestResults, depth);
             }
+            if (budget && Date.now() - startTime >= budget.soft) break;
             await new Promise(resolve => setTimeout(resolve, 0));
         }
 
@@ -419,54 +682,101 @@ export default class KrachtschaakAI {
         const pv: string[] = [];
         const hashes = new Set<bigint>();
         let movesCount = 0;
-        let boardCopy = new MutableBoard(mutableBoard.board, mutableBoard.turn, mutableBoard.enPassantTarget);
+        let boardCopy = new MutableBoard(mutableBoard.board, mutableBoard.turn, mutableBoard.enPassantTarget, mutableBoard.rules);
 
         while (movesCount < maxMoves) {
             if (hashes.has(boardCopy.hash)) break;
             hashes.add(boardCopy.hash);
 
-            const entry = TT.get(boardCopy.hash);
-            if (!entry || !entry.bestMove) break;
+            const entry = TT.probe(boardCopy.hash);
+            const move = entry && entry.move ? KrachtschaakAI.generateLegalMoves(boardCopy).find(m => packMove(m) === entry.move) : null;
+            if (!move) break;
 
-            pv.push(entry.bestMove.notation);
-            boardCopy.makeMove(entry.bestMove);
+            pv.push(move.notation);
+            boardCopy.makeMove(move);
             movesCount++;
         }
         return pv;
     }
 
-    static searchRoot(board: BoardState, turn: Color, depth: number, multiPv: number = 1): { move: Move | null, score: number, pv: string[] }[] {
-        const mutableBoard = new MutableBoard(board, turn, null);
-        const moves = KrachtschaakAI.getOrderedMoves(mutableBoard, depth, null);
-        const results: { move: Move | null, score: number, pv: string[] }[] = [];
+    // Returns the best `multiPv` moves that score above `alpha`, best first, each with its win/draw/loss
+    // chances for the side to move (utils/wdl.ts). Once that many lines are known, later moves only get
+    // a null-window search against the weakest of them, and a full search when they beat it. A move
+    // scoring `beta` or more ends the search early (a fail high).
+    static searchRoot(
+        board: BoardState,
+        turn: Color,
+        depth: number,
+        multiPv: number = 1,
+        rules: RuleSet = STANDARD_RULES,
+        alpha: number = -Infinity,
+        beta: number = Infinity,
+        pvMove: Move | null = null,
+        context: SearchContext = {}
+    ): { move: Move | null, score: number, pv: string[], wdl: Wdl }[] {
+        const mutableBoard = new MutableBoard(board, turn, context.enPassantTarget || null, rules);
+        mutableBoard.halfmoveClock = context.halfmoveClock || 0;
+        mutableBoard.keyHistory = [...(context.history || [])];
+        if (context.drawClaimants) mutableBoard.drawClaimants = context.drawClaimants;
+        const share = new Set(KrachtschaakAI.rootMoves(mutableBoard).map(m => m.notation));
+        const moves = KrachtschaakAI.getOrderedMoves(mutableBoard, 0, pvMove ? packMove(pvMove) : 0, null).filter(m => share.has(m.notation));
+        const results: { move: Move | null, score: number, pv: string[], wdl: Wdl }[] = [];
+        const phase = gamePhase(board);
 
         if (moves.length === 0) return [];
+        this.rootDepth = depth;
 
         for (const move of moves) {
             if (this.shouldStop) break;
 
+            const floor = results.length >= multiPv ? Math.max(alpha, results[multiPv - 1].score) : alpha;
             const nextPv: string[] = [];
-            const nextBoard = mutableBoard.clone();
-            nextBoard.makeMove(move);
-            // We use full window for root moves in multi-pv to ensure accurate ranking
-            const score = -KrachtschaakAI.alphaBeta(nextBoard, depth - 1, -Infinity, Infinity, true, nextPv, 1);
-
-            results.push({ move, score, pv: [move.notation, ...nextPv] });
+            const undo = mutableBoard.makeMove(move);
+            let score: number;
+            if (results.length >= multiPv) {
+                score = -KrachtschaakAI.alphaBeta(mutableBoard, depth - 1, -floor - 1, -floor, true, nextPv, 1, move);
+                if (score > floor && !this.shouldStop) {
+                    nextPv.length = 0;
+                    score = -KrachtschaakAI.alphaBeta(mutableBoard, depth - 1, -beta, -floor, true, nextPv, 1, move);
+                }
+            } else {
+                score = -KrachtschaakAI.alphaBeta(mutableBoard, depth - 1, -beta, -floor, true, nextPv, 1, move);
+            }
+            mutableBoard.unmakeMove(undo);
+            // Cut off mid-move: the score is unusable, but keep one move for a search stopped at depth 1.
+            if (this.shouldStop && results.length > 0) break;
+            if (score <= floor && !this.shouldStop) continue;
+
+            results.push({ move, score, pv: [move.notation, ...nextPv], wdl: wdlFromScore(score, phase) });
+            results.sort((a, b) => b.score - a.score);
+            if (score >= beta) break;
         }
 
-        return results.sort((a, b) => b.score - a.score).slice(0, multiPv);
+        return results.slice(0, multiPv);
     }
 
-    static alphaBeta(mutableBoard: MutableBoard, depth: number, alpha: number, beta: number, allowNull: boolean, pv: string[], ply: number): number {
+    static alphaBeta(mutableBoard: MutableBoard, depth: number, alpha: number, beta: number, allowNull: boolean, pv: string[], ply: number, prevMove: Move | null = null): number {
         this.nodesVisited++;
+        this.checkLimits();
+        if (this.shouldStop) return 0;
+        if (mutableBoard.isDraw()) return 0;
+
+        // A position the tablebase covers has an exact score: its mate at the table's distance, or a draw.
+        if (ply > 0 && TABLEBASE) {
+            const known = TABLEBASE.probe(mutableBoard.board, mutableBoard.turn, mutableBoard.enPassantTarget, mutableBoard.rules);
+            if (known) return known.result === 'draw' ? 0 : known.result === 'win' ? 20000 - ply - known.plies : -20000 + ply + known.plies;
+        }
+
         const originalAlpha = alpha;
+        const isPvNode = beta - alpha > 1;
 
         const inCheck = isKingInCheck(mutableBoard.board, mutableBoard.turn);
 
-        // In-check extension: if king is in check, don't drop to quiescence search yet
+        // Check extension: a side in check is searched a ply deeper, up to twice the root depth, and never
+        // drops into quiescence search.
         let effectiveDepth = depth;
-        if (inCheck && effectiveDepth <= 0) {
-            effectiveDepth = 1;
+        if (inCheck) {
+            effectiveDepth = Math.max(1, ply < 2 * this.rootDepth ? depth + 1 : depth);
         }
 
         if (effectiveDepth <= 0) {
@@ -477,19 +787,14 @@ export default class KrachtschaakAI {
             return score;
         }
 
-        const ttEntry = TT.get(mutableBoard.hash);
-        if (ttEntry && ttEntry.depth >= effectiveDepth) {
+        // PV nodes search on past a table hit, so the principal variation comes out of the search whole.
+        const ttEntry = TT.probe(mutableBoard.hash);
+        if (ttEntry && !isPvNode && ttEntry.depth >= effectiveDepth) {
             let score = ttEntry.score;
             if (score > 15000) score -= ply;
             else if (score < -15000) score += ply;
 
-            if (ttEntry.flag === 0) {
-                if (ttEntry.pv && ttEntry.pv.length > 0) {
-                    pv.length = 0;
-                    pv.push(...ttEntry.pv);
-                }
-                return score;
-            }
+            if (ttEntry.flag === 0) return score;
             if (ttEntry.flag === 1 && score > alpha) alpha = score;
             if (ttEntry.flag === 2 && score < beta) beta = score;
             if (alpha >= beta) return score;
@@ -501,22 +806,22 @@ export default class KrachtschaakAI {
             return -20000 + ply;
         }
 
+        const staticEval = inCheck ? -Infinity : KrachtschaakAI.evaluate(mutableBoard);
+
         // Null Move Pruning
-        if (allowNull && !inCheck && effectiveDepth >= 3 && Math.abs(beta) < 15000) {
-            const staticEval = KrachtschaakAI.evaluate(mutableBoard);
-            if (staticEval >= beta) {
-                const nextBoard = mutableBoard.clone();
-                nextBoard.makeNullMove();
-                const dummyPv: string[] = [];
-                const score = -KrachtschaakAI.alphaBeta(nextBoard, effectiveDepth - 1 - 2, -beta, -beta + 1, false, dummyPv, ply + 1);
-
-                if (score >= beta) {
-                    return beta;
-                }
+        if (allowNull && !inCheck && effectiveDepth >= 3 && Math.abs(beta) < 15000 && staticEval >= beta) {
+            const undo = mutableBoard.makeNullMove();
+            const dummyPv: string[] = [];
+            const score = -KrachtschaakAI.alphaBeta(mutableBoard, effectiveDepth - 1 - 2, -beta, -beta + 1, false, dummyPv, ply + 1, null);
+            mutableBoard.unmakeNullMove(undo);
+            if (this.shouldStop) return 0;
+
+            if (score >= beta) {
+                return beta;
             }
         }
 
-        const moves = KrachtschaakAI.getOrderedMoves(mutableBoard, effectiveDepth, ttEntry?.bestMove || null);
+        const moves = KrachtschaakAI.getOrderedMoves(mutableBoard, ply, ttEntry?.move || 0, prevMove);
 
         if (moves.length === 0) {
             if (inCheck) {
@@ -527,14 +832,51 @@ export default class KrachtschaakAI {
             return 0;
         }
 
+        // Futility pruning: close to the horizon, quiet moves cannot lift a hopeless static eval to alpha.
+        const futile = !isPvNode && !inCheck && effectiveDepth < FUTILITY_MARGINS.length
+            && Math.abs(alpha) < 15000 && staticEval + FUTILITY_MARGINS[effectiveDepth] <= alpha;
+
         let bestScore = -Infinity;
         let bestMove: Move | null = null;
+        let movesSearched = 0;
+        const quietsTried: Move[] = [];
 
         for (const move of moves) {
+            const quiet = !move.captured && !move.promotion;
+            const undo = mutableBoard.makeMove(move);
+            const givesCheck = isKingInCheck(mutableBoard.board, mutableBoard.turn);
+
+            if (futile && movesSearched > 0 && quiet && !givesCheck) {
+                mutableBoard.unmakeMove(undo);
+                continue;
+            }
+
             const nextPv: string[] = [];
-            const nextBoard = mutableBoard.clone();
-            nextBoard.makeMove(move);
-            const score = -KrachtschaakAI.alphaBeta(nextBoard, effectiveDepth - 1, -beta, -alpha, true, nextPv, ply + 1);
+            let score: number;
+            if (movesSearched === 0) {
+                score = -KrachtschaakAI.alphaBeta(mutableBoard, effectiveDepth - 1, -beta, -alpha, true, nextPv, ply + 1, move);
+            } else {
+                // Late move reductions: quiet moves ordered late are searched shallower first.
+                let reduction = 0;
+                if (quiet && !inCheck && !givesCheck && effectiveDepth >= LMR_MIN_DEPTH && movesSearched >= LMR_MIN_MOVES) {
+                    reduction = Math.floor(0.75 + Math.log(effectiveDepth) * Math.log(movesSearched) / 2.25);
+                    if (isPvNode) reduction--;
+                    reduction = Math.max(0, Math.min(reduction, effectiveDepth - 2));
+                }
+                // Principal variation search: a null window proves the move is no better than alpha.
+                score = -KrachtschaakAI.alphaBeta(mutableBoard, effectiveDepth - 1 - reduction, -alpha - 1, -alpha, true, nextPv, ply + 1, move);
+                if (score > alpha && reduction > 0 && !this.shouldStop) {
+                    score = -KrachtschaakAI.alphaBeta(mutableBoard, effectiveDepth - 1, -alpha - 1, -alpha, true, nextPv, ply + 1, move);
+                }
+                if (score > alpha && score < beta && !this.shouldStop) {
+                    nextPv.length = 0;
+                    score = -KrachtschaakAI.alphaBeta(mutableBoard, effectiveDepth - 1, -beta, -alpha, true, nextPv, ply + 1, move);
+                }
+            }
+            mutableBoard.unmakeMove(undo);
+            // An interrupted subtree returns nothing meaningful; leave the TT alone.
+            if (this.shouldStop) return 0;
+            movesSearched++;
 
             if (score > bestScore) {
                 bestScore = score;
@@ -547,16 +889,21 @@ export default class KrachtschaakAI {
             if (score > alpha) alpha = score;
 
             if (alpha >= beta) {
-                if (!move.captured) {
-                    if (!KILLER_MOVES.has(depth)) KILLER_MOVES.set(depth, []);
-                    const killers = KILLER_MOVES.get(depth)!;
+                if (quiet) {
+                    if (!KILLER_MOVES.has(ply)) KILLER_MOVES.set(ply, []);
+                    const killers = KILLER_MOVES.get(ply)!;
                     if (!killers.some(k => k.notation === move.notation)) {
                         killers.push(move);
                         if (killers.length > 2) killers.shift();
                     }
+                    const bonus = Math.min(effectiveDepth * effectiveDepth, 400);
+                    updateHistory(move, bonus);
+                    quietsTried.forEach(m => updateHistory(m, -bonus));
+                    if (prevMove) COUNTER_MOVES[moveIndex(prevMove)] = move;
                 }
                 break;
             }
+            if (quiet) quietsTried.push(move);
         }
 
         let flag: 0 | 1 | 2 = 0;
@@ -567,19 +914,15 @@ export default class KrachtschaakAI {
         if (ttScore > 15000) ttScore += ply;
         else if (ttScore < -15000) ttScore -= ply;
 
-        TT.set(mutableBoard.hash, {
-            depth: effectiveDepth,
-            score: ttScore,
-            flag,
-            bestMove,
-            pv: flag === 0 ? [...pv] : undefined
-        });
+        TT.store(mutableBoard.hash, effectiveDepth, ttScore, flag, bestMove && flag !== 2 ? packMove(bestMove) : 0);
 
         return bestScore;
     }
 
     static quiescenceSearch(mutableBoard: MutableBoard, alpha: number, beta: number): number {
         this.nodesVisited++;
+        this.checkLimits();
+        if (this.shouldStop) return 0;
 
         const myKing = findKingPosition(mutableBoard.board, mutableBoard.turn);
         if (!myKing) return -19500; // Very bad but not a "forced mate" score from search perspective
@@ -588,8 +931,9 @@ export default class KrachtschaakAI {
         if (standPat >= beta) return beta;
         if (alpha < standPat) alpha = standPat;
 
+        // Captures that lose material once the exchange on their square is played out are left out.
         const allMoves = KrachtschaakAI.generateLegalMoves(mutableBoard);
-        const captures = allMoves.filter(m => m.captured);
+        const captures = allMoves.filter(m => m.captured && !KrachtschaakAI.isLosingCapture(mutableBoard, m));
 
         captures.sort((a, b) => {
             const scoreA = PIECE_VALUES[a.captured!] || 0;
@@ -598,9 +942,10 @@ export default class KrachtschaakAI {
         });
 
         for (const move of captures) {
-            const nextBoard = mutableBoard.clone();
-            nextBoard.makeMove(move);
-            const score = -KrachtschaakAI.quiescenceSearch(nextBoard, -beta, -alpha);
+            const undo = mutableBoard.makeMove(move);
+            const score = -KrachtschaakAI.quiescenceSearch(mutableBoard, -beta, -alpha);
+            mutableBoard.unmakeMove(undo);
+            if (this.shouldStop) return 0;
 
             if (score >= beta) return beta;
             if (score > alpha) alpha = score;
@@ -609,89 +954,179 @@ export default class KrachtschaakAI {
         return alpha;
     }
 
-    static getOrderedMoves(mutableBoard: MutableBoard, depth: number, ttBestMove: Move | null): Move[] {
+    static getOrderedMoves(mutableBoard: MutableBoard, ply: number, ttMove: number, prevMove: Move | null): Move[] {
         const allMoves = KrachtschaakAI.generateLegalMoves(mutableBoard);
+        const killers = KILLER_MOVES.get(ply);
+        const counter = prevMove ? COUNTER_MOVES[moveIndex(prevMove)] : null;
 
         return allMoves.map(move => {
             let score = 0;
-            if (ttBestMove && move.notation === ttBestMove.notation) score += 10000;
+            if (ttMove && packMove(move) === ttMove) score += 10000;
             if (move.captured) {
                 const victimValue = PIECE_VALUES[move.captured] || 100;
                 const aggressorValue = PIECE_VALUES[move.piece] || 100;
-                score += 1000 + victimValue - (aggressorValue / 100);
-            }
-            const killers = KILLER_MOVES.get(depth);
-            if (killers && killers.some(k => k.notation === move.notation)) {
-                score += 900;
+                // Losing captures go after the killer and counter moves.
+                score += KrachtschaakAI.isLosingCapture(mutableBoard, move) ? 600 + victimValue / 100 : 1000 + victimValue - (aggressorValue / 100);
+            } else {
+                if (killers && killers.some(k => k.notation === move.notation)) score += 900;
+                else if (counter && counter.notation === move.notation) score += 800;
+                score += HISTORY[moveIndex(move)] * 400 / HISTORY_MAX;
             }
-            if (move.isForcePower) score += 500;
+            if (move.powerConsumed) score += 500;
             return { move, score };
         }).sort((a, b) => b.score - a.score).map(x => x.move);
     }
 
-    static generateLegalMoves(mutableBoard: MutableBoard): Move[] {
-        const board = mutableBoard.board;
-        const color = mutableBoard.turn;
-        const legalMoves: Move[] = [];
-        const ep = mutableBoard.enPassantTarget;
-
-        for (let r = 0; r < 8; r++) {
-            for (let c = 0; c < 8; c++) {
-                const p = board[r][c];
-                if (!p || p.color !== color) continue;
+    // Whether a capture loses material by static exchange (see utils/see.ts), powers gained included.
+    static isLosingCapture(mutableBoard: MutableBoard, move: Move): boolean {
+        return staticExchange(mutableBoard.board, intentFromRecord(move), mutableBoard.enPassantTarget, mutableBoard.rules, EVAL_PARAMS) < 0;
+    }
 
-                const pos = { row: r, col: c };
-                // getValidMoves with allowSelfCheck = true (pseudo-legal)
-                const targets = getValidMoves(board, pos, ep, true);
+    // Proves the shortest forced win for `turn` in at most `maxMoves` of its moves, by depth-first proof search
+    // with a table of proved and refuted positions, and lays out the whole solution. A defence that leaves the
+    // king en prise loses it at once, so defences are the strict moves; a king already en prise is captured
+    // in one.
+    static solve(
+        board: BoardState,
+        turn: Color,
+        maxMoves: number,
+        rules: RuleSet = STANDARD_RULES,
+        limits: SearchLimits = {},
+        context: SearchContext = {},
+        onDepth?: (moves: number) => void
+    ): SolveResult {
+        const mutableBoard = new MutableBoard(board, turn, context.enPassantTarget || null, rules);
+        mutableBoard.halfmoveClock = context.halfmoveClock || 0;
+        mutableBoard.keyHistory = [...(context.history || [])];
+        // The winning side plays on; only the defence claims draws.
+        mutableBoard.drawClaimants = [opponentOf(turn)];
+        this.provedWins.clear();
+        this.refutedWins.clear();
+        this.nodesVisited = 0;
+        const budget = allocateTime(limits);
+        this.deadline = budget ? Date.now() + budget.hard : Infinity;
+        this.nodeLimit = limits.nodes ?? Infinity;
+
+        for (let moves = 1; moves <= maxMoves; moves++) {
+            onDepth?.(moves);
+            const won = KrachtschaakAI.forcesWin(mutableBoard, moves);
+            if (this.shouldStop) return { moves: null, solution: null, nodes: this.nodesVisited, complete: false };
+            if (!won) continue;
+            // The limits stay in force while the solution is laid out. Once they run out, only what the
+            // tables have proved goes in: the proof's own line against every defence, without the searches
+            // for faster or alternative moves that were still to come.
+            const solution = KrachtschaakAI.solutionNode(mutableBoard, moves);
+            return { moves, solution, nodes: this.nodesVisited, complete: !this.shouldStop };
+        }
+        return { moves: null, solution: null, nodes: this.nodesVisited, complete: true };
+    }
 
-                for (const target of targets) {
-                    const targetPiece = board[target.row][target.col];
-                    if (targetPiece && targetPiece.color === color) continue;
+    // Fewest moves each position is proved won in for the side to move, and most it is proved not won in.
+    private static provedWins = new Map<bigint, number>();
+    private static refutedWins = new Map<bigint, number>();
 
-                    const isPower = isPowerMove(board, pos, target, ep);
-                    const captured = targetPiece ? (targetPiece.isKing || targetPiece.originalType === PieceType.King ? PieceType.King : targetPiece.type) : undefined;
+    // Whether the side to move wins within `moves` of its moves whatever the defence.
+    static forcesWin(mutableBoard: MutableBoard, moves: number): boolean {
+        this.nodesVisited++;
+        this.checkLimits();
+        if (mutableBoard.isDraw()) return false;
+        // The tables still answer once the limits have run out, which solve relies on.
+        const { hash } = mutableBoard;
+        if ((this.provedWins.get(hash) ?? Infinity) <= moves) return true;
+        if ((this.refutedWins.get(hash) ?? 0) >= moves) return false;
+        if (this.shouldStop) return false;
+
+        // Checks first, then captures: the moves that leave the defence least choice.
+        const candidates = KrachtschaakAI.generateLegalMoves(mutableBoard).map(move => {
+            const undo = mutableBoard.makeMove(move);
+            const rank = (isKingInCheck(mutableBoard.board, mutableBoard.turn) ? 2 : 0) + (move.captured ? 1 : 0);
+            mutableBoard.unmakeMove(undo);
+            return { move, rank };
+        }).sort((a, b) => b.rank - a.rank);
+
+        let won = false;
+        for (const { move, rank } of candidates) {
+            // With one move left only a check, or the capture of a king left en prise, can win.
+            if (moves === 1 && rank === 0) break;
+            const undo = mutableBoard.makeMove(move);
+            won = KrachtschaakAI.winsAfter(mutableBoard, moves);
+            mutableBoard.unmakeMove(undo);
+            if (won || this.shouldStop) break;
+        }
+        if (this.shouldStop) return false;
+        if (won) this.provedWins.set(hash, moves);
+        else this.refutedWins.set(hash, moves);
+        return won;
+    }
 
-                    // Power acquisition: gains originalType of captured piece (except King)
-                    let capForPower = targetPiece;
-                    if (!targetPiece && (p.type === PieceType.Pawn || p.power === PieceType.Pawn) && ep && target.row === ep.row && target.col === ep.col) {
-                        capForPower = board[pos.row][target.col];
-                    }
+    // Whether the move just made wins within `moves` of the winning side's moves, itself included: it
+    // captures the king, mates, or leaves every defence a win in one move fewer.
+    static winsAfter(mutableBoard: MutableBoard, moves: number): boolean {
+        if (!findKingPosition(mutableBoard.board, mutableBoard.turn)) return true;
+        if (mutableBoard.isDraw()) return false;
+        const defences = KrachtschaakAI.generateLegalMoves(mutableBoard);
+        if (defences.length === 0) return isKingInCheck(mutableBoard.board, mutableBoard.turn);
+        if (moves === 1) return false;
+        for (const defence of defences) {
+            const undo = mutableBoard.makeMove(defence);
+            const won = KrachtschaakAI.forcesWin(mutableBoard, moves - 1);
+            mutableBoard.unmakeMove(undo);
+            if (!won) return false;
+        }
+        return true;
+    }
 
-                    const acqPower = (capForPower && capForPower.originalType !== PieceType.King) ? capForPower.originalType : null;
-                    const finalAfterPower = acqPower !== null ? acqPower : (isPower ? null : p.power);
-
-                    const promRank = color === Color.White ? 0 : 7;
-                    const isProm = ((p.type === PieceType.Pawn || p.power === PieceType.Pawn) && target.row === promRank) ||
-                        (capForPower && capForPower.originalType === PieceType.Pawn && target.row === promRank);
-
-                    if (isProm) {
-                        for (const promType of [PieceType.Queen, PieceType.Rook, PieceType.Bishop, PieceType.Knight]) {
-                            const m: Move = {
-                                from: pos, to: target, piece: p.type, color: p.color,
-                                captured, isForcePower: isPower, promotion: promType, afterPower: finalAfterPower,
-                                notation: getNotation(board, pos, target, p, targetPiece, promType, isPower)
-                            };
-                            const undo = mutableBoard.makeMove(m);
-                            if (!isKingInCheck(mutableBoard.board, color)) legalMoves.push(m);
-                            mutableBoard.unmakeMove(undo);
-                        }
-                    } else {
-                        const m: Move = {
-                            from: pos, to: target, piece: p.type, color: p.color,
-                            captured, isForcePower: isPower, afterPower: finalAfterPower,
-                            notation: getNotation(board, pos, target, p, targetPiece, null, isPower)
-                        };
-                        const undo = mutableBoard.makeMove(m);
-                        if (!isKingInCheck(mutableBoard.board, color)) legalMoves.push(m);
-                        mutableBoard.unmakeMove(undo);
-                    }
-                }
+    // The fastest winning move in a position proved won within `moves`, the other moves that win as fast,
+    // and the solution after each defence. Null only when the limits ran out before a winning
+    // move here was known.
+    private static solutionNode(mutableBoard: MutableBoard, moves: number): SolutionNode | null {
+        const winning: { move: Move, moves: number }[] = [];
+        for (const move of KrachtschaakAI.generateLegalMoves(mutableBoard)) {
+            const undo = mutableBoard.makeMove(move);
+            let fastest = 0;
+            for (let n = 1; n <= moves && !fastest; n++) {
+                if (KrachtschaakAI.winsAfter(mutableBoard, n)) fastest = n;
+            }
+            mutableBoard.unmakeMove(undo);
+            if (fastest) winning.push({ move, moves: fastest });
+        }
+        if (winning.length === 0) return null;
+        const best = winning.reduce((a, b) => b.moves < a.moves ? b : a);
+
+        const undo = mutableBoard.makeMove(best.move);
+        let ends: SolutionNode['ends'] = null;
+        const defences: SolutionNode['defences'] = [];
+        if (!findKingPosition(mutableBoard.board, mutableBoard.turn)) {
+            ends = 'kingCaptured';
+        } else {
+            const replies = KrachtschaakAI.generateLegalMoves(mutableBoard);
+            if (replies.length === 0) ends = 'checkmate';
+            for (const reply of replies) {
+                const replyUndo = mutableBoard.makeMove(reply);
+                const answer = KrachtschaakAI.solutionNode(mutableBoard, best.moves - 1);
+                if (answer) defences.push({ move: reply, answer });
+                mutableBoard.unmakeMove(replyUndo);
             }
         }
-        return legalMoves;
+        mutableBoard.unmakeMove(undo);
+        defences.sort((a, b) => b.answer.moves - a.answer.moves);
+        return { move: best.move, moves: best.moves, ends, alternatives: winning.filter(w => w !== best && w.moves === best.moves).map(w => w.move), defences };
+    }
+
+    // The root moves this worker searches: all of them, or its share under rootSplit.
+    static rootMoves(mutableBoard: MutableBoard): Move[] {
+        const moves = KrachtschaakAI.generateLegalMoves(mutableBoard);
+        const split = this.rootSplit;
+        return split ? moves.filter((_, i) => i % split.count === split.index) : moves;
+    }
+
+    static generateLegalMoves(mutableBoard: MutableBoard): Move[] {
+        // Same move resolution as the game itself; the search only drops moves that leave the king en prise.
+        return generateMoves(mutableBoard.board, mutableBoard.turn, mutableBoard.enPassantTarget, true, mutableBoard.rules).map(m => m.resolution.record);
     }
 
     static evaluate(mutableBoard: MutableBoard): number {
-        return mutableBoard.currentScore * (mutableBoard.turn === Color.White ? 1 : -1);
+        const material = mutableBoard.currentScore * (mutableBoard.turn === Color.White ? 1 : -1);
+        return material + positionalScore(mutableBoard.board, mutableBoard.turn, mutableBoard.rules, EVAL_PARAMS);
     }
 }
\ No newline at end of file
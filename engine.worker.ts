@@ -1,21 +1,64 @@
 import KrachtschaakAI from './engine';
+import { loadTablebase } from './utils/tablebase';
+
+// Worker listens for start/stop/newgame messages and runs iterative deepening. `limits` (SearchLimits) adds
+// a time or node budget to `maxDepth`; `context` (SearchContext) carries en passant, the fifty-move count
+// and the earlier positions. The worker keeps its transposition table between searches, so a
+// caller that keeps one worker per game or analysis gets faster as it goes; `newgame` clears it.
+// Under an engine coordinator a start also names the worker's part (`helper`, `split`), and `sharedhash`
+// hands it the table it shares with the others. Updates report the worker's own nodes and nps.
+// `solve` proves the shortest forced win within `maxMoves` (KrachtschaakAI.solve), reporting each move count
+// it starts on and then the solution; it runs to the end, so a caller stops it by terminating the worker.
+// Endgame tables, where the app has any, join the search once they have loaded.
+loadTablebase().then(tablebase => { if (tablebase.maxPieces > 0) KrachtschaakAI.setTablebase(tablebase); });
+
+let latestRequestId: unknown = null;
+let running: Promise<void> = Promise.resolve();
 
-// Worker listens for start/stop messages and runs iterative deepening.
 self.addEventListener('message', async (e: MessageEvent) => {
     const data = e.data || {};
     const type = data.type;
 
     if (type === 'start') {
         const { board, turn, maxDepth, requestId } = data;
-        KrachtschaakAI.resetStopFlag();
+        // A new request supersedes the running search; it starts once that one has unwound.
+        latestRequestId = requestId;
+        KrachtschaakAI.shouldStop = true;
+        const previous = running;
+        running = (async () => {
+            await previous;
+            if (latestRequestId !== requestId) return;
+            KrachtschaakAI.resetStopFlag();
+            KrachtschaakAI.helperIndex = data.helper || 0;
+            KrachtschaakAI.rootSplit = data.split || null;
+            const started = Date.now();
+            const stats = () => {
+                const nodes = KrachtschaakAI.nodesVisited;
+                return { nodes, nps: Math.round(nodes * 1000 / Math.max(1, Date.now() - started)) };
+            };
 
-        try {
-            const results = await (KrachtschaakAI as any).getBestMoveIterative(board, turn, maxDepth, (bestResults: any[], depth: number) => {
-                // send intermediate updates
-                (self as any).postMessage({ type: 'update', results: bestResults, depth, requestId });
-            }, data.multiPv || 1);
+            try {
+                const results = await (KrachtschaakAI as any).getBestMoveIterative(board, turn, maxDepth, (bestResults: any[], depth: number) => {
+                    // send intermediate updates
+                    (self as any).postMessage({ type: 'update', results: bestResults, depth, requestId, ...stats() });
+                }, data.multiPv || 1, data.rules, data.limits, data.context);
+
+                (self as any).postMessage({ type: 'done', results, requestId, ...stats() });
+            } catch (err) {
+                (self as any).postMessage({ type: 'error', error: String(err), requestId });
+            }
+        })();
+    }
 
-            (self as any).postMessage({ type: 'done', results, requestId });
+    if (type === 'solve') {
+        const { board, turn, maxMoves, requestId } = data;
+        await running;
+        KrachtschaakAI.resetStopFlag();
+        try {
+            const result = KrachtschaakAI.solve(board, turn, maxMoves, data.rules, data.limits, data.context, moves => {
+                (self as any).postMessage({ type: 'solving', moves, requestId, nodes: KrachtschaakAI.nodesVisited });
+            });
+            (self as any).postMessage({ type: 'solved', result, requestId });
         } catch (err) {
             (self as any).postMessage({ type: 'error', error: String(err), requestId });
         }
@@ -25,6 +68,16 @@ self.addEventListener('message', async (e: MessageEvent) => {
         KrachtschaakAI.shouldStop = true;
         (self as any).postMessage({ type: 'stopped', requestId: data.requestId });
     }
+
+    if (type === 'newgame') {
+        await running;
+        KrachtschaakAI.clearHash();
+    }
+
+    if (type === 'sharedhash') {
+        await running;
+        KrachtschaakAI.useSharedHash(data.buffer);
+    }
 });
 
 export { };
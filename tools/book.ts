@@ -0,0 +1,59 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { readGameArchive } from '../utils/gameArchive';
+import { bookMoves, buildBook, DEFAULT_BOOK_OPTIONS, OpeningBook, writeBook } from '../utils/openingBook';
+import { createGameState, gameRules } from '../utils/rules';
+import { formatUciMove } from '../utils/uci';
+
+// Usage:
+//   npm run book -- <games.json|games.pgn>... [options]   build a book from finished games (see utils/gameArchive.ts)
+//     --out <file>         where to write it (default public/openings.kbook, where the app looks)
+//     --max-ply <n>        plies of each game to take in (default 24)
+//     --min-games <n>      games a move must have been played in (default 3)
+//     --min-score <x>      the mover's least average score with a move, 0 to 1 (default 0.4)
+//   npm run book -- --show <book> ["<kFen>"]                the book moves in a position (default the start)
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+const options: Record<string, string> = {};
+for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? '';
+    else files.push(args[i]);
+}
+
+const readBook = (file: string): OpeningBook => {
+    const bytes = readFileSync(file);
+    return new OpeningBook(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+const show = (): boolean => {
+    const book = readBook(options.show);
+    const state = createGameState(files[0]);
+    const moves = bookMoves(book, state.board, state.turn, state.enPassantTarget, gameRules(state));
+    console.log(`${book.size} entries`);
+    if (moves.length === 0) console.log('position not in book');
+    for (const m of moves) {
+        console.log(`${formatUciMove(m.move.intent).padEnd(12)} ${m.move.resolution.record.notation.padEnd(12)} weight ${`${m.weight}`.padStart(6)}  ${(m.share * 100).toFixed(1)}%`);
+    }
+    return true;
+};
+
+const build = (): boolean => {
+    if (files.length === 0) {
+        console.error('usage: npm run book -- <games.json|games.pgn>... [--out file] [--max-ply n] [--min-games n] [--min-score x]');
+        return false;
+    }
+    const games = files.flatMap(file => readGameArchive(readFileSync(file, 'utf8'), file.toLowerCase().endsWith('.pgn')));
+    console.log(`${games.length} finished games`);
+    const entries = buildBook(games, {
+        maxPly: options['max-ply'] ? parseInt(options['max-ply']) : DEFAULT_BOOK_OPTIONS.maxPly,
+        minGames: options['min-games'] ? parseInt(options['min-games']) : DEFAULT_BOOK_OPTIONS.minGames,
+        minScore: options['min-score'] ? parseFloat(options['min-score']) : DEFAULT_BOOK_OPTIONS.minScore,
+    });
+    const positions = new Set(entries.map(e => e.key)).size;
+    const out = options.out || 'public/openings.kbook';
+    writeFileSync(out, writeBook(entries));
+    console.log(`wrote ${out}: ${entries.length} moves in ${positions} positions`);
+    return true;
+};
+
+process.exitCode = (options.show !== undefined ? show() : build()) ? 0 : 1;
@@ -0,0 +1,58 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { inflateSync } from 'zlib';
+import KrachtschaakAI from '../engine';
+import { mergeEvalParams } from '../utils/evaluation';
+import { OpeningBook } from '../utils/openingBook';
+import { readTableFile, Tablebase } from '../utils/tablebase';
+import { createUciSession } from '../utils/uci';
+
+// Usage:
+//   npm run engine              speak the UCI-style protocol of utils/uci.ts on stdin/stdout
+//                               (`eval` after `position` prints the evaluation term by term)
+//   npm run engine -- --params <file>   the same with evaluation weights from a file, e.g. from `npm run tune`
+//   npm run engine -- --book <file>     the same, answering from an opening book (`npm run book`) while in it
+//   npm run engine -- --tablebase <dir> the same, looking endgames up in the tables there (`npm run tablebase`)
+//   npm run engine -- --level <n>       the same, playing as level n of the app's computer (option Level)
+//
+// Example session:
+//   position kfen r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1 moves e1g1
+//   go depth 4
+
+// stdout carries the protocol only; the engine's own progress logging goes to stderr.
+console.log = console.error;
+
+const paramsAt = process.argv.indexOf('--params');
+if (paramsAt !== -1) KrachtschaakAI.setEvalParams(mergeEvalParams(JSON.parse(readFileSync(process.argv[paramsAt + 1], 'utf8'))));
+
+const bookAt = process.argv.indexOf('--book');
+const bookBytes = bookAt !== -1 ? readFileSync(process.argv[bookAt + 1]) : null;
+const book = bookBytes ? new OpeningBook(bookBytes.buffer.slice(bookBytes.byteOffset, bookBytes.byteOffset + bookBytes.byteLength)) : null;
+
+const tablebaseAt = process.argv.indexOf('--tablebase');
+if (tablebaseAt !== -1) {
+    const dir = process.argv[tablebaseAt + 1];
+    const tablebase = new Tablebase();
+    for (const name of readdirSync(dir).filter(f => f.endsWith('.ktb'))) {
+        const bytes = readFileSync(join(dir, name));
+        tablebase.add(readTableFile(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), inflateSync));
+    }
+    KrachtschaakAI.setTablebase(tablebase);
+}
+
+const session = createUciSession(line => process.stdout.write(`${line}\n`), book);
+const levelAt = process.argv.indexOf('--level');
+if (levelAt !== -1) session.handle(`setoption name Level value ${process.argv[levelAt + 1]}`);
+const input = createInterface({ input: process.stdin, terminal: false });
+
+input.on('line', line => {
+    if (line.trim() === 'quit') process.exit(0);
+    session.handle(line);
+});
+
+// Let a running search report its bestmove before exiting on end of input.
+input.on('close', () => {
+    const exitWhenIdle = () => session.isSearching() ? setTimeout(exitWhenIdle, 10) : process.exit(0);
+    exitWhenIdle();
+});
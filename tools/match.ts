@@ -0,0 +1,161 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { createInterface } from 'readline';
+import {
+    bench, DEFAULT_SPRT_OPTIONS, eloDifference, MATCH_OPENINGS, MatchPlayer, MatchScore, openingFromSan, playMatchGame,
+    sprt
+} from '../utils/match';
+import { writePgn } from '../utils/pgn';
+import { STANDARD_RULES } from '../utils/rules';
+import { GoLimits } from '../utils/uci';
+
+// Usage:
+//   npm run match -- [options]    play two engine commands against each other, each opening with both colours
+//     --a <command>        the engine under test (default `npx tsx tools/engine.ts`), e.g. with --params <file>
+//     --b <command>        the engine it is measured against (default the same command)
+//     --a-name, --b-name   names for the PGN (default A and B)
+//     --nodes <n>          nodes per move (default 5000), or
+//     --movetime <ms>      time per move, or
+//     --depth <n>          depth per move
+//     --openings <file>    one KFen per line (default ten short openings)
+//     --games <n>          games to play (default two per opening); more go round the openings again
+//     --max-plies <n>      adjudicate a game this long as a draw (default 300)
+//     --elo0, --elo1       the SPRT hypotheses, in Elo of A over B (default 0 and 10)
+//     --alpha, --beta      the SPRT error rates (default 0.05 each); the match stops at a verdict
+//     --pgn <file>         write the games there as they finish
+//   npm run bench -- [--depth <n>]    nodes searched in a fixed set of positions (default depth 4)
+//
+// To test a change, point --b at a checkout of the code before it, e.g. `npx tsx ../base/tools/engine.ts`.
+
+const args = process.argv.slice(2);
+const options: Record<string, string> = {};
+for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--bench') options.bench = 'true';
+    else if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? '';
+}
+
+const DEFAULT_ENGINE = 'npx tsx tools/engine.ts';
+
+// The engine's own progress logging goes to stderr, so stdout carries the report only.
+const print = console.log;
+console.log = console.error;
+
+// An engine process, one line of the protocol at a time.
+const startEngine = async (name: string, command: string): Promise<MatchPlayer & { quit: () => void }> => {
+    const child: ChildProcessWithoutNullStreams = spawn(command, { shell: true });
+    child.stderr.resume();
+    const lines = createInterface({ input: child.stdout });
+    let waiting: { test: (line: string) => boolean, resolve: (line: string) => void } | null = null;
+    lines.on('line', line => {
+        if (waiting && waiting.test(line)) {
+            const { resolve } = waiting;
+            waiting = null;
+            resolve(line);
+        }
+    });
+    child.on('exit', code => {
+        if (waiting) waiting.resolve('');
+        if (code) console.error(`${name} exited with code ${code}`);
+    });
+    const send = (line: string) => child.stdin.write(`${line}\n`);
+    const expect = (prefix: string) => new Promise<string>(resolve => {
+        waiting = { test: line => line.startsWith(prefix), resolve };
+    });
+
+    const ready = expect('uciok');
+    send('uci');
+    await ready;
+    return {
+        name,
+        newGame: async () => {
+            const done = expect('readyok');
+            send('ucinewgame');
+            send('isready');
+            await done;
+        },
+        bestMove: async (kFen: string, moves: string[], limits: GoLimits) => {
+            const answer = expect('bestmove');
+            send(`position kfen ${kFen}${moves.length > 0 ? ` moves ${moves.join(' ')}` : ''}`);
+            send(`go ${Object.entries(limits).map(([key, value]) => `${key} ${value}`).join(' ')}`);
+            const move = (await answer).split(/\s+/)[1];
+            return !move || move === '(none)' ? null : move;
+        },
+        quit: () => {
+            send('quit');
+            child.stdin.end();
+        },
+    };
+};
+
+const readOpenings = (): string[] => {
+    if (!options.openings) return MATCH_OPENINGS.map(line => openingFromSan(line));
+    return readFileSync(options.openings, 'utf8').split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+};
+
+const formatScore = (score: MatchScore): string => {
+    const games = score.wins + score.draws + score.losses;
+    const points = score.wins + score.draws / 2;
+    const { elo, margin } = eloDifference(score);
+    return `+${score.wins} =${score.draws} -${score.losses}  ${points}/${games} (${(100 * points / Math.max(1, games)).toFixed(1)}%)  Elo ${elo >= 0 ? '+' : ''}${elo.toFixed(1)} ± ${Number.isFinite(margin) ? margin.toFixed(1) : '∞'}`;
+};
+
+const match = async (): Promise<boolean> => {
+    const limits: GoLimits = options.movetime ? { movetime: parseInt(options.movetime) }
+        : options.depth ? { depth: parseInt(options.depth) }
+            : { nodes: parseInt(options.nodes) || 5000 };
+    const sprtOptions = {
+        elo0: options.elo0 ? parseFloat(options.elo0) : DEFAULT_SPRT_OPTIONS.elo0,
+        elo1: options.elo1 ? parseFloat(options.elo1) : DEFAULT_SPRT_OPTIONS.elo1,
+        alpha: options.alpha ? parseFloat(options.alpha) : DEFAULT_SPRT_OPTIONS.alpha,
+        beta: options.beta ? parseFloat(options.beta) : DEFAULT_SPRT_OPTIONS.beta,
+    };
+    const openings = readOpenings();
+    const totalGames = parseInt(options.games) || openings.length * 2;
+    const maxPlies = parseInt(options['max-plies']) || 300;
+
+    const a = await startEngine(options['a-name'] || 'A', options.a || DEFAULT_ENGINE);
+    const b = await startEngine(options['b-name'] || 'B', options.b || DEFAULT_ENGINE);
+    if (options.pgn) writeFileSync(options.pgn, '');
+    const score: MatchScore = { wins: 0, draws: 0, losses: 0 };
+    try {
+        for (let round = 1; round <= totalGames; round++) {
+            const kFen = openings[Math.floor((round - 1) / 2) % openings.length];
+            // A takes White in odd rounds and Black in even ones, so each opening is played both ways.
+            const aIsWhite = round % 2 === 1;
+            const game = await playMatchGame(aIsWhite ? a : b, aIsWhite ? b : a, kFen, { limits, maxPlies, rules: STANDARD_RULES }, round);
+            const aScore = aIsWhite ? game.result : 1 - game.result;
+            if (aScore === 1) score.wins++;
+            else if (aScore === 0) score.losses++;
+            else score.draws++;
+            if (options.pgn) appendFileSync(options.pgn, `${writePgn(game.pgn)}\n`);
+
+            const test = sprt(score, sprtOptions);
+            print(`game ${round}/${totalGames}: ${game.pgn.tags.White} - ${game.pgn.tags.Black} ${game.pgn.result} (${game.termination}, ${game.state.moveHistory?.length || 0} plies)`);
+            print(`  ${a.name} vs ${b.name}: ${formatScore(score)}  LLR ${test.llr.toFixed(2)} (${test.lower.toFixed(2)}, ${test.upper.toFixed(2)})`);
+            if (test.verdict) break;
+        }
+    } finally {
+        a.quit();
+        b.quit();
+    }
+
+    const test = sprt(score, sprtOptions);
+    print(`\n${a.name} vs ${b.name}: ${formatScore(score)}`);
+    print(`SPRT elo0 ${sprtOptions.elo0} elo1 ${sprtOptions.elo1}: LLR ${test.llr.toFixed(2)} (${test.lower.toFixed(2)}, ${test.upper.toFixed(2)}) `
+        + (test.verdict === 'H1' ? `- ${a.name} is stronger` : test.verdict === 'H0' ? `- ${a.name} is not stronger` : '- inconclusive'));
+    return true;
+};
+
+const runBench = async (): Promise<boolean> => {
+    const depth = parseInt(options.depth) || 4;
+    let nodes = 0, ms = 0;
+    await bench(depth, undefined, result => {
+        nodes += result.nodes;
+        ms += result.ms;
+        print(`${`${result.nodes}`.padStart(10)} nodes ${`${result.ms}`.padStart(7)} ms  ${result.kFen}`);
+    });
+    print(`\n${nodes} nodes ${Math.round(nodes * 1000 / Math.max(1, ms))} nps`);
+    return true;
+};
+
+(options.bench ? runBench() : match()).then(ok => { process.exitCode = ok ? 0 : 1; });
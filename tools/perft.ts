@@ -0,0 +1,63 @@
+import { checkPerft, checkRoundTrips, divide, perft, PERFT_SUITE } from '../utils/perft';
+import { PLAIN_CHESS_RULES, STANDARD_RULES } from '../utils/rules';
+
+// Usage:
+//   npm run perft                          run the curated suite against the expected node counts, and
+//                                          round-trip KFen, SAN and PGN over its first two plies
+//   npm run perft -- --check               also cross-check move generation and make/unmake at every node
+//   npm run perft -- "<kFen>" 3            node count for one position
+//   npm run perft -- "<kFen>" 3 --divide   node count per root move
+//   npm run perft -- "<kFen>" 3 --no-powers   either of these without powers, i.e. in orthodox chess
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter(a => a.startsWith('--')));
+const [kFen, depthArg] = args.filter(a => !a.startsWith('--'));
+
+const runSuite = (): boolean => {
+    let ok = true;
+    for (const test of PERFT_SUITE) {
+        for (let depth = 1; depth <= test.nodes.length; depth++) {
+            const expected = test.nodes[depth - 1];
+            const started = Date.now();
+            const nodes = perft(test.kFen, depth, test.rules);
+            const passed = nodes === expected;
+            ok = ok && passed;
+            console.log(`${passed ? 'ok  ' : 'FAIL'} ${test.name} depth ${depth}: ${nodes}${passed ? '' : ` (expected ${expected})`} [${Date.now() - started} ms]`);
+        }
+        const roundTrips = checkRoundTrips(test.kFen, Math.min(2, test.nodes.length), test.rules);
+        for (const m of roundTrips.mismatches.slice(0, 10)) {
+            console.log(`FAIL ${test.name} ${m.path.join(' ')}: ${m.message}`);
+        }
+        if (roundTrips.mismatches.length === 0) console.log(`ok   ${test.name}: KFen, SAN and PGN round trips`);
+        ok = ok && roundTrips.mismatches.length === 0;
+        if (flags.has('--check')) {
+            const report = checkPerft(test.kFen, Math.min(2, test.nodes.length));
+            for (const m of report.mismatches.slice(0, 10)) {
+                console.log(`FAIL ${test.name} ${m.path.join(' ')}: ${m.message}`);
+            }
+            ok = ok && report.mismatches.length === 0;
+        }
+    }
+    return ok;
+};
+
+const runPosition = (): boolean => {
+    const depth = parseInt(depthArg) || 1;
+    const rules = flags.has('--no-powers') ? PLAIN_CHESS_RULES : STANDARD_RULES;
+    if (flags.has('--divide')) {
+        const entries = divide(kFen, depth, rules);
+        for (const e of entries) console.log(`${e.move}: ${e.nodes}`);
+        console.log(`\nMoves: ${entries.length}\nNodes: ${entries.reduce((sum, e) => sum + e.nodes, 0)}`);
+        return true;
+    }
+    if (flags.has('--check')) {
+        const report = checkPerft(kFen, depth);
+        for (const m of report.mismatches) console.log(`${m.path.join(' ')}: ${m.message}`);
+        console.log(`Nodes: ${report.nodes}`);
+        return report.mismatches.length === 0;
+    }
+    console.log(`Nodes: ${perft(kFen, depth, rules)}`);
+    return true;
+};
+
+process.exitCode = (kFen ? runPosition() : runSuite()) ? 0 : 1;
@@ -0,0 +1,123 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { deflateSync, inflateSync } from 'zlib';
+import { BoardState, Color } from '../types';
+import { boardToKrachtschaakFen } from '../utils/game';
+import { colorName, createGameState, gameRules, isInsufficientMaterial } from '../utils/rules';
+import {
+    encodeTable, generateTable, parseSignature, readTableFile, summarizeTable, Tablebase, tablebaseMoves, TablebaseResult,
+    TablebaseTable, tablePosition
+} from '../utils/tablebase';
+
+// Usage:
+//   npm run tablebase -- <table>... [--dir <dir>]   build tables, e.g. KQvK or KN(nq0)vK (see utils/tablebase.ts),
+//                                                   with every table they lead into, and list them in index.json
+//     --dir <dir>          where the tables are kept (default public/tablebases, where the app looks)
+//   npm run tablebase -- --probe "<kFen>" [--dir <dir>]    the result of a position and of each move from it
+//   npm run tablebase -- --check [--dir <dir>]             compare every table with the insufficient-material rule
+//
+// Quote table names in the shell: the parentheses are part of them.
+
+const args = process.argv.slice(2);
+const names: string[] = [];
+const options: Record<string, string> = {};
+for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--check') options.check = 'true';
+    else if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? '';
+    else names.push(args[i]);
+}
+const dir = options.dir || 'public/tablebases';
+
+const readTablebase = (): Tablebase => {
+    const tablebase = new Tablebase();
+    if (!existsSync(dir)) return tablebase;
+    for (const name of readdirSync(dir).filter(f => f.endsWith('.ktb'))) {
+        const bytes = readFileSync(join(dir, name));
+        tablebase.add(readTableFile(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), inflateSync));
+    }
+    return tablebase;
+};
+
+const describe = (result: TablebaseResult | null): string => {
+    if (!result) return 'not covered';
+    if (result.result === 'draw') return 'draw';
+    return `${result.result === 'win' ? 'mate' : 'mated'} in ${Math.ceil(result.plies / 2)} (${result.plies} plies)`;
+};
+
+const kFenOf = (board: BoardState, turn: Color): string =>
+    boardToKrachtschaakFen({ board, turn, enPassantTarget: null, halfmoveClock: 0, fullmoveNumber: 1 });
+
+const build = (): boolean => {
+    if (names.length === 0) {
+        console.error('usage: npm run tablebase -- <table>... [--dir dir]');
+        return false;
+    }
+    const tablebase = readTablebase();
+    const before = new Set(tablebase.signatures);
+    for (const name of names) {
+        try {
+            parseSignature(name);
+        } catch (e) {
+            console.error((e as Error).message);
+            return false;
+        }
+        generateTable(name, tablebase, progress => {
+            console.log(`${progress.signature.padEnd(20)} ${`${progress.positions}`.padStart(9)} positions  ${progress.seconds.toFixed(1)} s`);
+        });
+    }
+    mkdirSync(dir, { recursive: true });
+    for (const signature of tablebase.signatures.filter(s => !before.has(s))) {
+        writeFileSync(join(dir, `${signature}.ktb`), encodeTable(tablebase.table(signature)!, bytes => deflateSync(bytes, { level: 9 })));
+    }
+    writeFileSync(join(dir, 'index.json'), `${JSON.stringify(tablebase.signatures.sort(), null, 4)}\n`);
+
+    for (const name of names) {
+        const table = tablebase.table(name)!;
+        for (const turn of [Color.White, Color.Black]) {
+            const summary = summarizeTable(table, turn);
+            console.log(`${name} ${colorName(turn)} to move: ${summary.wins} won, ${summary.draws} drawn, ${summary.losses} lost`);
+            const longest = tablePosition(table, summary.longest.index);
+            if (longest) console.log(`  longest: ${describe({ result: summary.longest.plies % 2 === 1 ? 'win' : 'loss', plies: summary.longest.plies })}, ${kFenOf(longest.board, longest.turn)}`);
+        }
+    }
+    console.log(`${tablebase.signatures.length} tables in ${dir}`);
+    return true;
+};
+
+const probe = (): boolean => {
+    const tablebase = readTablebase();
+    const state = createGameState(options.probe || undefined);
+    const rules = gameRules(state);
+    console.log(describe(tablebase.probe(state.board, state.turn, state.enPassantTarget, rules)));
+    for (const { move, result } of tablebaseMoves(tablebase, state.board, state.turn, state.enPassantTarget, rules)) {
+        console.log(`  ${move.resolution.record.notation.padEnd(12)} ${describe(result)}`);
+    }
+    return true;
+};
+
+// Whether each side can win at all in a table, beside what isInsufficientMaterial says about it.
+const check = (): boolean => {
+    const tablebase = readTablebase();
+    let disagreements = 0;
+    for (const signature of tablebase.signatures.sort()) {
+        const table = tablebase.table(signature) as TablebaseTable;
+        const board: BoardState = Array.from({ length: 8 }, () => Array(8).fill(null));
+        table.pieces.forEach((p, i) => { board[i >> 3][i & 7] = p; });
+        const white = summarizeTable(table, Color.White), black = summarizeTable(table, Color.Black);
+        const wins = { [Color.White]: white.wins + black.losses, [Color.Black]: black.wins + white.losses };
+        const verdicts = [Color.White, Color.Black].map(color => {
+            const insufficient = isInsufficientMaterial(board, color);
+            if (insufficient && wins[color] > 0) {
+                disagreements++;
+                return `${colorName(color)} wins ${wins[color]} positions, but the rule says it cannot`;
+            }
+            if (!insufficient && wins[color] === 0) return `${colorName(color)} never wins (the rule allows it)`;
+            return `${colorName(color)} ${wins[color] > 0 ? 'can win' : 'cannot win'}`;
+        });
+        console.log(`${signature.padEnd(20)} ${verdicts.join('; ')}`);
+    }
+    console.log(disagreements === 0 ? 'no table contradicts the rule' : `${disagreements} contradictions`);
+    return disagreements === 0;
+};
+
+process.exitCode = (options.probe !== undefined ? probe() : options.check ? check() : build()) ? 0 : 1;
@@ -0,0 +1,102 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { DEFAULT_EVAL_PARAMS, EvalParams, gamePhase, mergeEvalParams } from '../utils/evaluation';
+import { ArchiveGame, readGameArchive } from '../utils/gameArchive';
+import {
+    DEFAULT_EXTRACT_OPTIONS, errorStatistics, ErrorStatistics, extractPositions, formatEvalParams, formatParamPath,
+    PARAM_GROUPS, ParamGroup, tune, TuningPosition, whiteScore
+} from '../utils/tuning';
+import { DEFAULT_WDL_MODEL, fitWdlModel, formatWdlModel, WdlSample, wdlLogLoss } from '../utils/wdl';
+
+// Usage:
+//   npm run tune -- <games.json|games.pgn>... [options]
+//
+// Reads finished games (see utils/gameArchive.ts) and fits the evaluation weights to their results. Options:
+//   --out <file>          where to write the tuned parameters (default evalParams.tuned.json)
+//   --from <file>         start from these parameters instead of utils/evalParams.json
+//   --groups <a,b,...>    which weights to tune (default pieceValues,combinationBonuses; `all` for all)
+//   --iterations <n>      passes over the weights (default 20)
+//   --positions <n>       most positions to fit on (default 20000)
+//   --skip <n>            opening plies to leave out of every game (default 8)
+//
+// Copy the result over utils/evalParams.json to build it in, or try it first with
+// `npm run engine -- --params <file>`.
+//
+//   npm run tune -- <games.json|games.pgn>... --wdl [--out file] [--from file] [--positions n] [--skip n]
+//
+// Fits the win/draw/loss model (utils/wdl.ts) to the same positions instead, scored with the weights in
+// use or those --from names, and writes it (default wdlModel.tuned.json) for utils/wdlModel.json.
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+const options: Record<string, string> = {};
+for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--wdl') options.wdl = 'true';
+    else if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? '';
+    else files.push(args[i]);
+}
+
+const readGames = (file: string): ArchiveGame[] =>
+    readGameArchive(readFileSync(file, 'utf8'), file.toLowerCase().endsWith('.pgn'));
+
+const formatStatistics = (label: string, stats: ErrorStatistics): string =>
+    `${label.padEnd(8)} MSE ${stats.meanSquared.toFixed(6)}  MAE ${stats.meanAbsolute.toFixed(4)}  decisive positions read right ${(stats.decisiveCorrect * 100).toFixed(1)}%`;
+
+const run = (): boolean => {
+    if (files.length === 0) {
+        console.error('usage: npm run tune -- <games.json|games.pgn>... [--out file] [--from file] [--groups list] [--iterations n] [--positions n] [--skip n]');
+        return false;
+    }
+    const groups = !options.groups
+        ? ['pieceValues', 'combinationBonuses'] as ParamGroup[]
+        : options.groups === 'all' ? PARAM_GROUPS : options.groups.split(',') as ParamGroup[];
+    const unknown = groups.filter(group => !PARAM_GROUPS.includes(group));
+    if (unknown.length > 0) {
+        console.error(`unknown parameter groups: ${unknown.join(', ')} (known: ${PARAM_GROUPS.join(', ')})`);
+        return false;
+    }
+    const initial: EvalParams = options.from ? mergeEvalParams(JSON.parse(readFileSync(options.from, 'utf8'))) : DEFAULT_EVAL_PARAMS;
+
+    const games = files.flatMap(readGames);
+    console.log(`${games.length} finished games`);
+    const positions = extractPositions(games, {
+        ...DEFAULT_EXTRACT_OPTIONS,
+        ...(options.positions ? { maxPositions: parseInt(options.positions) } : {}),
+        ...(options.skip ? { skipPlies: parseInt(options.skip) } : {}),
+    }, initial);
+    console.log(`${positions.length} quiet positions`);
+    if (positions.length === 0) return false;
+    if (options.wdl) return fitWdl(positions, initial);
+
+    const started = Date.now();
+    const report = tune(positions, initial, { groups, maxIterations: parseInt(options.iterations) || 20 }, progress => {
+        console.log(`iteration ${progress.iteration}: MSE ${progress.error.toFixed(6)}, ${progress.changed} weights changed [${Math.round((Date.now() - started) / 1000)} s]`);
+    });
+
+    console.log(`\nK = ${report.k.toFixed(4)}`);
+    console.log(formatStatistics('before', errorStatistics(initial, positions, report.k)));
+    console.log(formatStatistics('after', errorStatistics(report.params, positions, report.k)));
+    console.log(`\n${report.changes.length} weights changed:`);
+    for (const change of report.changes) {
+        console.log(`  ${formatParamPath(change.path).padEnd(36)} ${`${change.before}`.padStart(6)} -> ${change.after}`);
+    }
+
+    const out = options.out || 'evalParams.tuned.json';
+    writeFileSync(out, formatEvalParams(report.params));
+    console.log(`\nwrote ${out}`);
+    return true;
+};
+
+const fitWdl = (positions: TuningPosition[], params: EvalParams): boolean => {
+    const samples: WdlSample[] = positions.map(position => ({ score: whiteScore(position, params), phase: gamePhase(position.board), result: position.result }));
+    const before = wdlLogLoss(samples, DEFAULT_WDL_MODEL);
+    const { model, loss } = fitWdlModel(samples, DEFAULT_WDL_MODEL);
+    console.log(`log loss ${before.toFixed(6)} -> ${loss.toFixed(6)}`);
+    console.log(`a: endgame ${model.a[0]}, middlegame ${model.a[1]}; b: endgame ${model.b[0]}, middlegame ${model.b[1]}`);
+
+    const out = options.out || 'wdlModel.tuned.json';
+    writeFileSync(out, formatWdlModel(model));
+    console.log(`\nwrote ${out}`);
+    return true;
+};
+
+process.exitCode = run() ? 0 : 1;
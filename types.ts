@@ -49,6 +49,18 @@ export interface Move {
   afterPower?: PieceType | null;
   isForcePower?: boolean;
   powerConsumed?: boolean;
+  clock?: number; // seconds left on the mover's clock after the move
+}
+
+// A move as chosen by a player, before the rules have resolved its effects.
+// `forcePower` consumes the power on a move reachable by both the piece and its power;
+// `enPassantChoice` settles the ambiguous en passant (power-pawn on a diagonal mover).
+export interface MoveIntent {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+  forcePower?: boolean;
+  enPassantChoice?: 'move' | 'capture';
 }
 
 export interface ChatMessage {
@@ -68,6 +80,8 @@ export type GameStatus =
   | 'promotion'
   | 'draw_threefold'
   | 'draw_fiftyMove'
+  | 'draw_fivefold'
+  | 'draw_seventyFiveMove'
   | 'draw_insufficient'
   | 'draw_agreement'
   | 'timeout'
@@ -83,10 +97,27 @@ export interface PromotionData {
   capturedPiece?: Piece | null;
 }
 
-export type GameMode = 'menu' | 'local' | 'online_lobby' | 'online_playing' | 'online_spectating' | 'analysis' | 'board_editor' | 'analysis_manager' | 'tournament';
+export type GameMode = 'menu' | 'local' | 'vs_engine' | 'online_lobby' | 'online_playing' | 'online_spectating' | 'analysis' | 'board_editor' | 'analysis_manager' | 'tournament';
 
 export type TimerSettings = { initialTime: number; increment: number; } | { daysPerMove: number; } | null;
 
+// Krachtschaak960 games start from one of the 960 Fischer-random back ranks, stored in `kFen`.
+export type Variant = 'standard' | 'krachtschaak960';
+
+// Power rules of a game. Games stored without `rules` follow STANDARD_RULES (utils/rules.ts).
+export interface RuleSet {
+  powers: boolean;                      // false: captures grant no powers at all
+  powerOnCapture: 'replace' | 'keep';   // a piece that already has a power swaps it for the new one, or keeps it
+  powerPersists: boolean;               // using a power does not spend it
+  kingGainsPowers: boolean;
+}
+
+// The computer's side in a vs_engine game; `level` indexes ENGINE_LEVELS (utils/engineLevels.ts).
+export interface EngineOpponent {
+  level: number;
+  color: Color;
+}
+
 export interface PlayerInfo {
   uid: string;
   displayName: string;
@@ -117,6 +148,8 @@ export interface IncomingChallenge {
   showPowerRings?: boolean;
   showOriginalType?: boolean;
   kFen?: string;
+  variant?: Variant;
+  rules?: RuleSet;
 }
 
 export interface SentChallenge {
@@ -133,6 +166,8 @@ export interface SentChallenge {
   showPowerRings?: boolean;
   showOriginalType?: boolean;
   kFen?: string;
+  variant?: Variant;
+  rules?: RuleSet;
 }
 
 export interface ActiveGameSummary {
@@ -149,6 +184,8 @@ export interface ActiveGameSummary {
   challengedPlayerInfo?: { uid: string, displayName: string } | null;
   isRated: boolean;
   kFen?: string;
+  variant?: Variant;
+  rules?: RuleSet;
 }
 
 
@@ -194,6 +231,9 @@ export interface GameState {
   showPowerRings?: boolean;
   showOriginalType?: boolean;
   kFen?: string;
+  variant?: Variant;
+  rules?: RuleSet;
+  engineOpponent?: EngineOpponent;
   challengeId?: string | null;
   rematchOf?: string | null;
 }
@@ -209,6 +249,8 @@ export interface LobbyGame {
   showPowerPieces?: boolean;
   showPowerRings?: boolean;
   showOriginalType?: boolean;
+  variant?: Variant;
+  rules?: RuleSet;
 }
 
 // Tournament types
@@ -261,6 +303,7 @@ export interface TournamentData {
   showPowerRings?: boolean;
   showOriginalType?: boolean;
   kFen?: string;
+  variant?: Variant;
   flags?: string[];
   expectedStartDate?: string;
   timezone?: string;
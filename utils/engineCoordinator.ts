@@ -0,0 +1,158 @@
+import { DEFAULT_HASH_MB } from '../engine';
+
+// Runs one search on several engine workers and answers like a single engine.worker.ts: the same
+// start/stop/newgame messages in, the same update/done messages out, with `nodes` and `nps` summed over
+// the workers.
+//   With SharedArrayBuffer (a cross-origin isolated page) the workers share one transposition table and
+//   all search the whole tree (Lazy SMP); the first worker's lines are the answer and the helpers only
+//   fill the table.
+//   Otherwise each worker searches its share of the root moves, and a depth is reported once every
+//   worker has finished it, with the best lines of all shares.
+// A page is only isolated when it is served with the COOP and COEP headers: vite.config.ts sends them for
+// `npm run dev` and `npm run preview`, and a web host has to send the same. The Android app's WebView
+// serves the page without them, so it always splits the root moves.
+
+export interface EngineWorker {
+    postMessage: (message: any) => void;
+    onmessage: ((e: MessageEvent) => void) | null;
+    terminate: () => void;
+}
+
+export const maxEngineThreads = (): number => Math.max(1, navigator.hardwareConcurrency || 1);
+
+// Leaves a core for the page.
+export const defaultEngineThreads = (): number => Math.max(1, Math.min(4, maxEngineThreads() - 1));
+
+// A single engine.worker.ts, for work that is not split, such as proving a forced win.
+export const spawnEngineWorker = (): Worker => new Worker(new URL('../engine.worker.ts', import.meta.url), { type: 'module' });
+
+const canShareHash = (): boolean => typeof SharedArrayBuffer !== 'undefined' && (globalThis as any).crossOriginIsolated === true;
+
+interface WorkerProgress {
+    byDepth: Map<number, any[]>;
+    deepest: number;
+    nodes: number;
+    done: boolean;
+    results: any[];
+}
+
+interface Job {
+    requestId: unknown;
+    multiPv: number;
+    started: number;
+    progress: WorkerProgress[];
+    reported: number;
+    finished: boolean;
+}
+
+export const createEngineCoordinator = (threads: number): EngineWorker => {
+    if (threads <= 1) return spawnEngineWorker();
+
+    const shared = canShareHash();
+    const workers = Array.from({ length: threads }, spawnEngineWorker);
+    if (shared) {
+        const buffer = new SharedArrayBuffer(DEFAULT_HASH_MB * threads * 1024 * 1024);
+        workers.forEach(worker => worker.postMessage({ type: 'sharedhash', buffer }));
+    }
+    let job: Job | null = null;
+
+    const coordinator: EngineWorker = {
+        onmessage: null,
+        postMessage: (message: any) => {
+            if (message?.type !== 'start') {
+                workers.forEach(worker => worker.postMessage(message));
+                return;
+            }
+            job = {
+                requestId: message.requestId,
+                multiPv: message.multiPv || 1,
+                started: Date.now(),
+                progress: workers.map(() => ({ byDepth: new Map(), deepest: 0, nodes: 0, done: false, results: [] })),
+                reported: 0,
+                finished: false,
+            };
+            workers.forEach((worker, index) => worker.postMessage(shared
+                ? { ...message, helper: index }
+                : { ...message, split: { index, count: threads } }));
+        },
+        terminate: () => workers.forEach(worker => worker.terminate()),
+    };
+
+    const emit = (data: any) => coordinator.onmessage?.({ data } as MessageEvent);
+
+    const stats = (current: Job) => {
+        const nodes = current.progress.reduce((sum, p) => sum + p.nodes, 0);
+        return { nodes, nps: Math.round(nodes * 1000 / Math.max(1, Date.now() - current.started)) };
+    };
+
+    // The best lines over all root shares at `depth`.
+    const mergeShares = (current: Job, depth: number): any[] =>
+        current.progress
+            .flatMap(p => p.byDepth.get(depth) || [])
+            .sort((a, b) => b.score - a.score)
+            .slice(0, current.multiPv);
+
+    // The deepest depth every worker with root moves to search has completed.
+    const commonDepth = (current: Job): number => {
+        const searching = current.progress.filter(p => !(p.done && p.results.length === 0));
+        return searching.length === 0 ? 0 : Math.min(...searching.map(p => p.deepest));
+    };
+
+    const handle = (index: number, msg: any) => {
+        // Every worker acknowledges a stop; pass one on.
+        if (msg.type === 'stopped') {
+            if (index === 0) emit(msg);
+            return;
+        }
+        const current = job;
+        if (!current || current.finished || msg.requestId !== current.requestId) return;
+        const progress = current.progress[index];
+        if (msg.nodes !== undefined) progress.nodes = msg.nodes;
+
+        if (msg.type === 'error') {
+            current.finished = true;
+            emit(msg);
+            return;
+        }
+
+        if (msg.type === 'update') {
+            progress.byDepth.set(msg.depth, msg.results);
+            progress.deepest = Math.max(progress.deepest, msg.depth);
+        } else if (msg.type === 'done') {
+            progress.done = true;
+            progress.results = msg.results || [];
+        }
+
+        if (shared) {
+            if (index !== 0) return;
+            if (msg.type === 'update') {
+                emit({ ...msg, ...stats(current) });
+            } else if (msg.type === 'done') {
+                current.finished = true;
+                workers.slice(1).forEach(worker => worker.postMessage({ type: 'stop', requestId: current.requestId }));
+                emit({ ...msg, ...stats(current) });
+            }
+            return;
+        }
+
+        const depth = commonDepth(current);
+        if (current.progress.every(p => p.done)) {
+            current.finished = true;
+            const results = depth > 0
+                ? mergeShares(current, depth)
+                : current.progress.flatMap(p => p.results).sort((a, b) => b.score - a.score).slice(0, current.multiPv);
+            emit({ type: 'done', results, requestId: current.requestId, ...stats(current) });
+            return;
+        }
+        if (depth > current.reported) {
+            current.reported = depth;
+            emit({ type: 'update', results: mergeShares(current, depth), depth, requestId: current.requestId, ...stats(current) });
+        }
+    };
+
+    workers.forEach((worker, index) => {
+        worker.onmessage = (e: MessageEvent) => handle(index, e.data || {});
+    });
+
+    return coordinator;
+};
@@ -0,0 +1,72 @@
+import { Color, EngineOpponent, GameState, Move, PlayerInfo } from '../types';
+import { clockLimits, SearchLimits } from '../engine';
+import { RATING_CATEGORIES, RatingCategory } from './ratings';
+
+// Skill levels for playing the computer. Weaker levels search shallower, look at several candidate
+// moves and may play any of them that is within `margin` of the best, and now and then play a random
+// candidate outright. Every level opens from the opening book, weaker ones leaving it sooner. The ratings
+// are guesses on the site's rating scale, not yet calibrated against rated players or with the match
+// runner, and the labels say so.
+export interface EngineLevel {
+    name: string;
+    rating: number;
+    maxDepth: number;
+    nodes?: number;       // node cap per move; none for full strength
+    multiPv: number;      // candidate moves searched
+    margin: number;       // centipawns below the best a candidate may be and still be chosen
+    blunderRate: number;  // chance of playing a random candidate
+    bookPlies: number;    // how far into the game book moves are played
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+    { name: 'Beginner', rating: 600, maxDepth: 1, nodes: 500, multiPv: 8, margin: 300, blunderRate: 0.3, bookPlies: 4 },
+    { name: 'Novice', rating: 900, maxDepth: 2, nodes: 2000, multiPv: 6, margin: 150, blunderRate: 0.15, bookPlies: 8 },
+    { name: 'Club player', rating: 1200, maxDepth: 2, nodes: 8000, multiPv: 4, margin: 60, blunderRate: 0.06, bookPlies: 12 },
+    { name: 'Strong club player', rating: 1500, maxDepth: 3, nodes: 30000, multiPv: 3, margin: 25, blunderRate: 0.02, bookPlies: 16 },
+    { name: 'Expert', rating: 1800, maxDepth: 5, nodes: 150000, multiPv: 2, margin: 10, blunderRate: 0, bookPlies: 24 },
+    { name: 'Full strength', rating: 2100, maxDepth: 99, multiPv: 1, margin: 0, blunderRate: 0, bookPlies: 40 },
+];
+
+export const ENGINE_UID = 'engine';
+export const LOCAL_PLAYER_UID = 'local-player';
+
+export const engineLevel = (level: number): EngineLevel => ENGINE_LEVELS[Math.max(0, Math.min(ENGINE_LEVELS.length - 1, level))];
+
+export const engineLevelLabel = (level: number): string => {
+    const { name, rating } = engineLevel(level);
+    return `Level ${level + 1}: ${name} (~${rating}, uncalibrated)`;
+};
+
+// How long the computer may think in `game`: the clock when there is one, capped by the level.
+export const engineSearchLimits = (game: GameState, level: number): SearchLimits => {
+    const remaining = game.playerTimes ? game.playerTimes[game.turn] : null;
+    return { ...clockLimits(game.timerSettings, remaining), nodes: engineLevel(level).nodes };
+};
+
+// Picks the move to play from the engine's candidates, best first.
+export const chooseEngineMove = (candidates: { move: Move | null, score: number }[], level: number, random: () => number = Math.random): Move | null => {
+    const playable = candidates.filter(c => c.move);
+    if (playable.length === 0) return null;
+    const { margin, blunderRate } = engineLevel(level);
+    if (random() < blunderRate) return playable[Math.floor(random() * playable.length)].move;
+    const close = playable.filter(c => c.score >= playable[0].score - margin);
+    return close[Math.floor(random() * close.length)].move;
+};
+
+// Player entries for the board header and GameReview. The human side is unrated.
+export const engineGamePlayers = (opponent: EngineOpponent, humanName: string): Pick<GameState, 'players' | 'playerColors'> => {
+    const { rating } = engineLevel(opponent.level);
+    const engine: PlayerInfo = {
+        uid: ENGINE_UID,
+        displayName: `Computer (${engineLevelLabel(opponent.level)})`,
+        disconnectTimestamp: null,
+        ratings: Object.fromEntries(RATING_CATEGORIES.map(c => [c, rating])) as Record<RatingCategory, number>,
+    };
+    const human: PlayerInfo = { uid: LOCAL_PLAYER_UID, displayName: humanName, disconnectTimestamp: null, ratings: {} as Record<RatingCategory, number> };
+    return {
+        players: { [ENGINE_UID]: engine, [LOCAL_PLAYER_UID]: human },
+        playerColors: opponent.color === Color.White
+            ? { white: ENGINE_UID, black: LOCAL_PLAYER_UID }
+            : { white: LOCAL_PLAYER_UID, black: ENGINE_UID },
+    };
+};
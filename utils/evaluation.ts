@@ -0,0 +1,268 @@
+import { BoardState, Color, Piece, PieceType, RuleSet } from '../types';
+import { createGameState, gameRules, STANDARD_RULES } from './rules';
+import evalParams from './evalParams.json';
+
+// The engine's static evaluation. Every weight comes from evalParams.json, so the tuner can rewrite it
+// and `evalTrace` can show what each term contributes. Scores are centipawns; the piece-square tables
+// are from White's side with rank 8 first, and Black reads them mirrored.
+
+export interface EvalParams {
+    pieceValues: Record<PieceType, number>;
+    // What a power adds to a piece, by the piece's type (a royal piece counts as a king) and its power.
+    combinationBonuses: Record<PieceType, Partial<Record<PieceType, number>>>;
+    pieceSquare: Record<Exclude<PieceType, PieceType.King> | 'kingMiddlegame' | 'kingEndgame', number[]>;
+    // Per square a piece reaches; squares it reaches only through its power count at the power's weight.
+    mobility: Record<PieceType, number>;
+    kingSafety: {
+        pawnShield: number;  // per own pawn in front of a king on its first two ranks
+        zoneAttack: number;  // per enemy attack on the king's square or a square next to it
+    };
+    pawnStructure: {
+        doubled: number;     // per pawn beyond the first on a file
+        isolated: number;
+        passed: number[];    // by rank, from the pawn's own side
+    };
+    // Per enemy piece attacked by a piece that would take its power by capturing it, by that power.
+    powerThreat: Record<Exclude<PieceType, PieceType.King>, number>;
+    tempo: number;
+}
+
+export const DEFAULT_EVAL_PARAMS: EvalParams = evalParams as EvalParams;
+
+// Weights read from a parameter file, e.g. the tuner's; groups it leaves out keep their defaults.
+export const mergeEvalParams = (loaded: Partial<EvalParams>): EvalParams => ({ ...DEFAULT_EVAL_PARAMS, ...loaded });
+
+export type EvalTerm = 'material' | 'pieceSquare' | 'mobility' | 'kingSafety' | 'pawnStructure' | 'powerThreats' | 'tempo';
+
+export const EVAL_TERMS: EvalTerm[] = ['material', 'pieceSquare', 'mobility', 'kingSafety', 'pawnStructure', 'powerThreats', 'tempo'];
+
+// Each term for White and for Black, both counted positive for their own side.
+export type EvalTerms = Record<EvalTerm, [number, number]>;
+
+// Pieces' weight in the game phase; 24 and up is a full middlegame.
+const PHASE_WEIGHTS: Record<PieceType, number> = {
+    [PieceType.Pawn]: 0,
+    [PieceType.Knight]: 1,
+    [PieceType.Bishop]: 1,
+    [PieceType.Rook]: 2,
+    [PieceType.Queen]: 4,
+    [PieceType.King]: 0
+};
+const FULL_PHASE = 24;
+
+const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const QUEEN_DIRECTIONS = [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+
+const isRoyal = (piece: Piece): boolean => piece.isKing || piece.originalType === PieceType.King;
+
+// How much of a middlegame is on the board: 1 with a full middlegame's pieces or more, 0 with kings and pawns.
+export const gamePhase = (board: BoardState): number => {
+    let phase = 0;
+    for (const row of board) {
+        for (const piece of row) {
+            if (piece) phase += PHASE_WEIGHTS[piece.type];
+        }
+    }
+    return Math.min(phase, FULL_PHASE) / FULL_PHASE;
+};
+
+export const pieceValue = (piece: Piece, params: EvalParams = DEFAULT_EVAL_PARAMS): number => {
+    const baseType = isRoyal(piece) ? PieceType.King : piece.type;
+    let score = params.pieceValues[baseType];
+    if (piece.originalType === PieceType.King && piece.type !== PieceType.King) {
+        score += params.pieceValues[piece.type];
+    }
+    if (piece.power) {
+        score += params.combinationBonuses[baseType]?.[piece.power] || 0;
+    }
+    return score;
+};
+
+// Calls `visit` with every square a piece moving as `type` from (row, col) attacks, own pieces included.
+const forEachAttack = (board: BoardState, row: number, col: number, type: PieceType, color: Color, visit: (r: number, c: number) => void) => {
+    const slide = (directions: number[][]) => {
+        for (const [dr, dc] of directions) {
+            for (let r = row + dr, c = col + dc; r >= 0 && r < 8 && c >= 0 && c < 8; r += dr, c += dc) {
+                visit(r, c);
+                if (board[r][c]) break;
+            }
+        }
+    };
+    const step = (steps: number[][]) => {
+        for (const [dr, dc] of steps) {
+            const r = row + dr, c = col + dc;
+            if (r >= 0 && r < 8 && c >= 0 && c < 8) visit(r, c);
+        }
+    };
+    switch (type) {
+        case PieceType.Pawn: {
+            const r = row + (color === Color.White ? -1 : 1);
+            if (r >= 0 && r < 8) {
+                if (col > 0) visit(r, col - 1);
+                if (col < 7) visit(r, col + 1);
+            }
+            return;
+        }
+        case PieceType.Knight: return step(KNIGHT_STEPS);
+        case PieceType.Bishop: return slide(BISHOP_DIRECTIONS);
+        case PieceType.Rook: return slide(ROOK_DIRECTIONS);
+        case PieceType.Queen: return slide(QUEEN_DIRECTIONS);
+        case PieceType.King: return step(QUEEN_DIRECTIONS);
+    }
+};
+
+// Whether capturing `target` would give `attacker` a power it does not have yet.
+const gainsPower = (attacker: Piece, target: Piece, rules: RuleSet): boolean => {
+    if (!rules.powers || isRoyal(target)) return false;
+    if (isRoyal(attacker) && !rules.kingGainsPowers) return false;
+    if (attacker.power && rules.powerOnCapture === 'keep') return false;
+    return attacker.power !== target.originalType;
+};
+
+const reached = new Int32Array(64);
+let reachStamp = 0;
+
+// Every term of the evaluation, for both sides.
+export const evaluateTerms = (board: BoardState, turn: Color, rules: RuleSet = STANDARD_RULES, params: EvalParams = DEFAULT_EVAL_PARAMS): EvalTerms => {
+    const terms = Object.fromEntries(EVAL_TERMS.map(term => [term, [0, 0]])) as EvalTerms;
+    const side = (color: Color) => color === Color.White ? 0 : 1;
+    const pawnFiles = [new Array(8).fill(0), new Array(8).fill(0)];
+    const kings: ({ row: number, col: number } | null)[] = [null, null];
+    let phase = 0;
+
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = board[r][c];
+            if (!piece) continue;
+            const s = side(piece.color);
+            terms.material[s] += pieceValue(piece, params);
+            phase += PHASE_WEIGHTS[piece.type];
+            if (isRoyal(piece)) kings[s] = { row: r, col: c };
+            else if (piece.type === PieceType.Pawn) pawnFiles[s][c]++;
+        }
+    }
+    const middlegame = Math.min(phase, FULL_PHASE) / FULL_PHASE;
+
+    const zoneAttacks = [0, 0];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = board[r][c];
+            if (!piece) continue;
+            const s = side(piece.color);
+            const square = (piece.color === Color.White ? r : 7 - r) * 8 + c;
+            if (isRoyal(piece)) {
+                terms.pieceSquare[s] += middlegame * params.pieceSquare.kingMiddlegame[square] + (1 - middlegame) * params.pieceSquare.kingEndgame[square];
+            } else {
+                terms.pieceSquare[s] += params.pieceSquare[piece.type as Exclude<PieceType, PieceType.King>][square];
+            }
+
+            // Mobility, king attacks and power threats over the squares the piece reaches, each once.
+            const enemyKing = kings[1 - s];
+            const stamp = ++reachStamp;
+            const abilities = piece.power && piece.power !== piece.type ? [piece.type, piece.power] : [piece.type];
+            for (const ability of abilities) {
+                forEachAttack(board, r, c, ability, piece.color, (tr, tc) => {
+                    const index = tr * 8 + tc;
+                    if (reached[index] === stamp) return;
+                    reached[index] = stamp;
+                    const target = board[tr][tc];
+                    if (target?.color === piece.color) return;
+                    if (ability !== PieceType.Pawn || target) terms.mobility[s] += params.mobility[ability];
+                    if (enemyKing && Math.abs(enemyKing.row - tr) <= 1 && Math.abs(enemyKing.col - tc) <= 1) zoneAttacks[1 - s]++;
+                    if (target && gainsPower(piece, target, rules)) {
+                        terms.powerThreats[s] += params.powerThreat[target.originalType as Exclude<PieceType, PieceType.King>];
+                    }
+                });
+            }
+
+            if (piece.type === PieceType.Pawn && !isRoyal(piece)) {
+                const forward = piece.color === Color.White ? -1 : 1;
+                const rank = piece.color === Color.White ? 7 - r : r;
+                if ((c === 0 || pawnFiles[s][c - 1] === 0) && (c === 7 || pawnFiles[s][c + 1] === 0)) {
+                    terms.pawnStructure[s] += params.pawnStructure.isolated;
+                }
+                let passed = true;
+                for (let ar = r + forward; passed && ar >= 0 && ar < 8; ar += forward) {
+                    for (let ac = Math.max(0, c - 1); ac <= Math.min(7, c + 1); ac++) {
+                        const blocker = board[ar][ac];
+                        if (blocker && blocker.color !== piece.color && blocker.type === PieceType.Pawn) passed = false;
+                    }
+                }
+                if (passed) terms.pawnStructure[s] += params.pawnStructure.passed[rank];
+            }
+        }
+    }
+
+    for (const color of [Color.White, Color.Black]) {
+        const s = side(color);
+        for (const count of pawnFiles[s]) {
+            if (count > 1) terms.pawnStructure[s] += (count - 1) * params.pawnStructure.doubled;
+        }
+        const king = kings[s];
+        let safety = zoneAttacks[s] * params.kingSafety.zoneAttack;
+        const homeRow = color === Color.White ? 7 : 0;
+        const forward = color === Color.White ? -1 : 1;
+        if (king && Math.abs(king.row - homeRow) <= 1) {
+            for (let ar = king.row + forward; ar !== king.row + 3 * forward && ar >= 0 && ar < 8; ar += forward) {
+                for (let ac = Math.max(0, king.col - 1); ac <= Math.min(7, king.col + 1); ac++) {
+                    const p = board[ar][ac];
+                    if (p && p.color === color && p.type === PieceType.Pawn) safety += params.kingSafety.pawnShield;
+                }
+            }
+        }
+        // King safety matters less as the pieces come off.
+        terms.kingSafety[s] += middlegame * safety;
+    }
+
+    terms.tempo[side(turn)] += params.tempo;
+    return terms;
+};
+
+// The evaluation from the side to move's point of view, leaving out material, which the engine keeps
+// up to date move by move.
+export const positionalScore = (board: BoardState, turn: Color, rules: RuleSet = STANDARD_RULES, params: EvalParams = DEFAULT_EVAL_PARAMS): number => {
+    const terms = evaluateTerms(board, turn, rules, params);
+    let score = 0;
+    for (const term of EVAL_TERMS) {
+        if (term !== 'material') score += terms[term][0] - terms[term][1];
+    }
+    return Math.round(turn === Color.White ? score : -score);
+};
+
+// The full evaluation from the side to move's point of view.
+export const evaluatePosition = (board: BoardState, turn: Color, rules: RuleSet = STANDARD_RULES, params: EvalParams = DEFAULT_EVAL_PARAMS): number => {
+    const terms = evaluateTerms(board, turn, rules, params);
+    const score = EVAL_TERMS.reduce((sum, term) => sum + terms[term][0] - terms[term][1], 0);
+    return Math.round(turn === Color.White ? score : -score);
+};
+
+const TERM_LABELS: Record<EvalTerm, string> = {
+    material: 'Material',
+    pieceSquare: 'Piece-square',
+    mobility: 'Mobility',
+    kingSafety: 'King safety',
+    pawnStructure: 'Pawn structure',
+    powerThreats: 'Power threats',
+    tempo: 'Tempo',
+};
+
+// A table of every term's contribution for White, for Black and in total (White's view) in the
+// position `kFen`.
+export const evalTrace = (kFen: string, rules?: RuleSet, params: EvalParams = DEFAULT_EVAL_PARAMS): string => {
+    const state = createGameState(kFen, rules);
+    const terms = evaluateTerms(state.board, state.turn, gameRules(state), params);
+    const cell = (value: number) => (Math.round(value * 100) / 100).toFixed(2).padStart(9);
+    const lines = [`${'Term'.padEnd(16)}${'White'.padStart(9)}${'Black'.padStart(9)}${'Total'.padStart(9)}`];
+    let total = 0;
+    for (const term of EVAL_TERMS) {
+        const [white, black] = terms[term];
+        total += white - black;
+        lines.push(`${TERM_LABELS[term].padEnd(16)}${cell(white)}${cell(black)}${cell(white - black)}`);
+    }
+    lines.push(`${'Total'.padEnd(34)}${cell(total)}`);
+    const sideToMove = state.turn === Color.White ? total : -total;
+    lines.push(`Side to move (${state.turn}): ${Math.round(sideToMove)}`);
+    return lines.join('\n');
+};
@@ -6,13 +6,13 @@ const PIECE_ORDER: PieceType[] = [
     PieceType.King, PieceType.Bishop, PieceType.Knight, PieceType.Rook
 ];
 
-export const createInitialBoard = (): BoardState => {
+export const createInitialBoard = (backRank: PieceType[] = PIECE_ORDER): BoardState => {
     // Initialize a fully dense 8x8 board with nulls. This ensures all squares are explicitly defined.
     const board: BoardState = Array(8).fill(null).map(() => Array(8).fill(null));
 
     // Place Black pieces
     for (let i = 0; i < 8; i++) {
-        board[0][i] = { type: PIECE_ORDER[i], color: Color.Black, power: null, originalType: PIECE_ORDER[i], isKing: PIECE_ORDER[i] === PieceType.King, hasMoved: false };
+        board[0][i] = { type: backRank[i], color: Color.Black, power: null, originalType: backRank[i], isKing: backRank[i] === PieceType.King, hasMoved: false };
         board[1][i] = { type: PieceType.Pawn, color: Color.Black, power: null, originalType: PieceType.Pawn, isKing: false, hasMoved: false };
     }
 
@@ -21,12 +21,49 @@ export const createInitialBoard = (): BoardState => {
     // Place White pieces
     for (let i = 0; i < 8; i++) {
         board[6][i] = { type: PieceType.Pawn, color: Color.White, power: null, originalType: PieceType.Pawn, isKing: false, hasMoved: false };
-        board[7][i] = { type: PIECE_ORDER[i], color: Color.White, power: null, originalType: PIECE_ORDER[i], isKing: PIECE_ORDER[i] === PieceType.King, hasMoved: false };
+        board[7][i] = { type: backRank[i], color: Color.White, power: null, originalType: backRank[i], isKing: backRank[i] === PieceType.King, hasMoved: false };
     }
 
     return board;
 };
 
+// Krachtschaak960 start positions use the Chess960 numbering, 0-959; 518 is the normal setup.
+export const KRACHTSCHAAK960_POSITIONS = 960;
+export const STANDARD_960_INDEX = 518;
+
+const KNIGHT_PLACEMENTS: [number, number][] = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+export const krachtschaak960BackRank = (index: number): PieceType[] => {
+    if (!Number.isInteger(index) || index < 0 || index >= KRACHTSCHAAK960_POSITIONS) {
+        throw new Error(`Krachtschaak960 positions are numbered 0-${KRACHTSCHAAK960_POSITIONS - 1}, got ${index}`);
+    }
+    const rank: (PieceType | null)[] = Array(8).fill(null);
+    let n = index;
+    rank[(n % 4) * 2 + 1] = PieceType.Bishop; // light squares: b, d, f, h
+    n = Math.floor(n / 4);
+    rank[(n % 4) * 2] = PieceType.Bishop; // dark squares: a, c, e, g
+    n = Math.floor(n / 4);
+
+    const empty = () => rank.map((p, i) => p ? -1 : i).filter(i => i >= 0);
+    rank[empty()[n % 6]] = PieceType.Queen;
+    n = Math.floor(n / 6);
+    const [first, second] = KNIGHT_PLACEMENTS[n];
+    const forKnights = empty();
+    rank[forKnights[first]] = PieceType.Knight;
+    rank[forKnights[second]] = PieceType.Knight;
+
+    // The king always ends up between the rooks.
+    const [left, middle, right] = empty();
+    rank[left] = PieceType.Rook;
+    rank[middle] = PieceType.King;
+    rank[right] = PieceType.Rook;
+    return rank as PieceType[];
+};
+
+export const randomKrachtschaak960Index = (): number => Math.floor(Math.random() * KRACHTSCHAAK960_POSITIONS);
+
+export const createKrachtschaak960Board = (index: number): BoardState => createInitialBoard(krachtschaak960BackRank(index));
+
 export const sanitizePiece = (p: any): Piece | null => {
     if (p && typeof p === 'object' && p.type && p.color) {
         return {
@@ -180,8 +217,66 @@ export const isSquareAttacked = (board: BoardState, position: Position, attacker
     return false;
 };
 
+export interface CastlingMove {
+    to: Position;       // the square the move is written to
+    kingTo: Position;
+    rookFrom: Position;
+    rookTo: Position;
+}
+
+// Castling as in Chess960: whatever their starting files, the king ends on the c- or g-file and the
+// rook next to it on the d- or f-file. With the king on e1/e8 and the rook in the corner the move is
+// written the classic way (e1-g1); any other castle is written as the king moving onto its own rook.
+// Both pieces must be unmoved and every square they cross or land on empty apart from the two of them.
+export const getCastlingMoves = (board: BoardState, pos: Position): CastlingMove[] => {
+    const king = board[pos.row][pos.col];
+    const homeRank = king?.color === Color.White ? 7 : 0;
+    if (!king || king.type !== PieceType.King || king.hasMoved || pos.row !== homeRank) return [];
+
+    const castles: CastlingMove[] = [];
+    for (let rookCol = 0; rookCol < 8; rookCol++) {
+        const rook = board[homeRank][rookCol];
+        if (rookCol === pos.col || rook?.type !== PieceType.Rook || rook.color !== king.color || rook.hasMoved) continue;
+
+        const isKingside = rookCol > pos.col;
+        const kingToCol = isKingside ? 6 : 2;
+        const rookToCol = isKingside ? 5 : 3;
+        const low = Math.min(pos.col, rookCol, kingToCol, rookToCol);
+        const high = Math.max(pos.col, rookCol, kingToCol, rookToCol);
+        let isBlocked = false;
+        for (let c = low; c <= high; c++) {
+            if (c !== pos.col && c !== rookCol && board[homeRank][c]) isBlocked = true;
+        }
+        if (isBlocked) continue;
+
+        const isClassic = pos.col === 4 && (rookCol === 0 || rookCol === 7);
+        castles.push({
+            to: { row: homeRank, col: isClassic ? kingToCol : rookCol },
+            kingTo: { row: homeRank, col: kingToCol },
+            rookFrom: { row: homeRank, col: rookCol },
+            rookTo: { row: homeRank, col: rookToCol },
+        });
+    }
+    return castles;
+};
+
+// The castle a king move from `from` to `to` stands for, if it is one.
+export const findCastlingMove = (board: BoardState, from: Position, to: Position): CastlingMove | null =>
+    getCastlingMoves(board, from).find(c => c.to.row === to.row && c.to.col === to.col) || null;
+
+// Places king and rook for a castle on a copy of the board.
+export const applyCastlingMove = (board: BoardState, from: Position, castle: CastlingMove): BoardState => {
+    const newBoard = board.map(row => [...row]);
+    const king = newBoard[from.row][from.col]!;
+    const rook = newBoard[castle.rookFrom.row][castle.rookFrom.col]!;
+    newBoard[from.row][from.col] = null;
+    newBoard[castle.rookFrom.row][castle.rookFrom.col] = null;
+    newBoard[castle.kingTo.row][castle.kingTo.col] = { ...king, hasMoved: true };
+    newBoard[castle.rookTo.row][castle.rookTo.col] = { ...rook, hasMoved: true };
+    return newBoard;
+};
+
 const getKingPremoveMoves = (board: BoardState, pos: Position): Position[] => {
-    const piece = board[pos.row][pos.col] as Piece;
     // Standard king moves (1 square in any direction)
     const moves = getStepMoves(board, pos, [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]], true);
 
@@ -189,22 +284,7 @@ const getKingPremoveMoves = (board: BoardState, pos: Position): Position[] => {
     // For premoves, we only check if the pieces involved (king and rook) have not moved
     // and if the squares between them are empty. We do not check for checks or attacks on
     // traversed squares, as the board state will likely change before the move is executed.
-    const correctRank = piece.color === Color.White ? 7 : 0;
-    if (!piece.hasMoved && pos.row === correctRank && pos.col === 4) {
-        const rank = pos.row;
-
-        // Kingside castling premove
-        const kingsideRook = board[rank][7];
-        if (kingsideRook?.type === PieceType.Rook && !kingsideRook.hasMoved && !board[rank][5] && !board[rank][6]) {
-            moves.push({ row: rank, col: 6 });
-        }
-
-        // Queenside castling premove
-        const queensideRook = board[rank][0];
-        if (queensideRook?.type === PieceType.Rook && !queensideRook.hasMoved && !board[rank][1] && !board[rank][2] && !board[rank][3]) {
-            moves.push({ row: rank, col: 2 });
-        }
-    }
+    moves.push(...getCastlingMoves(board, pos).map(c => c.to));
     return moves;
 };
 
@@ -213,25 +293,19 @@ const getKingMoves = (board: BoardState, pos: Position): Position[] => {
     const moves = getStepMoves(board, pos, [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]]);
 
     // Castling logic needs to check for checks on traversed squares
-    const correctRank = piece.color === Color.White ? 7 : 0;
-    if (!piece.hasMoved && pos.row === correctRank && pos.col === 4 && !isKingInCheck(board, piece.color)) {
+    const castles = getCastlingMoves(board, pos);
+    if (castles.length > 0 && !isKingInCheck(board, piece.color)) {
         const opponentColor = piece.color === Color.White ? Color.Black : Color.White;
-        const rank = pos.row;
-
-        // Kingside castling
-        const kingsideRook = board[rank][7];
-        if (kingsideRook?.type === PieceType.Rook && !kingsideRook.hasMoved && !board[rank][5] && !board[rank][6]) {
-            if (!isSquareAttacked(board, { row: rank, col: 5 }, opponentColor) && !isSquareAttacked(board, { row: rank, col: 6 }, opponentColor)) {
-                moves.push({ row: rank, col: 6 });
-            }
-        }
-
-        // Queenside castling
-        const queensideRook = board[rank][0];
-        if (queensideRook?.type === PieceType.Rook && !queensideRook.hasMoved && !board[rank][1] && !board[rank][2] && !board[rank][3]) {
-            if (!isSquareAttacked(board, { row: rank, col: 2 }, opponentColor) && !isSquareAttacked(board, { row: rank, col: 3 }, opponentColor)) {
-                moves.push({ row: rank, col: 2 });
+        for (const castle of castles) {
+            // Test the king's path without king and rook, so neither can shield a square it lands on.
+            const cleared = board.map(row => [...row]);
+            cleared[pos.row][pos.col] = null;
+            cleared[castle.rookFrom.row][castle.rookFrom.col] = null;
+            let isSafe = true;
+            for (let c = Math.min(pos.col, castle.kingTo.col); c <= Math.max(pos.col, castle.kingTo.col); c++) {
+                if (c !== pos.col && isSquareAttacked(cleared, { row: pos.row, col: c }, opponentColor)) isSafe = false;
             }
+            if (isSafe) moves.push(castle.to);
         }
     }
     return moves;
@@ -279,6 +353,9 @@ export const getMovesForPieceType = (board: BoardState, pos: Position, pieceType
 
 const filterLegalMoves = (board: BoardState, color: Color, moves: Position[], from: Position, enPassantTarget: Position | null): Position[] => {
     return moves.filter(to => {
+        const castle = findCastlingMove(board, from, to);
+        if (castle) return !isKingInCheck(applyCastlingMove(board, from, castle), color);
+
         const tempBoard = JSON.parse(JSON.stringify(board));
         const piece = { ...tempBoard[from.row][from.col]! };
 
@@ -418,107 +495,70 @@ export const canCaptureKing = (board: BoardState, attackerColor: Color): boolean
     return false;
 };
 
-export const isInsufficientMaterial = (board: BoardState, color?): boolean => {
-    return false; //you can always capture the king
-    var whitepieces = new Array<Piece>();
-    var blackpieces = new Array<Piece>();
-    for (let r = 0; r < 8; r++) {
-        for (let c = 0; c < 8; c++) {
-            const piece = board[r][c];
-            if (!piece) continue;
-            if (piece.color === Color.White) whitepieces.push(piece);
-            else blackpieces.push(piece);
-        }
+// The en passant square, if the side to move has a pawn (or a piece with pawn power) that can
+// actually take there. A target nobody can use does not make two positions different.
+export const liveEnPassantTarget = (board: BoardState, turn: Color, enPassantTarget: Position | null): Position | null => {
+    if (!enPassantTarget) return null;
+    const row = enPassantTarget.row + (turn === Color.White ? 1 : -1);
+    if (row < 0 || row > 7) return null;
+    for (const col of [enPassantTarget.col - 1, enPassantTarget.col + 1]) {
+        const piece = col >= 0 && col <= 7 ? board[row][col] : null;
+        if (!piece || piece.color !== turn || (piece.type !== PieceType.Pawn && piece.power !== PieceType.Pawn)) continue;
+        const moves = getMovesForPieceType(board, { row, col }, PieceType.Pawn, enPassantTarget);
+        if (moves.some(m => m.row === enPassantTarget.row && m.col === enPassantTarget.col)) return enPassantTarget;
     }
-    //white check
-    if (color === Color.White) {
-        if (whitepieces.length >= 3) return false;
-        //king vs king
-        if (whitepieces.length === 1) {
-            if (whitepieces[0].originalType === PieceType.King) {
-                if (whitepieces[0].type === PieceType.Queen) {
-                    if (whitepieces[0].power === PieceType.Knight) return false;
-                    else return true;
-                }
-                if (whitepieces[0].type === PieceType.Knight && whitepieces[0].power === PieceType.Queen) return false;
-                else return true;
-            }
-            else return true;
-        }
-        if (whitepieces.length === 2) {
-            const first = whitepieces[0]
-            const second = whitepieces[1]
-            //no powers case
-            if (first.power === null && second.power === null) {
-                if (first.type === PieceType.King || second.type === PieceType.King) {
-                    if (first.type === PieceType.Knight || first.type === PieceType.Bishop || second.type === PieceType.Knight || second.type === PieceType.Bishop) return true;
-                    else return false;
-                }
+    return null;
+};
+
+// One bit per rook a side can still castle with: bit `col` for White, `8 + col` for Black.
+export const castlingRookMask = (board: BoardState): number => {
+    let mask = 0;
+    for (const color of [Color.White, Color.Black]) {
+        const row = color === Color.White ? 7 : 0;
+        const kingCol = board[row].findIndex(p => p?.type === PieceType.King && p.color === color && !p.hasMoved);
+        if (kingCol === -1) continue;
+        for (const isKingside of [true, false]) {
+            for (const col of castlingRookCols(board, color, kingCol, isKingside)) {
+                if (!board[row][col]!.hasMoved) mask |= 1 << (color === Color.White ? col : 8 + col);
             }
         }
     }
-    //black check
-    if (color === Color.Black) {
-        if (blackpieces.length >= 3) return false;
-    }
-    //no color check
-    if (color === null) {
-        if (whitepieces.length >= 3 || blackpieces.length >= 3) return false;
-    }
-    return true;
+    return mask;
 };
 
+// Canonical position key for repetition counting. Two positions share a key exactly when they have
+// the same pieces (type, power, original type and king flag), side to move, castling rights and
+// usable en passant capture; hashPosition in zobrist.ts covers the same facts. The key avoids the
+// characters Firebase does not allow in keys (. # $ / [ ]).
 export const generateBoardKey = (board: BoardState, turn: Color, enPassantTarget: Position | null): string => {
-    let key = '';
+    const chars: Record<PieceType, string> = {
+        [PieceType.Pawn]: 'p', [PieceType.Knight]: 'n', [PieceType.Bishop]: 'b',
+        [PieceType.Rook]: 'r', [PieceType.Queen]: 'q', [PieceType.King]: 'k',
+    };
     const pieceToChar = (p: Piece) => {
-        let char = '';
-        switch (p.type) {
-            case PieceType.Pawn: char = 'p'; break;
-            case PieceType.Knight: char = 'n'; break;
-            case PieceType.Bishop: char = 'b'; break;
-            case PieceType.Rook: char = 'r'; break;
-            case PieceType.Queen: char = 'q'; break;
-            case PieceType.King: char = 'k'; break;
-        }
-        return p.color === Color.White ? char.toUpperCase() : char;
+        const char = p.color === Color.White ? chars[p.type].toUpperCase() : chars[p.type];
+        // Pieces that are just what they look like stay a single letter.
+        if (p.originalType === p.type && !p.power && p.isKing === (p.type === PieceType.King)) return char;
+        return `${char}(${chars[p.originalType]}${p.power ? chars[p.power] : '-'}${p.isKing ? 1 : 0})`;
     };
 
-    for (let r = 0; r < 8; r++) {
+    const ranks = board.map(rank => {
+        let text = '';
         let emptyCount = 0;
-        for (let c = 0; c < 8; c++) {
-            const piece = board[r][c];
-            if (piece) {
-                if (emptyCount > 0) {
-                    key += emptyCount;
-                    emptyCount = 0;
-                }
-                key += pieceToChar(piece);
-                if (piece.power) {
-                    key += `(${piece.power[0]})`;
-                }
-            } else {
+        for (const piece of rank) {
+            if (!piece) {
                 emptyCount++;
+                continue;
             }
+            if (emptyCount > 0) text += emptyCount;
+            emptyCount = 0;
+            text += pieceToChar(piece);
         }
-        if (emptyCount > 0) {
-            key += emptyCount;
-        }
-        if (r < 7) {
-            key += '-';
-        }
-    }
-
-    key += `|${turn[0]}`;
-
-    if (enPassantTarget) {
-        const file = 'abcdefgh'[enPassantTarget.col];
-        const rank = 8 - enPassantTarget.row;
-        key += `|${file}${rank}`;
-    } else {
-        key += '|-';
-    }
+        return emptyCount > 0 ? text + emptyCount : text;
+    });
 
-    return key;
+    const ep = liveEnPassantTarget(board, turn, enPassantTarget);
+    return `${ranks.join('-')}|${turn[0]}|${castlingField(board)}|${ep ? posToNotation(ep.row, ep.col) : '-'}`;
 };
 
 export const getNotation = (
@@ -575,6 +615,12 @@ export const applyMoveToBoard = (board: BoardState, move: Move): BoardState => {
     if (!newBoard[move.from.row] || !newBoard[move.from.row][move.from.col]) return newBoard;
     const piece = { ...newBoard[move.from.row][move.from.col]! };
 
+    // Castling: king and rook both move (the record may point at the rook's square in Krachtschaak960)
+    if (move.piece === PieceType.King && !move.captured && !move.isForcePower && !move.powerConsumed) {
+        const castle = findCastlingMove(newBoard, move.from, move.to);
+        if (castle) return applyCastlingMove(newBoard, move.from, castle);
+    }
+
     // Update piece state
     piece.hasMoved = true;
     if (move.promotion) {
@@ -583,8 +629,8 @@ export const applyMoveToBoard = (board: BoardState, move: Move): BoardState => {
 
     // Handle Capture Logic for Board Update (removing captured piece)
     // Standard capture is overwriting target. 
-    // En Passant: target is empty but capture happens.
-    if (move.piece === PieceType.Pawn && move.captured && !newBoard[move.to.row][move.to.col]) {
+    // En Passant: target is empty but capture happens (also by a piece with pawn power).
+    if (move.captured && !newBoard[move.to.row][move.to.col]) {
         // En Passant capture
         newBoard[move.from.row][move.to.col] = null;
     }
@@ -607,19 +653,6 @@ export const applyMoveToBoard = (board: BoardState, move: Move): BoardState => {
         piece.power = null;
     }
 
-    // Castling: Move the rook
-    if (move.piece === PieceType.King && Math.abs(move.from.col - move.to.col) === 2) {
-        const row = move.from.row;
-        const isKingside = move.to.col > move.from.col;
-        const rookFromCol = isKingside ? 7 : 0;
-        const rookToCol = isKingside ? 5 : 3;
-        const rook = newBoard[row][rookFromCol];
-        if (rook) {
-            newBoard[row][rookToCol] = { ...rook, hasMoved: true };
-            newBoard[row][rookFromCol] = null;
-        }
-    }
-
     return newBoard;
 };
 
@@ -635,6 +668,54 @@ export const notationToPos = (notation: string): Position | null => {
     return { row, col };
 };
 
+// Files of the unmoved rooks `color` can still castle with, outermost first per side.
+const castlingRookCols = (board: BoardState, color: Color, kingCol: number, isKingside: boolean): number[] => {
+    const row = color === Color.White ? 7 : 0;
+    const cols = isKingside ? [7, 6, 5, 4, 3, 2, 1].filter(c => c > kingCol) : [0, 1, 2, 3, 4, 5, 6].filter(c => c < kingCol);
+    return cols.filter(c => board[row][c]?.type === PieceType.Rook && board[row][c]!.color === color);
+};
+
+// The castling field in X-FEN: K/Q/k/q for the outermost rook on a side, the rook's file otherwise.
+// For the normal setup this is the usual KQkq.
+export const castlingField = (board: BoardState): string => {
+    let field = '';
+    for (const color of [Color.White, Color.Black]) {
+        const row = color === Color.White ? 7 : 0;
+        const kingCol = board[row].findIndex(p => p?.type === PieceType.King && p.color === color && !p.hasMoved);
+        if (kingCol === -1) continue;
+        let rights = '';
+        for (const isKingside of [true, false]) {
+            const rooks = castlingRookCols(board, color, kingCol, isKingside);
+            for (const col of rooks) {
+                if (board[row][col]!.hasMoved) continue;
+                rights += col === rooks[0] ? (isKingside ? 'K' : 'Q') : 'ABCDEFGH'[col];
+            }
+        }
+        field += color === Color.White ? rights : rights.toLowerCase();
+    }
+    return field || '-';
+};
+
+// Marks the king and rook behind each castling right as unmoved. Reads X-FEN and Shredder-FEN
+// (file letters, e.g. HAha) as well as plain KQkq.
+const applyCastlingField = (board: BoardState, field: string) => {
+    for (const char of field) {
+        if (!/^[KQkqA-Ha-h]$/.test(char)) continue;
+        const color = char === char.toUpperCase() ? Color.White : Color.Black;
+        const row = color === Color.White ? 7 : 0;
+        const kingCol = board[row].findIndex(p => p?.type === PieceType.King && p.color === color);
+        if (kingCol === -1) continue;
+        const right = char.toLowerCase();
+        const rookCol = right === 'k' || right === 'q'
+            ? (castlingRookCols(board, color, kingCol, right === 'k')[0] ?? -1)
+            : right.charCodeAt(0) - 97;
+        const rook = rookCol >= 0 ? board[row][rookCol] : null;
+        if (rookCol === kingCol || rook?.type !== PieceType.Rook || rook.color !== color) continue;
+        board[row][kingCol]!.hasMoved = false;
+        rook.hasMoved = false;
+    }
+};
+
 export const boardToFen = (gameState: any): string => {
     const { board, turn, enPassantTarget, halfmoveClock, moveHistory = [] } = gameState;
     let fen = '';
@@ -663,22 +744,7 @@ export const boardToFen = (gameState: any): string => {
     fen += ` ${turn === Color.White ? 'w' : 'b'}`;
 
     // 3. Castling rights
-    let castling = '';
-    const whiteKing = board[7][4];
-    if (whiteKing && whiteKing.type === PieceType.King && whiteKing.color === Color.White && !whiteKing.hasMoved) {
-        const whiteKSRook = board[7][7];
-        if (whiteKSRook && whiteKSRook.type === PieceType.Rook && whiteKSRook.color === Color.White && !whiteKSRook.hasMoved) castling += 'K';
-        const whiteQSRook = board[7][0];
-        if (whiteQSRook && whiteQSRook.type === PieceType.Rook && whiteQSRook.color === Color.White && !whiteQSRook.hasMoved) castling += 'Q';
-    }
-    const blackKing = board[0][4];
-    if (blackKing && blackKing.type === PieceType.King && blackKing.color === Color.Black && !blackKing.hasMoved) {
-        const blackKSRook = board[0][7];
-        if (blackKSRook && blackKSRook.type === PieceType.Rook && blackKSRook.color === Color.Black && !blackKSRook.hasMoved) castling += 'k';
-        const blackQSRook = board[0][0];
-        if (blackQSRook && blackQSRook.type === PieceType.Rook && blackQSRook.color === Color.Black && !blackQSRook.hasMoved) castling += 'q';
-    }
-    fen += ` ${castling || '-'}`;
+    fen += ` ${castlingField(board)}`;
 
     // 4. En passant target
     fen += ` ${enPassantTarget ? posToNotation(enPassantTarget.row, enPassantTarget.col) : '-'}`;
@@ -730,22 +796,7 @@ export const boardToKrachtschaakFen = (gameState: any): string => {
 
     fen += ` ${turn === Color.White ? 'w' : 'b'}`;
 
-    let castling = '';
-    const whiteKing = board[7][4];
-    if (whiteKing && whiteKing.isKing && whiteKing.color === Color.White && !whiteKing.hasMoved) {
-        const whiteKSRook = board[7][7];
-        if (whiteKSRook && whiteKSRook.type === PieceType.Rook && whiteKSRook.color === Color.White && !whiteKSRook.hasMoved) castling += 'K';
-        const whiteQSRook = board[7][0];
-        if (whiteQSRook && whiteQSRook.type === PieceType.Rook && whiteQSRook.color === Color.White && !whiteQSRook.hasMoved) castling += 'Q';
-    }
-    const blackKing = board[0][4];
-    if (blackKing && blackKing.isKing && blackKing.color === Color.Black && !blackKing.hasMoved) {
-        const blackKSRook = board[0][7];
-        if (blackKSRook && blackKSRook.type === PieceType.Rook && blackKSRook.color === Color.Black && !blackKSRook.hasMoved) castling += 'k';
-        const blackQSRook = board[0][0];
-        if (blackQSRook && blackQSRook.type === PieceType.Rook && blackQSRook.color === Color.Black && !blackQSRook.hasMoved) castling += 'q';
-    }
-    fen += ` ${castling || '-'}`;
+    fen += ` ${castlingField(board)}`;
 
     fen += ` ${enPassantTarget ? posToNotation(enPassantTarget.row, enPassantTarget.col) : '-'}`;
     fen += ` ${halfmoveClock || 0}`;
@@ -825,32 +876,11 @@ export const fenToBoard = (fen: string): Partial<any> | null => {
     }
 
     const turn = parts[1] === 'b' ? Color.Black : Color.White;
-    const castling = parts[2] || '-';
     // Reset hasMoved for Kings/Rooks based on castling rights
-    if (castling.includes('K')) { if (board[7][4]) board[7][4]!.hasMoved = false; if (board[7][7]) board[7][7]!.hasMoved = false; }
-    if (castling.includes('Q')) { if (board[7][4]) board[7][4]!.hasMoved = false; if (board[7][0]) board[7][0]!.hasMoved = false; }
-    if (castling.includes('k')) { if (board[0][4]) board[0][4]!.hasMoved = false; if (board[0][7]) board[0][7]!.hasMoved = false; }
-    if (castling.includes('q')) { if (board[0][4]) board[0][4]!.hasMoved = false; if (board[0][0]) board[0][0]!.hasMoved = false; }
+    applyCastlingField(board, parts[2] || '-');
 
     const ep = parts[3] && parts[3] !== '-' ? notationToPos(parts[3]) : null;
     const halfmove = parseInt(parts[4]) || 0;
 
     return { board, turn, enPassantTarget: ep, halfmoveClock: halfmove, status: 'playing' as any };
 };
-
-export const generatePGN = (moveHistory: Move[], result: string = "*", initialFen?: string): string => {
-    let pgn = "";
-    const defaultFen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-    if (initialFen && initialFen !== defaultFen) {
-        pgn += `[FEN "${initialFen}"]\n`;
-        pgn += `[SetUp "1"]\n\n`;
-    }
-    for (let i = 0; i < moveHistory.length; i++) {
-        const moveNum = Math.floor(i / 2) + 1;
-        if (i % 2 === 0) {
-            pgn += moveNum + ". ";
-        }
-        pgn += moveHistory[i].notation + " ";
-    }
-    return pgn.trim() + " " + result;
-};
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { BoardState, Color, GameState, Move, Position, RuleSet } from '../types';
+import { DEFAULT_FEN, parsePgn, PgnGame, pgnResult, pgnTermination, pgnVariant } from './pgn';
+import { createGameState, gameRules, generateMoves, intentFromRecord, opponentOf, resolveMove, STANDARD_RULES } from './rules';
+import { parseSan } from './san';
+
+// Finished games read from an archive, either an export of the Firebase `games` node (or of the whole
+// database) or a PGN collection, whose FEN tags may hold any KFen. The offline tools learn from these:
+// the evaluation tuner and the opening book builder.
+
+export interface ArchivePosition {
+    board: BoardState;
+    turn: Color;
+    enPassantTarget: Position | null;
+}
+
+export interface ArchiveGame {
+    positions: ArchivePosition[];
+    notations: string[]; // the long notation of the move played from each position but the last
+    rules: RuleSet;
+    result: number;      // 1, 0.5 or 0, from White's point of view
+}
+
+const RESULT_SCORES: Record<string, number> = { '1-0': 1, '0-1': 0, '1/2-1/2': 0.5 };
+
+// A game from the `games` node. Unfinished and abandoned games carry no result worth learning from.
+export const archiveStoredGame = (game: GameState): ArchiveGame | null => {
+    const result = RESULT_SCORES[pgnResult(game)];
+    if (result === undefined || pgnTermination(game) === 'Abandoned') return null;
+    const rules = gameRules(game);
+    // Firebase may hand back an array as an object keyed by index.
+    const history: Move[] = Object.values(game.moveHistory || {});
+    let { board, turn, enPassantTarget } = createGameState(game.kFen, rules);
+    const archived: ArchiveGame = { positions: [{ board, turn, enPassantTarget }], notations: [], rules, result };
+    for (const move of history) {
+        try {
+            const resolution = resolveMove(board, enPassantTarget, intentFromRecord(move), rules);
+            ({ board, enPassantTarget } = resolution);
+            archived.notations.push(resolution.record.notation);
+        } catch {
+            break;
+        }
+        turn = opponentOf(turn);
+        archived.positions.push({ board, turn, enPassantTarget });
+    }
+    return archived;
+};
+
+// A PGN game. A Rules tag only describes the rules, so games under other rules are left out, as are
+// other games' variants and Krachtschaak960 games without the FEN of their start.
+export const archivePgnGame = (game: PgnGame): ArchiveGame | null => {
+    const result = RESULT_SCORES[game.result];
+    if (result === undefined || game.tags.Rules || game.tags.Termination === 'Abandoned') return null;
+    const variant = pgnVariant(game);
+    if (!variant || (variant === 'krachtschaak960' && !game.tags.FEN)) return null;
+    let { board, turn, enPassantTarget } = createGameState(game.tags.FEN || DEFAULT_FEN);
+    const archived: ArchiveGame = { positions: [{ board, turn, enPassantTarget }], notations: [], rules: STANDARD_RULES, result };
+    for (const move of game.moves) {
+        const found = parseSan(move.san, generateMoves(board, turn, enPassantTarget, false, STANDARD_RULES));
+        if (!found) break;
+        ({ board, enPassantTarget } = found.resolution);
+        archived.notations.push(found.resolution.record.notation);
+        turn = opponentOf(turn);
+        archived.positions.push({ board, turn, enPassantTarget });
+    }
+    return archived;
+};
+
+// The games in a database export: the `games` node, or the export is that node itself.
+export const storedGames = (data: any): GameState[] => {
+    const node = data?.games ?? data;
+    const games = Array.isArray(node) ? node : Object.values(node || {});
+    return games.filter((game: any) => game && typeof game === 'object' && ('moveHistory' in game || 'status' in game));
+};
+
+// The finished games in an archive file's text; `isPgn` tells PGN from a JSON export.
+export const readGameArchive = (text: string, isPgn: boolean): ArchiveGame[] => {
+    const games = isPgn ? parsePgn(text).map(archivePgnGame) : storedGames(JSON.parse(text)).map(archiveStoredGame);
+    return games.filter((game): game is ArchiveGame => game !== null);
+};
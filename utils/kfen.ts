@@ -0,0 +1,255 @@
+import { BoardState, Color, PieceType, Position } from '../types';
+import { fenToBoard, isKingInCheck, notationToPos } from './game';
+
+// Strict KFen reading. `fenToBoard` stays lenient for positions already stored in games; this checks
+// a string a user typed before it is accepted. Errors make the string unusable, warnings describe a
+// position that parses but is unlikely to be intended. Offsets count characters into the input.
+//
+// Only the piece placement is required; missing trailing fields take their defaults (w - - 0 1).
+
+export type KFenField = 'placement' | 'turn' | 'castling' | 'enPassant' | 'halfmove' | 'fullmove';
+
+export interface KFenIssue {
+    field: KFenField;
+    offset: number;
+    reason: string;
+}
+
+export interface KFenPosition {
+    board: BoardState;
+    turn: Color;
+    enPassantTarget: Position | null;
+    halfmoveClock: number;
+}
+
+export interface KFenReport {
+    position: KFenPosition | null; // null whenever there are errors
+    errors: KFenIssue[];
+    warnings: KFenIssue[];
+}
+
+const FIELDS: KFenField[] = ['placement', 'turn', 'castling', 'enPassant', 'halfmove', 'fullmove'];
+
+const TYPE_CHARS: Record<string, PieceType> = {
+    p: PieceType.Pawn, n: PieceType.Knight, b: PieceType.Bishop, r: PieceType.Rook, q: PieceType.Queen, k: PieceType.King,
+};
+
+interface PlacedPiece {
+    type: PieceType;
+    color: Color;
+    isKing: boolean;
+    offset: number;
+}
+
+const squareName = (row: number, col: number): string => `${String.fromCharCode(97 + col)}${8 - row}`;
+
+// Reads the bracket extras `[orig,power,isKing]` starting at `open`; returns the index after `]`.
+const readExtras = (text: string, open: number, base: number, piece: PlacedPiece, errors: KFenIssue[]): number => {
+    const close = text.indexOf(']', open);
+    if (close === -1) {
+        errors.push({ field: 'placement', offset: base + open, reason: "Unclosed '[' in piece extras" });
+        return text.length;
+    }
+    const parts = text.substring(open + 1, close).split(',');
+    if (parts.length > 3) {
+        errors.push({ field: 'placement', offset: base + open, reason: 'Piece extras take at most three values: [original,power,isKing]' });
+    }
+    let at = open + 1;
+    parts.slice(0, 3).forEach((part, i) => {
+        if (i < 2 && part && !TYPE_CHARS[part]) {
+            const what = i === 0 ? 'original type' : 'power';
+            errors.push({ field: 'placement', offset: base + at, reason: `Unknown ${what} '${part}', expected one of p, n, b, r, q, k` });
+        }
+        if (i === 2) {
+            if (part === '1') piece.isKing = true;
+            else if (part === '0') piece.isKing = false;
+            else if (part) errors.push({ field: 'placement', offset: base + at, reason: `King flag must be 0 or 1, got '${part}'` });
+        }
+        at += part.length + 1;
+    });
+    return close + 1;
+};
+
+const readPlacement = (text: string, base: number, errors: KFenIssue[]): (PlacedPiece | null)[][] => {
+    const squares: (PlacedPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
+    const ranks = text.split('/');
+    if (ranks.length !== 8) {
+        errors.push({ field: 'placement', offset: base, reason: `Expected 8 ranks separated by '/', found ${ranks.length}` });
+    }
+
+    let rankStart = 0;
+    ranks.slice(0, 8).forEach((rank, row) => {
+        let col = 0;
+        let i = 0;
+        let previousDigit = false;
+        while (i < rank.length) {
+            const char = rank[i];
+            const offset = base + rankStart + i;
+            if (/\d/.test(char)) {
+                if (char === '0' || char === '9') {
+                    errors.push({ field: 'placement', offset, reason: `Empty-square count must be 1-8, got '${char}'` });
+                } else if (previousDigit) {
+                    errors.push({ field: 'placement', offset, reason: 'Two empty-square counts in a row; write them as one number' });
+                }
+                col += parseInt(char);
+                previousDigit = true;
+                i++;
+                continue;
+            }
+            previousDigit = false;
+            const type = TYPE_CHARS[char.toLowerCase()];
+            if (!type) {
+                errors.push({ field: 'placement', offset, reason: `Unknown piece letter '${char}'` });
+                i++;
+                continue;
+            }
+            const piece: PlacedPiece = { type, color: char === char.toUpperCase() ? Color.White : Color.Black, isKing: type === PieceType.King, offset };
+            i = rank[i + 1] === '[' ? readExtras(rank, i + 1, base + rankStart, piece, errors) : i + 1;
+            if (col < 8) squares[row][col] = piece;
+            col++;
+        }
+        if (col !== 8) {
+            errors.push({ field: 'placement', offset: base + rankStart, reason: `Rank ${8 - row} covers ${col} squares instead of 8` });
+        }
+        rankStart += rank.length + 1;
+    });
+    return squares;
+};
+
+// Castling rights in X-FEN or Shredder-FEN: K/Q/k/q for the outermost rook on a side, or the rook's
+// file (uppercase for White). The king may stand on any file of its back rank (Krachtschaak960).
+const checkCastling = (text: string, base: number, squares: (PlacedPiece | null)[][], errors: KFenIssue[]) => {
+    if (text === '-') return;
+    const seen = new Set<string>();
+    [...text].forEach((char, i) => {
+        const offset = base + i;
+        if (!/^[KQkqA-Ha-h]$/.test(char)) {
+            errors.push({ field: 'castling', offset, reason: `Unknown castling right '${char}', expected K, Q, k, q, a file letter or '-'` });
+            return;
+        }
+        if (seen.has(char)) {
+            errors.push({ field: 'castling', offset, reason: `Castling right '${char}' is listed twice` });
+            return;
+        }
+        seen.add(char);
+        const color = char === char.toUpperCase() ? Color.White : Color.Black;
+        const side = color === Color.White ? 'White' : 'Black';
+        const row = color === Color.White ? 7 : 0;
+        const kingCol = squares[row].findIndex(p => p?.type === PieceType.King && p.color === color);
+        if (kingCol === -1) {
+            errors.push({ field: 'castling', offset, reason: `'${char}' needs the ${side} king on its back rank` });
+            return;
+        }
+        const isRook = (col: number) => squares[row][col]?.type === PieceType.Rook && squares[row][col]!.color === color;
+        const right = char.toLowerCase();
+        if (right === 'k' || right === 'q') {
+            const cols = [0, 1, 2, 3, 4, 5, 6, 7].filter(c => right === 'k' ? c > kingCol : c < kingCol);
+            if (!cols.some(isRook)) {
+                errors.push({ field: 'castling', offset, reason: `'${char}' needs a ${side} rook on the ${right === 'k' ? 'king' : 'queen'}side of the king` });
+            }
+        } else {
+            const col = right.charCodeAt(0) - 97;
+            if (col === kingCol || !isRook(col)) {
+                errors.push({ field: 'castling', offset, reason: `'${char}' needs a ${side} rook on ${squareName(row, col)}` });
+            }
+        }
+    });
+};
+
+const checkNumber = (text: string | undefined, field: KFenField, base: number, min: number, errors: KFenIssue[]) => {
+    if (text === undefined) return;
+    if (!/^\d+$/.test(text) || parseInt(text) < min) {
+        errors.push({ field, offset: base, reason: `${field === 'halfmove' ? 'Halfmove clock' : 'Fullmove number'} must be a whole number of at least ${min}, got '${text}'` });
+    }
+};
+
+// Warnings about a position that parsed cleanly.
+const positionWarnings = (position: KFenPosition, squares: (PlacedPiece | null)[][], turnOffset: number, epOffset: number): KFenIssue[] => {
+    const warnings: KFenIssue[] = [];
+    const { board, turn, enPassantTarget } = position;
+
+    for (const color of [Color.White, Color.Black]) {
+        if (!squares.some(row => row.some(p => p?.color === color && p.isKing))) {
+            warnings.push({ field: 'placement', offset: 0, reason: `${color === Color.White ? 'White' : 'Black'} has no king` });
+        }
+    }
+
+    for (const row of [0, 7]) {
+        squares[row].forEach((p, col) => {
+            if (p?.type === PieceType.Pawn) {
+                warnings.push({ field: 'placement', offset: p.offset, reason: `Pawn on the back rank (${squareName(row, col)})` });
+            }
+        });
+    }
+
+    const waiting = turn === Color.White ? Color.Black : Color.White;
+    if (isKingInCheck(board, waiting)) {
+        warnings.push({ field: 'turn', offset: turnOffset, reason: `${waiting === Color.White ? 'White' : 'Black'} is in check but it is not their move` });
+    }
+
+    if (enPassantTarget) {
+        // The target is the square a double-stepping piece of the side that just moved passed over.
+        const { row, col } = enPassantTarget;
+        const expectedRow = turn === Color.White ? 2 : 5;
+        const pieceRow = turn === Color.White ? 3 : 4;
+        const startRow = turn === Color.White ? 1 : 6;
+        const name = squareName(row, col);
+        if (row !== expectedRow) {
+            warnings.push({ field: 'enPassant', offset: epOffset, reason: `${name} is not on the ${turn === Color.White ? '6th' : '3rd'} rank, where ${turn === Color.White ? 'Black' : 'White'}'s double steps end up` });
+        } else if (board[row][col] || board[startRow][col]) {
+            warnings.push({ field: 'enPassant', offset: epOffset, reason: `${name} and the square behind it should be empty after a double step` });
+        } else if (board[pieceRow][col]?.color !== waiting) {
+            warnings.push({ field: 'enPassant', offset: epOffset, reason: `No ${waiting === Color.White ? 'White' : 'Black'} piece on ${squareName(pieceRow, col)} that could have just double-stepped` });
+        }
+    }
+    return warnings;
+};
+
+export const validateKFen = (kFen: string): KFenReport => {
+    const errors: KFenIssue[] = [];
+    const tokens = [...kFen.matchAll(/\S+/g)].map(m => ({ text: m[0], offset: m.index ?? 0 }));
+
+    if (tokens.length === 0) {
+        return { position: null, errors: [{ field: 'placement', offset: 0, reason: 'Empty KFen' }], warnings: [] };
+    }
+    const [placement, turn, castling, enPassant, halfmove, fullmove] = tokens;
+    const squares = readPlacement(placement.text, placement.offset, errors);
+
+    if (turn && turn.text !== 'w' && turn.text !== 'b') {
+        errors.push({ field: 'turn', offset: turn.offset, reason: `Side to move must be 'w' or 'b', got '${turn.text}'` });
+    }
+    if (castling) checkCastling(castling.text, castling.offset, squares, errors);
+    if (enPassant && enPassant.text !== '-' && (!/^[a-h][1-8]$/.test(enPassant.text) || !notationToPos(enPassant.text))) {
+        errors.push({ field: 'enPassant', offset: enPassant.offset, reason: `En passant square must be a square like e3 or '-', got '${enPassant.text}'` });
+    }
+    checkNumber(halfmove?.text, 'halfmove', halfmove?.offset ?? 0, 0, errors);
+    checkNumber(fullmove?.text, 'fullmove', fullmove?.offset ?? 0, 1, errors);
+    tokens.slice(FIELDS.length).forEach(t => {
+        errors.push({ field: 'fullmove', offset: t.offset, reason: `Unexpected extra field '${t.text}' after the fullmove number` });
+    });
+
+    if (errors.length > 0) return { position: null, errors, warnings: [] };
+
+    const parsed = fenToBoard(kFen);
+    if (!parsed) return { position: null, errors: [{ field: 'placement', offset: placement.offset, reason: 'Could not build the board' }], warnings: [] };
+    const position: KFenPosition = {
+        board: parsed.board as BoardState,
+        turn: parsed.turn as Color,
+        enPassantTarget: (parsed.enPassantTarget as Position | null) ?? null,
+        halfmoveClock: parsed.halfmoveClock ?? 0,
+    };
+    return { position, errors, warnings: positionWarnings(position, squares, turn?.offset ?? 0, enPassant?.offset ?? 0) };
+};
+
+const FIELD_LABELS: Record<KFenField, string> = {
+    placement: 'Pieces',
+    turn: 'Side to move',
+    castling: 'Castling',
+    enPassant: 'En passant',
+    halfmove: 'Halfmove clock',
+    fullmove: 'Fullmove number',
+};
+
+// One line per issue for showing under an input, e.g. "Castling (col 40): 'K' needs a White rook on h1".
+export const formatKFenIssue = (issue: KFenIssue): string =>
+    `${FIELD_LABELS[issue.field]} (col ${issue.offset + 1}): ${issue.reason}`;
@@ -0,0 +1,25 @@
+import { GameState } from '../types';
+
+// Finished games played on this device (vs the computer), newest first, for GameReview.
+const STORAGE_KEY = 'localGameHistory';
+const MAX_GAMES = 50;
+
+export const loadLocalGames = (): GameState[] => {
+    try {
+        const games = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(games) ? games : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveLocalGame = (game: GameState) => {
+    // The move history is all a review needs; the undo chain would fill the storage quota.
+    const stored: GameState = { ...game, previousState: null, premoves: {}, chat: [] };
+    const games = [stored, ...loadLocalGames()].slice(0, MAX_GAMES);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
+    } catch (e) {
+        console.error('Could not save the game to local history', e);
+    }
+};
@@ -0,0 +1,191 @@
+import KrachtschaakAI from '../engine';
+import { Color, GameState, GameStatus, RuleSet } from '../types';
+import { boardToKrachtschaakFen } from './game';
+import { gameToPgn, PgnGame } from './pgn';
+import { claimableDraw, completeTurn, createGameState, gameRules, generateMoves, STANDARD_RULES } from './rules';
+import { parseSan } from './san';
+import { formatUciMove, GoLimits, parseUciMove } from './uci';
+
+// Engine-vs-engine matches, to tell whether a change made the engine stronger. Two players meet from a
+// set of opening positions, each position once with either colour; the headless rules decide every
+// game, and a sequential probability ratio test (SPRT) says when the score is conclusive.
+
+// Short opening lines, as SAN from the start, that the match starts from when it is given none.
+export const MATCH_OPENINGS = [
+    'e4 e5 Nf3 Nc6', 'e4 c5 Nf3 d6', 'e4 e6 d4 d5', 'e4 c6 d4 d5', 'e4 d5 exd5 Qxd5',
+    'd4 d5 c4 e6', 'd4 Nf6 c4 g6', 'd4 Nf6 c4 e6', 'c4 e5 Nc3 Nf6', 'Nf3 d5 g3 Nf6',
+];
+
+// Positions `npm run bench` searches: the start, middlegames with and without powers, and endgames.
+export const BENCH_POSITIONS = [
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    'r1bqk2r/1pppbppp/p1n2n2/4p3/B3P3/5N2/PPPP1PPP/RNBQ1RK1 w kq - 4 6',
+    'rnbq1rk1/ppp1bppp/4pn2/3p2B1/2PP4/2N1P3/PP3PPP/R2QKBNR w KQ - 1 6',
+    'rnbqkb1r/1p2pppp/p2p1n2/8/3N[n,p,0]P3/2N5/PPP2PPP/R1BQKB1R w KQkq - 0 6',
+    'rn2kb1r/ppp1pppp/5n2/q[q,p,0]4b2/3P4/2N2N2/PPP2PPP/R1BQKB1R w KQkq - 3 6',
+    'rnbqk2r/ppp1ppbp/6p1/8/3PP3/2P[p,n,0]5/P4PPP/R1BQKBNR w KQkq - 1 7',
+    'r1b1kbnr/pppp1ppp/1q6/4P3/3Q[q,n,0]4/8/PPP2PPP/RNB1KB1R w KQkq - 1 7',
+    '8/5pk1/6p1/8/3R4/6P1/5PK1/3r4 w - - 0 1',
+    '6k1/5ppp/8/8/8/8/5PPP/3R[r,n,0]2K1 w - - 0 1',
+];
+
+// The KFen after a SAN line from the start.
+export const openingFromSan = (line: string, rules: RuleSet = STANDARD_RULES): string => {
+    let state = createGameState(undefined, rules);
+    for (const san of line.trim().split(/\s+/)) {
+        const move = parseSan(san, generateMoves(state.board, state.turn, state.enPassantTarget, false, rules));
+        if (!move) throw new Error(`Illegal move ${san} in the opening ${line}`);
+        state = completeTurn(state, move.resolution);
+    }
+    return boardToKrachtschaakFen(state);
+};
+
+// A side in a match; an engine process speaking utils/uci.ts, as a rule.
+export interface MatchPlayer {
+    name: string;
+    newGame: () => Promise<void>;
+    // The move, in coordinates (see formatUciMove), for the position reached by `moves` from `kFen`.
+    bestMove: (kFen: string, moves: string[], limits: GoLimits) => Promise<string | null>;
+}
+
+export interface MatchGameOptions {
+    limits: GoLimits;
+    maxPlies: number;  // a game this long is adjudicated a draw
+    rules: RuleSet;
+}
+
+export interface MatchGame {
+    state: GameState;
+    pgn: PgnGame;
+    result: number;      // 1, 0.5 or 0, from White's point of view
+    termination: string; // how it ended, e.g. checkmate or an illegal move
+}
+
+const finish = (state: GameState, status: GameStatus, winner: string | null): GameState => ({ ...state, status, winner });
+
+// One game between two players. Draws that could be claimed are claimed, and a player that makes an
+// illegal move or none loses.
+export const playMatchGame = async (white: MatchPlayer, black: MatchPlayer, kFen: string, options: MatchGameOptions, round = 1): Promise<MatchGame> => {
+    await Promise.all([white.newGame(), black.newGame()]);
+    let state = createGameState(kFen, options.rules);
+    const moves: string[] = [];
+    let termination = '';
+    while (state.status === 'playing') {
+        const claim = claimableDraw(state);
+        if (claim) {
+            state = finish(state, claim, null);
+            break;
+        }
+        if (moves.length >= options.maxPlies) {
+            state = finish(state, 'draw_agreement', null);
+            termination = `adjudicated after ${moves.length} plies`;
+            break;
+        }
+        const player = state.turn === Color.White ? white : black;
+        const opponentName = state.turn === Color.White ? 'Black' : 'White';
+        const text = await player.bestMove(kFen, moves, options.limits);
+        const move = text ? parseUciMove(text, generateMoves(state.board, state.turn, state.enPassantTarget, false, gameRules(state))) : null;
+        if (!move) {
+            state = finish(state, 'resignation', opponentName);
+            termination = text ? `illegal move ${text} by ${player.name}` : `no move from ${player.name}`;
+            break;
+        }
+        moves.push(formatUciMove(move.intent));
+        state = completeTurn(state, move.resolution);
+    }
+    const pgn = gameToPgn(state);
+    pgn.tags = {
+        ...pgn.tags,
+        Event: 'Engine match',
+        Site: '?',
+        Date: new Date().toISOString().slice(0, 10).replace(/-/g, '.'),
+        Round: `${round}`,
+        White: white.name,
+        Black: black.name,
+        SetUp: '1',
+        FEN: kFen,
+        ...(termination ? { Termination: termination.startsWith('adjudicated') ? 'Adjudication' : 'Rules infraction' } : {}),
+    };
+    const result = state.winner === 'White' ? 1 : state.winner === 'Black' ? 0 : 0.5;
+    return { state, pgn, result, termination: termination || state.status };
+};
+
+export interface MatchScore {
+    wins: number;
+    draws: number;
+    losses: number;
+}
+
+// The Elo difference that expects `score` (0 to 1).
+export const eloFromScore = (score: number): number => {
+    const clamped = Math.min(Math.max(score, 1e-6), 1 - 1e-6);
+    return -400 * Math.log10(1 / clamped - 1);
+};
+
+export const expectedScore = (elo: number): number => 1 / (1 + Math.pow(10, -elo / 400));
+
+// Mean score per game and its variance.
+const scoreMoments = (score: MatchScore): { games: number, mean: number, variance: number } => {
+    const games = score.wins + score.draws + score.losses;
+    const mean = games === 0 ? 0.5 : (score.wins + score.draws / 2) / games;
+    const variance = games === 0 ? 0 : (score.wins * (1 - mean) ** 2 + score.draws * (0.5 - mean) ** 2 + score.losses * mean ** 2) / games;
+    return { games, mean, variance };
+};
+
+// The Elo difference the score shows, with the half-width of its 95% confidence interval.
+export const eloDifference = (score: MatchScore): { elo: number, margin: number } => {
+    const { games, mean, variance } = scoreMoments(score);
+    const elo = eloFromScore(mean);
+    if (games === 0) return { elo, margin: Infinity };
+    const spread = 1.96 * Math.sqrt(variance / games);
+    return { elo, margin: (eloFromScore(mean + spread) - eloFromScore(mean - spread)) / 2 };
+};
+
+export interface SprtOptions {
+    elo0: number;  // the difference to reject the change at
+    elo1: number;  // the difference to accept it at
+    alpha: number; // false acceptance rate
+    beta: number;  // false rejection rate
+}
+
+export const DEFAULT_SPRT_OPTIONS: SprtOptions = { elo0: 0, elo1: 10, alpha: 0.05, beta: 0.05 };
+
+export interface SprtState {
+    llr: number;
+    lower: number;
+    upper: number;
+    verdict: 'H0' | 'H1' | null; // H1: the first player is stronger by elo1; null: play on
+}
+
+// The log-likelihood ratio of elo1 against elo0 under the normal approximation of the score.
+export const sprt = (score: MatchScore, options: SprtOptions = DEFAULT_SPRT_OPTIONS): SprtState => {
+    const lower = Math.log(options.beta / (1 - options.alpha));
+    const upper = Math.log((1 - options.beta) / options.alpha);
+    const { games, mean, variance } = scoreMoments(score);
+    const s0 = expectedScore(options.elo0), s1 = expectedScore(options.elo1);
+    const llr = variance === 0 ? 0 : games * (s1 - s0) * (2 * mean - s0 - s1) / (2 * variance);
+    return { llr, lower, upper, verdict: llr >= upper ? 'H1' : llr <= lower ? 'H0' : null };
+};
+
+export interface BenchResult {
+    kFen: string;
+    nodes: number;
+    ms: number;
+}
+
+// Searches each position to `depth` from an empty table. The total node count changes with nearly any
+// change to the search or evaluation, so it tells builds apart.
+export const bench = async (depth: number, positions: string[] = BENCH_POSITIONS, onPosition?: (result: BenchResult) => void): Promise<BenchResult[]> => {
+    const results: BenchResult[] = [];
+    for (const kFen of positions) {
+        const state = createGameState(kFen);
+        KrachtschaakAI.clearHash();
+        KrachtschaakAI.resetStopFlag();
+        const started = Date.now();
+        await KrachtschaakAI.getBestMoveIterative(state.board, state.turn, depth, () => { }, 1, gameRules(state), {}, { enPassantTarget: state.enPassantTarget, halfmoveClock: state.halfmoveClock });
+        const result = { kFen, nodes: KrachtschaakAI.nodesVisited, ms: Date.now() - started };
+        results.push(result);
+        onPosition?.(result);
+    }
+    return results;
+};
@@ -0,0 +1,161 @@
+import { BoardState, Color, MoveIntent, Position, RuleSet } from '../types';
+import { ArchiveGame } from './gameArchive';
+import { generateMoves, isStandardRules, LegalMove, PROMOTION_PIECES, STANDARD_RULES } from './rules';
+import { hashPosition } from './zobrist';
+
+// Opening books. A book file is a 16-byte header followed by 16-byte entries sorted by position hash
+// (hashPosition), all little-endian:
+//   header: magic "KBK1", entry size (u32, 16), entry count (u32), reserved (u32)
+//   entry:  hash (u64), move (u32, see encodeBookMove), weight (u32)
+// A position has one entry per book move. Weights count two per game won with the move and one per draw.
+// Books follow the standard power rules; under other rules the moves may not mean the same.
+
+const MAGIC = 0x314b424b; // "KBK1"
+const HEADER_BYTES = 16;
+const ENTRY_BYTES = 16;
+
+// Where the app looks for its book; `npm run book` writes one there.
+export const BOOK_URL = 'openings.kbook';
+
+export interface BookEntry {
+    key: bigint;
+    move: number;
+    weight: number;
+}
+
+export interface BookMove {
+    move: LegalMove;
+    weight: number;
+    share: number; // of the position's total weight
+}
+
+// from (6 bits) | to (6) | promotion (3, index in PROMOTION_PIECES plus one) | spend power (1) | en passant choice (2)
+export const encodeBookMove = (intent: MoveIntent): number => {
+    const from = intent.from.row * 8 + intent.from.col;
+    const to = intent.to.row * 8 + intent.to.col;
+    const promotion = intent.promotion ? PROMOTION_PIECES.indexOf(intent.promotion) + 1 : 0;
+    const choice = intent.enPassantChoice === 'move' ? 1 : intent.enPassantChoice === 'capture' ? 2 : 0;
+    return from | (to << 6) | (promotion << 12) | ((intent.forcePower ? 1 : 0) << 15) | (choice << 16);
+};
+
+export class OpeningBook {
+    private view: DataView;
+    readonly size: number;
+
+    constructor(buffer: ArrayBuffer) {
+        this.view = new DataView(buffer);
+        if (buffer.byteLength < HEADER_BYTES || this.view.getUint32(0, true) !== MAGIC || this.view.getUint32(4, true) !== ENTRY_BYTES) {
+            throw new Error('Not an opening book');
+        }
+        this.size = this.view.getUint32(8, true);
+        if (buffer.byteLength < HEADER_BYTES + this.size * ENTRY_BYTES) throw new Error('Opening book is truncated');
+    }
+
+    private keyAt(index: number): bigint {
+        return this.view.getBigUint64(HEADER_BYTES + index * ENTRY_BYTES, true);
+    }
+
+    // The entries for a position hash, by binary search.
+    probe(hash: bigint): BookEntry[] {
+        const key = BigInt.asUintN(64, hash);
+        let low = 0, high = this.size;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.keyAt(mid) < key) low = mid + 1;
+            else high = mid;
+        }
+        const entries: BookEntry[] = [];
+        for (let i = low; i < this.size && this.keyAt(i) === key; i++) {
+            const offset = HEADER_BYTES + i * ENTRY_BYTES;
+            entries.push({ key, move: this.view.getUint32(offset + 8, true), weight: this.view.getUint32(offset + 12, true) });
+        }
+        return entries;
+    }
+}
+
+export const writeBook = (entries: BookEntry[]): Uint8Array => {
+    const sorted = entries
+        .map(e => ({ ...e, key: BigInt.asUintN(64, e.key) }))
+        .sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : b.weight - a.weight);
+    const bytes = new Uint8Array(HEADER_BYTES + sorted.length * ENTRY_BYTES);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, MAGIC, true);
+    view.setUint32(4, ENTRY_BYTES, true);
+    view.setUint32(8, sorted.length, true);
+    sorted.forEach((entry, i) => {
+        const offset = HEADER_BYTES + i * ENTRY_BYTES;
+        view.setBigUint64(offset, entry.key, true);
+        view.setUint32(offset + 8, entry.move, true);
+        view.setUint32(offset + 12, entry.weight, true);
+    });
+    return bytes;
+};
+
+// The book's moves in a position that are legal there, most played first.
+export const bookMoves = (book: OpeningBook, board: BoardState, turn: Color, enPassantTarget: Position | null, rules: RuleSet = STANDARD_RULES): BookMove[] => {
+    const entries = book.probe(hashPosition(board, turn, enPassantTarget));
+    if (entries.length === 0) return [];
+    const legal = generateMoves(board, turn, enPassantTarget, false, rules);
+    const found = entries
+        .map(entry => ({ move: legal.find(m => encodeBookMove(m.intent) === entry.move), weight: entry.weight }))
+        .filter((m): m is { move: LegalMove, weight: number } => !!m.move && m.weight > 0);
+    const total = found.reduce((sum, m) => sum + m.weight, 0);
+    return found.map(m => ({ ...m, share: m.weight / total })).sort((a, b) => b.weight - a.weight);
+};
+
+// A book move picked at random in proportion to its weight, or null out of book.
+export const pickBookMove = (book: OpeningBook, board: BoardState, turn: Color, enPassantTarget: Position | null, rules: RuleSet = STANDARD_RULES, random: () => number = Math.random): LegalMove | null => {
+    const moves = bookMoves(book, board, turn, enPassantTarget, rules);
+    let pick = random();
+    for (const m of moves) {
+        pick -= m.share;
+        if (pick < 0) return m.move;
+    }
+    return moves.length > 0 ? moves[moves.length - 1].move : null;
+};
+
+export interface BookBuildOptions {
+    maxPly: number;    // how deep into each game to go
+    minGames: number;  // games a move must have been played in
+    minScore: number;  // the mover's least average score with a move, 0 to 1
+}
+
+export const DEFAULT_BOOK_OPTIONS: BookBuildOptions = { maxPly: 24, minGames: 3, minScore: 0.4 };
+
+// Book entries from finished games under the standard rules.
+export const buildBook = (games: ArchiveGame[], options: BookBuildOptions = DEFAULT_BOOK_OPTIONS): BookEntry[] => {
+    const stats = new Map<string, { key: bigint, move: number, games: number, points: number }>();
+    for (const game of games) {
+        if (!isStandardRules(game.rules)) continue;
+        const plies = Math.min(options.maxPly, game.notations.length);
+        for (let ply = 0; ply < plies; ply++) {
+            const { board, turn, enPassantTarget } = game.positions[ply];
+            const played = generateMoves(board, turn, enPassantTarget, false, STANDARD_RULES)
+                .find(m => m.resolution.record.notation === game.notations[ply]);
+            if (!played) break;
+            const key = hashPosition(board, turn, enPassantTarget);
+            const move = encodeBookMove(played.intent);
+            const id = `${key}:${move}`;
+            const entry = stats.get(id) || { key, move, games: 0, points: 0 };
+            entry.games++;
+            entry.points += turn === Color.White ? game.result : 1 - game.result;
+            stats.set(id, entry);
+        }
+    }
+    return [...stats.values()]
+        .filter(s => s.games >= options.minGames && s.points / s.games >= options.minScore)
+        .map(s => ({ key: s.key, move: s.move, weight: Math.max(1, Math.round(s.points * 2)) }));
+};
+
+let bookPromise: Promise<OpeningBook | null> | null = null;
+
+// The app's book, fetched once; null when there is none.
+export const loadOpeningBook = (): Promise<OpeningBook | null> => {
+    if (!bookPromise) {
+        bookPromise = fetch(BOOK_URL)
+            .then(response => response.ok ? response.arrayBuffer() : null)
+            .then(buffer => buffer ? new OpeningBook(buffer) : null)
+            .catch(() => null);
+    }
+    return bookPromise;
+};
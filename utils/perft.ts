@@ -0,0 +1,289 @@
+import { BoardState, Color, GameState, Position, RuleSet } from '../types';
+import { MutableBoard } from '../engine';
+import { boardToKrachtschaakFen, fenToBoard, generateBoardKey, getValidMoves, posToNotation } from './game';
+import { validateKFen } from './kfen';
+import { DEFAULT_FEN, gameToPgn, parsePgn, writePgn } from './pgn';
+import { completeTurn, createGameState, generateMoves, LegalMove, PLAIN_CHESS_RULES, resolveMove, STANDARD_RULES } from './rules';
+import { parseSan, toSan } from './san';
+import { formatUciMove } from './uci';
+
+// Perft: counts the leaf nodes of the legal move tree. Walking the tree with the engine's
+// make/unmake while generating moves through the rules module exercises both, and `checkPerft`
+// additionally cross-checks them against `getValidMoves`, `isPowerMove` and `isAmbiguousMove`.
+// `checkRoundTrips` walks the same tree through KFen, SAN and PGN.
+
+export interface PerftCase {
+    name: string;
+    kFen: string;
+    nodes: number[]; // expected counts, index 0 is depth 1
+    rules?: RuleSet; // STANDARD_RULES unless given
+}
+
+export interface PerftDivideEntry {
+    move: string;
+    nodes: number;
+}
+
+export interface PerftMismatch {
+    path: string[];
+    message: string;
+}
+
+export interface PerftReport {
+    nodes: number;
+    mismatches: PerftMismatch[];
+}
+
+export const PERFT_SUITE: PerftCase[] = [
+    {
+        // The first captures happen at depth 3 and their powers do not change the count before depth 5,
+        // so these match orthodox chess.
+        name: 'Start position',
+        kFen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+        nodes: [20, 400, 8902, 197281],
+    },
+    {
+        // Fewer nodes than in chess from depth 2: e.g. Nxd7 picks up pawn power and gives check.
+        name: 'Kiwipete (castling, pins, promotions)',
+        kFen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+        nodes: [48, 1923, 92695],
+    },
+    {
+        name: 'Powered pawns',
+        kFen: '4k3/2p[,n]5/8/8/8/8/3P[,b]P[,r]3/4K3 w - - 0 1',
+        nodes: [24, 182, 3510, 35353],
+    },
+    {
+        name: 'King with a power',
+        kFen: '4k3/8/8/3p4/8/8/8/R3K[,n]2R w KQ - 0 1',
+        nodes: [30, 164, 5236, 33899],
+    },
+    {
+        name: 'En passant by a power-pawn',
+        kFen: '4k3/8/8/3pN[,p]3/8/8/8/4K3 w - d6 0 1',
+        nodes: [15, 66, 985, 5828],
+    },
+    {
+        name: 'Ambiguous en passant',
+        kFen: '4k3/8/8/3pB[,p]3/8/8/8/4K3 w - d6 0 1',
+        nodes: [26, 130, 2542, 15536],
+    },
+    {
+        name: 'Promotion with an acquired power',
+        kFen: 'k4n1n/6P[,r]1/8/8/8/8/8/K7 w - - 0 1',
+        nodes: [28, 184, 1871, 16681],
+    },
+    {
+        name: 'Promotion by capturing a promoted pawn',
+        kFen: 'q[p]6k/R[,b]7/8/8/8/8/8/K7 w - - 0 1',
+        nodes: [12, 154, 2596, 49533],
+    },
+    {
+        // Both sides can castle queenside by moving the king from b1 onto its rook on a1.
+        name: 'Krachtschaak960 castling',
+        kFen: 'rk4r1/8/8/8/8/8/8/RK4R1 w GAga - 0 1',
+        nodes: [23, 442, 10111, 222492],
+    },
+    // Without powers the rules are orthodox chess, so these are the published counts, worked out by
+    // other move generators: https://www.chessprogramming.org/Perft_Results and, for Chess960 positions,
+    // https://www.chessprogramming.org/Chess960_Perft_Results.
+    {
+        name: 'Kiwipete, no powers',
+        kFen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+        nodes: [48, 2039, 97862],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Rook endgame with en passant pins, no powers',
+        kFen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+        nodes: [14, 191, 2812, 43238],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Promotions and castling out of check, no powers',
+        kFen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+        nodes: [6, 264, 9467],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Promotion with discovered check, no powers',
+        kFen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+        nodes: [44, 1486, 62379],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Symmetrical middlegame, no powers',
+        kFen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+        nodes: [46, 2079, 89890],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Chess960 position 1, no powers',
+        kFen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+        nodes: [21, 528, 12189],
+        rules: PLAIN_CHESS_RULES,
+    },
+    {
+        name: 'Chess960 position 2, no powers',
+        kFen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+        nodes: [21, 807, 18002],
+        rules: PLAIN_CHESS_RULES,
+    },
+];
+
+const moveName = (m: LegalMove): string => formatUciMove(m.intent);
+
+const parsePosition = (kFen: string, rules: RuleSet = STANDARD_RULES): MutableBoard => {
+    const parsed = fenToBoard(kFen);
+    if (!parsed) throw new Error(`Invalid KFen: ${kFen}`);
+    return new MutableBoard(parsed.board as BoardState, parsed.turn as Color, (parsed.enPassantTarget as Position | null) ?? null, rules);
+};
+
+const countNodes = (mb: MutableBoard, depth: number): number => {
+    const moves = generateMoves(mb.board, mb.turn, mb.enPassantTarget, true, mb.rules);
+    if (depth === 1) return moves.length;
+    let nodes = 0;
+    for (const m of moves) {
+        const undo = mb.makeMove(m.resolution.record);
+        nodes += countNodes(mb, depth - 1);
+        mb.unmakeMove(undo);
+    }
+    return nodes;
+};
+
+export const perft = (kFen: string, depth: number, rules: RuleSet = STANDARD_RULES): number => {
+    if (depth <= 0) return 1;
+    return countNodes(parsePosition(kFen, rules), depth);
+};
+
+// Node counts per root move, for narrowing a mismatch down to a single line.
+export const divide = (kFen: string, depth: number, rules: RuleSet = STANDARD_RULES): PerftDivideEntry[] => {
+    const mb = parsePosition(kFen, rules);
+    return generateMoves(mb.board, mb.turn, mb.enPassantTarget, true, rules).map(m => {
+        const undo = mb.makeMove(m.resolution.record);
+        const nodes = depth > 1 ? countNodes(mb, depth - 1) : 1;
+        mb.unmakeMove(undo);
+        return { move: moveName(m), nodes };
+    });
+};
+
+const boardSignature = (board: BoardState): string => board.map(row => row.map(p =>
+    p ? `${p.color[0]}${p.type}/${p.originalType}/${p.power ?? '-'}/${p.isKing ? 1 : 0}/${p.hasMoved ? 1 : 0}` : '.'
+).join(',')).join('|');
+
+const epSignature = (ep: Position | null): string => ep ? posToNotation(ep.row, ep.col) : '-';
+
+const checkNode = (mb: MutableBoard, depth: number, path: string[], mismatches: PerftMismatch[]): number => {
+    const { board, turn, enPassantTarget } = mb;
+    const pseudo = generateMoves(board, turn, enPassantTarget);
+
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            if (board[r][c]?.color !== turn) continue;
+            const fromRules = new Set(pseudo.filter(m => m.intent.from.row === r && m.intent.from.col === c).map(m => m.intent.to.row * 8 + m.intent.to.col));
+            const fromUi = new Set(getValidMoves(board, { row: r, col: c }, enPassantTarget, true).map(to => to.row * 8 + to.col));
+            if (fromRules.size !== fromUi.size || [...fromUi].some(sq => !fromRules.has(sq))) {
+                mismatches.push({ path, message: `getValidMoves disagrees on the targets of ${posToNotation(r, c)}` });
+            }
+        }
+    }
+
+    if (depth === 0) return 1;
+
+    const moves = generateMoves(board, turn, enPassantTarget, true);
+    let nodes = 0;
+    for (const m of moves) {
+        const name = moveName(m);
+        const line = [...path, name];
+
+        const reference = resolveMove(board, enPassantTarget, m.intent);
+        if (boardSignature(reference.board) !== boardSignature(m.resolution.board) || reference.record.powerConsumed !== m.resolution.record.powerConsumed) {
+            mismatches.push({ path: line, message: 'isPowerMove/isAmbiguousMove classify the move differently from move generation' });
+        }
+
+        const before = boardSignature(board);
+        const hashBefore = mb.hash;
+        const undo = mb.makeMove(m.resolution.record);
+        if (boardSignature(mb.board) !== boardSignature(m.resolution.board)) {
+            mismatches.push({ path: line, message: 'makeMove produced a different board than the rules' });
+        }
+        if (epSignature(mb.enPassantTarget) !== epSignature(m.resolution.enPassantTarget)) {
+            mismatches.push({ path: line, message: `makeMove set en passant ${epSignature(mb.enPassantTarget)}, rules say ${epSignature(m.resolution.enPassantTarget)}` });
+        }
+        if (mb.hash !== mb.computeHash()) {
+            mismatches.push({ path: line, message: 'incremental hash differs from a full recompute' });
+        }
+
+        nodes += checkNode(mb, depth - 1, line, mismatches);
+
+        mb.unmakeMove(undo);
+        if (boardSignature(mb.board) !== before || mb.hash !== hashBefore) {
+            mismatches.push({ path: line, message: 'unmakeMove did not restore the position' });
+        }
+    }
+    return nodes;
+};
+
+// Like `perft`, but verifies every node along the way. Much slower; keep the depth small.
+export const checkPerft = (kFen: string, depth: number): PerftReport => {
+    const mismatches: PerftMismatch[] = [];
+    const nodes = checkNode(parsePosition(kFen), depth, [], mismatches);
+    return { nodes, mismatches };
+};
+
+const positionKey = (state: GameState): string => generateBoardKey(state.board, state.turn, state.enPassantTarget);
+
+const checkRoundTripNode = (state: GameState, rules: RuleSet, depth: number, path: string[], mismatches: PerftMismatch[]): number => {
+    const kFen = boardToKrachtschaakFen(state);
+    const report = validateKFen(kFen);
+    if (report.errors.length > 0) {
+        mismatches.push({ path, message: `validateKFen rejects ${kFen}: ${report.errors[0].reason}` });
+    }
+    const reread = createGameState(kFen, rules);
+    if (positionKey(reread) !== positionKey(state) || boardToKrachtschaakFen({ ...reread, moveHistory: state.moveHistory }) !== kFen) {
+        mismatches.push({ path, message: `KFen ${kFen} reads back as a different position` });
+    }
+
+    if (depth === 0 || state.status !== 'playing') {
+        // The line so far as PGN: written, read and played again, it has to end in the same position and
+        // write the same text.
+        const text = writePgn(gameToPgn(state));
+        const [game] = parsePgn(text);
+        let replayed = createGameState(game?.tags.FEN || DEFAULT_FEN, rules);
+        for (const move of game?.moves || []) {
+            const found = parseSan(move.san, generateMoves(replayed.board, replayed.turn, replayed.enPassantTarget, false, rules));
+            if (!found) break;
+            replayed = completeTurn(replayed, found.resolution, 0);
+        }
+        if (!game || game.moves.length !== path.length || positionKey(replayed) !== positionKey(state)) {
+            mismatches.push({ path, message: 'the PGN of the line does not play back to the same position' });
+        } else if (writePgn(game) !== text) {
+            mismatches.push({ path, message: 'the PGN of the line reads back to different text' });
+        }
+        return 1;
+    }
+
+    // SAN is written among all the moves, strict or not, as completeTurn records it.
+    const moves = generateMoves(state.board, state.turn, state.enPassantTarget, false, rules);
+    const strict = new Set(generateMoves(state.board, state.turn, state.enPassantTarget, true, rules).map(moveName));
+    let nodes = 0;
+    for (const m of moves) {
+        const san = toSan(m.resolution, moves);
+        const line = [...path, san];
+        const parsed = parseSan(san, moves);
+        if (!parsed || moveName(parsed) !== moveName(m)) {
+            mismatches.push({ path: line, message: `SAN ${san} of ${moveName(m)} reads back as ${parsed ? moveName(parsed) : 'no move'}` });
+        }
+        if (strict.has(moveName(m))) nodes += checkRoundTripNode(completeTurn(state, m.resolution, 0), rules, depth - 1, line, mismatches);
+    }
+    return nodes;
+};
+
+// Round trips at every node of the strict move tree to `depth`: the position's KFen passes validateKFen
+// and reads back to the same position, every move's SAN reads back to the same move, and the line to
+// each leaf survives writing and reading as PGN.
+export const checkRoundTrips = (kFen: string, depth: number, rules: RuleSet = STANDARD_RULES): PerftReport => {
+    const mismatches: PerftMismatch[] = [];
+    const nodes = checkRoundTripNode(createGameState(kFen, rules), rules, depth, [], mismatches);
+    return { nodes, mismatches };
+};
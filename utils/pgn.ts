@@ -0,0 +1,370 @@
+import { GameState, Move, RuleSet, Variant } from '../types';
+import { createGameState, describeRules, gameRules, generateMoves, intentFromRecord, isStandardRules, opponentOf, resolveMove, STANDARD_RULES } from './rules';
+import { toSan } from './san';
+
+// PGN reading and writing. Movetext is kept as SAN (see san.ts); turning it into positions is up to
+// the caller, since the analysis tree and the game history store moves differently.
+
+export const DEFAULT_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+// The Variant tag of each variant. A Krachtschaak960 game also needs its FEN tag, since it has no fixed start.
+const VARIANT_TAGS: Record<Variant, string> = { standard: 'Krachtschaak', krachtschaak960: 'Krachtschaak960' };
+
+// Suffix annotations and the NAGs they stand for.
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+
+export interface PgnMove {
+    san: string;
+    nags: number[];
+    commentBefore?: string;  // a comment opening a variation, printed ahead of its first move
+    comment?: string;        // free text after the move, without the [%...] commands
+    clock?: number;          // seconds left on the mover's clock, from [%clk]
+    eval?: number;           // pawns from White's point of view, from [%eval]
+    mate?: number;           // mate in n (negative when Black mates), from [%eval #n]
+    variations: PgnMove[][]; // alternatives to this move
+}
+
+export interface PgnGame {
+    tags: Record<string, string>;
+    comment?: string;        // comment ahead of the first move
+    moves: PgnMove[];
+    result: string;
+}
+
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const TOKEN_PATTERN = /\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]|\{([^}]*)\}|;([^\n]*)|\$(\d+)|(\()|(\))|(1-0|0-1|1\/2-1\/2|\*)(?=\s|$|[()])|\d+\.+|([^\s{}()[\];$]+)/g;
+
+const parseClock = (value: string): number | undefined => {
+    const parts = value.split(':').map(Number);
+    if (parts.some(isNaN)) return undefined;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const formatClock = (seconds: number): string => {
+    const total = Math.max(0, seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const secs = Number.isInteger(s) ? `${s}`.padStart(2, '0') : s.toFixed(1).padStart(4, '0');
+    return `${h}:${`${m}`.padStart(2, '0')}:${secs}`;
+};
+
+// Splits a comment into its free text and the [%clk]/[%eval] commands embedded in it.
+const readComment = (move: PgnMove, text: string) => {
+    const rest = text.replace(/\[%(\w+)\s+([^\]]*)\]/g, (_, command: string, value: string) => {
+        const v = value.trim();
+        if (command === 'clk') {
+            move.clock = parseClock(v);
+        } else if (command === 'eval') {
+            if (v.startsWith('#')) move.mate = parseInt(v.slice(1));
+            else if (!isNaN(parseFloat(v))) move.eval = parseFloat(v);
+        } else {
+            return `[%${command} ${value}]`;
+        }
+        return '';
+    }).trim();
+    if (rest) move.comment = move.comment ? `${move.comment} ${rest}` : rest;
+};
+
+const newGame = (): PgnGame => ({ tags: {}, moves: [], result: '*' });
+
+// The variant a game's Variant tag names, in any case; a game without the tag is standard Krachtschaak.
+// Null for a variant of something else.
+export const pgnVariant = (game: PgnGame): Variant | null => {
+    const tag = game.tags.Variant?.toLowerCase();
+    if (!tag) return 'standard';
+    const found = (Object.keys(VARIANT_TAGS) as Variant[]).find(variant => VARIANT_TAGS[variant].toLowerCase() === tag);
+    return found || null;
+};
+
+// Reads every game in a PGN file. Unknown tokens are skipped rather than rejected, so slightly
+// malformed exports from other tools still load. A Variant tag naming one of ours is spelled as gameTags
+// writes it.
+export const parsePgn = (text: string): PgnGame[] => {
+    const games: PgnGame[] = [];
+    const source = text.split(/\r?\n/).filter(line => !line.startsWith('%')).join('\n');
+
+    let game = newGame();
+    let line = game.moves;
+    const stack: PgnMove[][] = [];
+    let pendingComment: string | undefined;
+    let started = false;
+
+    const finish = () => {
+        if (started) games.push(game);
+        game = newGame();
+        line = game.moves;
+        stack.length = 0;
+        pendingComment = undefined;
+        started = false;
+    };
+
+    for (const match of source.matchAll(TOKEN_PATTERN)) {
+        const [, tagName, tagValue, braceComment, lineComment, nag, open, close, result, san] = match;
+        const last = line[line.length - 1];
+
+        if (tagName) {
+            if (game.moves.length > 0) finish();
+            game.tags[tagName] = tagValue.replace(/\\(["\\])/g, '$1');
+            started = true;
+        } else if (braceComment !== undefined || lineComment !== undefined) {
+            const comment = (braceComment ?? lineComment).replace(/\s+/g, ' ').trim();
+            if (!comment) continue;
+            if (last) readComment(last, comment);
+            else if (stack.length === 0) game.comment = game.comment ? `${game.comment} ${comment}` : comment;
+            else pendingComment = pendingComment ? `${pendingComment} ${comment}` : comment;
+            started = true;
+        } else if (nag) {
+            last?.nags.push(parseInt(nag));
+        } else if (open) {
+            if (!last) continue;
+            const variation: PgnMove[] = [];
+            last.variations.push(variation);
+            stack.push(line);
+            line = variation;
+        } else if (close) {
+            if (stack.length > 0) line = stack.pop()!;
+        } else if (result) {
+            game.result = result;
+            started = true;
+            finish();
+        } else if (san) {
+            const annotation = san.match(/[!?]+$/)?.[0];
+            const move: PgnMove = { san: annotation ? san.slice(0, -annotation.length) : san, nags: [], variations: [] };
+            if (annotation && SUFFIX_NAGS[annotation]) move.nags.push(SUFFIX_NAGS[annotation]);
+            if (pendingComment) {
+                move.commentBefore = pendingComment;
+                pendingComment = undefined;
+            }
+            line.push(move);
+            started = true;
+        }
+    }
+    finish();
+
+    for (const g of games) {
+        if (!g.tags.Result || g.tags.Result === '*') g.tags.Result = g.result;
+        const variant = pgnVariant(g);
+        if (variant && g.tags.Variant) g.tags.Variant = VARIANT_TAGS[variant];
+        if (g.result === '*' && RESULTS.includes(g.tags.Result)) g.result = g.tags.Result;
+    }
+    return games;
+};
+
+const escapeTag = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+const commentText = (move: PgnMove): string => {
+    const parts: string[] = [];
+    if (move.clock !== undefined) parts.push(`[%clk ${formatClock(move.clock)}]`);
+    if (move.mate !== undefined) parts.push(`[%eval #${move.mate}]`);
+    else if (move.eval !== undefined) parts.push(`[%eval ${move.eval.toFixed(2)}]`);
+    if (move.comment) parts.push(move.comment);
+    return parts.join(' ');
+};
+
+// Ply of the first move, counted from 1. An odd ply is a White move.
+const startingPly = (tags: Record<string, string>): number => {
+    const fen = tags.FEN?.split(/\s+/);
+    if (!fen) return 1;
+    const fullmove = parseInt(fen[5]) || 1;
+    return (fullmove - 1) * 2 + (fen[1] === 'b' ? 2 : 1);
+};
+
+const writeLine = (moves: PgnMove[], ply: number, tokens: string[]) => {
+    let needsNumber = true;
+    moves.forEach((move, i) => {
+        const current = ply + i;
+        const isWhite = current % 2 === 1;
+        const number = Math.floor((current + 1) / 2);
+        if (move.commentBefore) {
+            tokens.push(`{${move.commentBefore}}`);
+            needsNumber = true;
+        }
+        if (isWhite) tokens.push(`${number}.`);
+        else if (needsNumber) tokens.push(`${number}...`);
+        tokens.push(move.san);
+        move.nags.forEach(n => tokens.push(`$${n}`));
+        needsNumber = false;
+
+        const comment = commentText(move);
+        if (comment) {
+            tokens.push(`{${comment}}`);
+            needsNumber = true;
+        }
+        for (const variation of move.variations) {
+            tokens.push('(');
+            writeLine(variation, current, tokens);
+            tokens.push(')');
+            needsNumber = true;
+        }
+    });
+};
+
+// Export format: the seven-tag roster first, then the other tags, movetext wrapped at 80 columns.
+export const writePgn = (game: PgnGame): string => {
+    const tags: Record<string, string> = { ...game.tags, Result: game.result };
+    const names = [...SEVEN_TAG_ROSTER, ...Object.keys(tags).filter(name => !SEVEN_TAG_ROSTER.includes(name))];
+    const unknown = (name: string) => name === 'Date' ? '????.??.??' : '?';
+    const header = names.map(name => `[${name} "${escapeTag(tags[name] ?? unknown(name))}"]`).join('\n');
+
+    const tokens: string[] = [];
+    if (game.comment) tokens.push(`{${game.comment}}`);
+    writeLine(game.moves, startingPly(tags), tokens);
+    tokens.push(game.result);
+
+    // Parentheses hug the variation they enclose.
+    const words: string[] = [];
+    let opening = '';
+    for (const token of tokens) {
+        if (token === '(') opening += '(';
+        else if (token === ')' && words.length > 0) words[words.length - 1] += ')';
+        else {
+            words.push(opening + token);
+            opening = '';
+        }
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    for (const token of words.join(' ').split(' ')) {
+        if (current && current.length + token.length + 1 > 80) {
+            lines.push(current);
+            current = token;
+        } else {
+            current = current ? `${current} ${token}` : token;
+        }
+    }
+    if (current) lines.push(current);
+
+    return `${header}\n\n${lines.join('\n')}\n`;
+};
+
+export const writePgnFile = (games: PgnGame[]): string => games.map(writePgn).join('\n');
+
+// SAN for each move, worked out by replaying the game. Games stored before SAN carry the long
+// notation, so once the moves stop replaying the stored text is used instead.
+export const movesToSan = (moveHistory: Move[], initialFen?: string, rules: RuleSet = STANDARD_RULES): string[] => {
+    let { board, turn, enPassantTarget } = createGameState(initialFen);
+    let replaying = true;
+    return moveHistory.map(move => {
+        if (!replaying) return move.notation;
+        try {
+            const resolution = resolveMove(board, enPassantTarget, intentFromRecord(move), rules);
+            const san = toSan(resolution, generateMoves(board, turn, enPassantTarget, false, rules));
+            board = resolution.board;
+            turn = opponentOf(turn);
+            enPassantTarget = resolution.enPassantTarget;
+            return san;
+        } catch {
+            replaying = false;
+            return move.notation;
+        }
+    });
+};
+
+export const pgnResult = (state: Pick<GameState, 'status' | 'winner'>): string => {
+    if (state.winner === 'White') return '1-0';
+    if (state.winner === 'Black') return '0-1';
+    switch (state.status) {
+        case 'stalemate':
+        case 'draw_threefold':
+        case 'draw_fiftyMove':
+        case 'draw_fivefold':
+        case 'draw_seventyFiveMove':
+        case 'draw_insufficient':
+        case 'draw_agreement':
+        case 'timeout': // flagged against a side that could not win
+            return '1/2-1/2';
+        default:
+            return '*';
+    }
+};
+
+// Values follow the common Termination tag usage of online servers.
+export const pgnTermination = (state: Pick<GameState, 'status' | 'moveHistory'>): string | null => {
+    switch (state.status) {
+        case 'timeout': return 'Time forfeit';
+        case 'opponent_disconnected': return 'Abandoned';
+        case 'resignation': return (state.moveHistory?.length || 0) < 2 ? 'Abandoned' : 'Normal';
+        case 'checkmate':
+        case 'kingCaptured':
+        case 'stalemate':
+        case 'draw_threefold':
+        case 'draw_fiftyMove':
+        case 'draw_fivefold':
+        case 'draw_seventyFiveMove':
+        case 'draw_insufficient':
+        case 'draw_agreement':
+            return 'Normal';
+        default:
+            return null;
+    }
+};
+
+const formatDate = (timestamp: number | null | undefined): string => {
+    if (!timestamp) return '????.??.??';
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}.${`${d.getMonth() + 1}`.padStart(2, '0')}.${`${d.getDate()}`.padStart(2, '0')}`;
+};
+
+const formatTimeControl = (settings: GameState['timerSettings']): string => {
+    if (!settings) return '-';
+    if ('daysPerMove' in settings) return `1/${settings.daysPerMove * 86400}`;
+    return `${settings.initialTime}+${settings.increment}`;
+};
+
+// Tags describing a game: players, ratings, time control, variant and result.
+export const gameTags = (state: GameState): Record<string, string> => {
+    const playerName = (uid: string | null | undefined) => (uid && state.players?.[uid]?.displayName) || '?';
+    const tags: Record<string, string> = {
+        Event: state.tournamentId ? 'Krachtschaak tournament' : `${state.isRated ? 'Rated' : 'Casual'} Krachtschaak game`,
+        Site: 'Krachtschaak Online',
+        Date: formatDate(state.completedAt),
+        Round: state.tournamentRound ? `${state.tournamentRound}` : '-',
+        White: playerName(state.playerColors?.white),
+        Black: playerName(state.playerColors?.black),
+        Result: pgnResult(state),
+    };
+    if (state.initialRatings) {
+        tags.WhiteElo = `${state.initialRatings.white}`;
+        tags.BlackElo = `${state.initialRatings.black}`;
+    }
+    tags.TimeControl = formatTimeControl(state.timerSettings);
+    tags.Variant = VARIANT_TAGS[state.variant || 'standard'];
+    if (!isStandardRules(state.rules)) tags.Rules = describeRules(state.rules);
+    const termination = pgnTermination(state);
+    if (termination) tags.Termination = termination;
+    if (state.kFen && state.kFen !== DEFAULT_FEN) {
+        tags.SetUp = '1';
+        tags.FEN = state.kFen;
+    }
+    return tags;
+};
+
+export const gameToPgn = (state: GameState): PgnGame => {
+    const history = state.moveHistory || [];
+    const sans = movesToSan(history, state.kFen, gameRules(state));
+    return {
+        tags: gameTags(state),
+        moves: history.map((move, i) => ({
+            san: sans[i],
+            nags: [],
+            ...(move.clock !== undefined ? { clock: move.clock } : {}),
+            variations: [],
+        })),
+        result: pgnResult(state),
+    };
+};
+
+export const generatePGN = (moveHistory: Move[], result: string = "*", initialFen?: string): string => {
+    const tags: Record<string, string> = {};
+    if (initialFen && initialFen !== DEFAULT_FEN) {
+        tags.SetUp = '1';
+        tags.FEN = initialFen;
+    }
+    const sans = movesToSan(moveHistory, initialFen);
+    return writePgn({ tags, moves: sans.map(san => ({ san, nags: [], variations: [] })), result });
+};
@@ -1,4 +1,4 @@
-import { TimerSettings } from '../types';
+import { TimerSettings, Variant } from '../types';
 
 export enum RatingCategory {
     HyperBullet = 'hyperbullet',
@@ -8,11 +8,16 @@ export enum RatingCategory {
     Classical = 'classical',
     Unlimited = 'unlimited',
     Daily = 'daily',
+    Krachtschaak960 = 'krachtschaak960',
 }
 
 export const RATING_CATEGORIES = Object.values(RatingCategory);
 
-export const getRatingCategory = (settings: TimerSettings): RatingCategory => {
+// Krachtschaak960 is one rating pool for every time control.
+export const getRatingCategory = (settings: TimerSettings, variant: Variant = 'standard'): RatingCategory => {
+    if (variant === 'krachtschaak960') {
+        return RatingCategory.Krachtschaak960;
+    }
     if (!settings) {
         return RatingCategory.Unlimited;
     }
@@ -30,3 +35,9 @@ export const getRatingCategory = (settings: TimerSettings): RatingCategory => {
     if (categoryValue < 30) return RatingCategory.Rapid;
     return RatingCategory.Classical;
 };
+
+// Daily and unlimited games do not punish leaving the game; Krachtschaak960 goes by its time control.
+export const isCorrespondence = (settings: TimerSettings): boolean => {
+    const category = getRatingCategory(settings);
+    return category === RatingCategory.Daily || category === RatingCategory.Unlimited;
+};
@@ -0,0 +1,536 @@
+import { BoardState, Color, GameState, GameStatus, Move, MoveIntent, Piece, PieceType, Position, RuleSet } from '../types';
+import { RatingCategory } from './ratings';
+import { toSan } from './san';
+import { applyCastlingMove, canCaptureKing, createInitialBoard, fenToBoard, findCastlingMove, generateBoardKey, getMovesForPieceType, getNotation, hasLegalMoves, isAmbiguousMove, isKingInCheck, isPowerMove } from './game';
+
+// Headless Krachtschaak rules: everything needed to validate and play a move without React or Firebase.
+// The UI, the engine and PGN import all resolve moves through `resolveMove` so they cannot drift apart.
+
+export const STANDARD_RULES: RuleSet = {
+    powers: true,
+    powerOnCapture: 'replace',
+    powerPersists: false,
+    kingGainsPowers: true,
+};
+
+// Krachtschaak's king rules without any powers: captures grant nothing.
+export const PLAIN_CHESS_RULES: RuleSet = { ...STANDARD_RULES, powers: false };
+
+export const isStandardRules = (rules: RuleSet | undefined): boolean =>
+    !rules || (Object.keys(STANDARD_RULES) as (keyof RuleSet)[]).every(key => rules[key] === STANDARD_RULES[key]);
+
+// A short label for the lobby, e.g. "Powers kept, persistent".
+export const describeRules = (rules: RuleSet | undefined): string => {
+    if (isStandardRules(rules)) return 'Standard rules';
+    if (!rules!.powers) return 'No powers';
+    const parts: string[] = [];
+    if (rules!.powerOnCapture === 'keep') parts.push('first power kept');
+    if (rules!.powerPersists) parts.push('powers persist');
+    if (!rules!.kingGainsPowers) parts.push('king gains no powers');
+    return parts.join(', ').replace(/^./, c => c.toUpperCase());
+};
+
+export const PROMOTION_PIECES: PieceType[] = [PieceType.Queen, PieceType.Rook, PieceType.Bishop, PieceType.Knight];
+
+// A power-pawn on a piece that already moves diagonally reaches the EP square both ways.
+const AMBIGUOUS_EN_PASSANT_TYPES: PieceType[] = [PieceType.Queen, PieceType.Bishop, PieceType.King];
+
+export interface MoveResolution {
+    board: BoardState;
+    piece: Piece;              // the moving piece as it stood before the move
+    captured: Piece | null;
+    capturedAt: Position | null;
+    enPassantTarget: Position | null;
+    resetsClock: boolean;
+    isKingCapture: boolean;
+    isCastle: boolean;
+    isPowerMove: boolean;      // only reachable through the power
+    record: Move;
+}
+
+export interface GameOutcome {
+    status: GameStatus;
+    winner: string | null;
+}
+
+interface MoveClassification {
+    isPowerMove: boolean;
+    isAmbiguous: boolean;
+}
+
+export const opponentOf = (color: Color): Color => color === Color.White ? Color.Black : Color.White;
+
+export const colorName = (color: Color): string => color === Color.White ? 'White' : 'Black';
+
+const isKingLike = (p: Piece): boolean => p.isKing || p.originalType === PieceType.King;
+
+const samePos = (a: Position, b: Position): boolean => a.row === b.row && a.col === b.col;
+
+// The power `piece` holds after capturing `captured`.
+const powerAfterCapture = (piece: Piece, captured: Piece, rules: RuleSet): PieceType | null => {
+    if (!rules.powers || (isKingLike(piece) && !rules.kingGainsPowers)) return piece.power;
+    if (piece.power && rules.powerOnCapture === 'keep') return piece.power;
+    return captured.originalType;
+};
+
+export const isEnPassantCapture = (board: BoardState, from: Position, to: Position, enPassantTarget: Position | null): boolean => {
+    const piece = board[from.row][from.col];
+    if (!piece || !enPassantTarget || board[to.row][to.col]) return false;
+    const hasPawnAbility = piece.type === PieceType.Pawn || piece.power === PieceType.Pawn;
+    return hasPawnAbility && samePos(to, enPassantTarget);
+};
+
+export const isAmbiguousEnPassant = (board: BoardState, from: Position, to: Position, enPassantTarget: Position | null): boolean => {
+    const piece = board[from.row][from.col];
+    if (!piece || piece.power !== PieceType.Pawn) return false;
+    return isEnPassantCapture(board, from, to, enPassantTarget) && AMBIGUOUS_EN_PASSANT_TYPES.includes(piece.originalType);
+};
+
+export const isPromotionMove = (board: BoardState, from: Position, to: Position, enPassantTarget: Position | null): boolean => {
+    const piece = board[from.row][from.col];
+    if (!piece) return false;
+    const promotionRank = piece.color === Color.White ? 0 : 7;
+    if (to.row !== promotionRank) return false;
+    if (piece.type === PieceType.Pawn || piece.power === PieceType.Pawn) return true;
+    const target = board[to.row][to.col] || (isEnPassantCapture(board, from, to, enPassantTarget) ? board[from.row][to.col] : null);
+    return target?.originalType === PieceType.Pawn;
+};
+
+export const createMoveRecord = (
+    piece: Piece,
+    placed: Piece,
+    from: Position,
+    to: Position,
+    captured: Piece | null,
+    promotion: PieceType | null,
+    isForcePower: boolean
+): Move => {
+    const record: Move = {
+        from,
+        to,
+        piece: piece.type,
+        notation: getNotation([], from, to, piece, captured, promotion, isForcePower),
+        color: piece.color,
+        afterPower: placed.power || null,
+        isForcePower,
+        powerConsumed: !!(piece.power && !placed.power),
+    };
+    if (captured) record.captured = captured.type;
+    if (promotion) record.promotion = promotion;
+    return record;
+};
+
+const resolve = (board: BoardState, enPassantTarget: Position | null, move: MoveIntent, classification: MoveClassification, rules: RuleSet): MoveResolution => {
+    const { from, to } = move;
+    const piece = board[from.row][from.col];
+    if (!piece) throw new Error(`No piece on the source square of move ${JSON.stringify(move)}`);
+
+    const forced = !!move.forcePower && classification.isAmbiguous;
+
+    // Castling is a king move in its own right, never a power move.
+    const castle = piece.type === PieceType.King && !classification.isPowerMove && !forced ? findCastlingMove(board, from, to) : null;
+    if (castle) {
+        const castled = applyCastlingMove(board, from, castle);
+        const king = castled[castle.kingTo.row][castle.kingTo.col]!;
+        return {
+            board: castled,
+            piece,
+            captured: null,
+            capturedAt: null,
+            enPassantTarget: null,
+            resetsClock: false,
+            isKingCapture: false,
+            isCastle: true,
+            isPowerMove: false,
+            record: createMoveRecord(piece, king, from, to, null, null, false),
+        };
+    }
+
+    const newBoard = board.map(row => [...row]);
+    const target = board[to.row][to.col];
+    const isEnPassant = isEnPassantCapture(board, from, to, enPassantTarget);
+    const ambiguousEnPassant = isEnPassant && isAmbiguousEnPassant(board, from, to, enPassantTarget);
+    const epChoice = ambiguousEnPassant && !move.forcePower ? (move.enPassantChoice || 'capture') : 'capture';
+
+    let captured: Piece | null = target;
+    let capturedAt: Position | null = target ? to : null;
+    if (isEnPassant && epChoice === 'capture' && board[from.row][to.col]) {
+        captured = board[from.row][to.col];
+        capturedAt = { row: from.row, col: to.col };
+        newBoard[from.row][to.col] = null;
+    }
+
+    const place = (placed: Piece, resetsClock: boolean, nextEnPassant: Position | null, promotion: PieceType | null, isForcePower: boolean): MoveResolution => {
+        newBoard[to.row][to.col] = placed;
+        newBoard[from.row][from.col] = null;
+        return {
+            board: newBoard,
+            piece,
+            captured,
+            capturedAt,
+            enPassantTarget: nextEnPassant,
+            resetsClock,
+            isKingCapture: !!captured && isKingLike(captured),
+            isCastle: false,
+            isPowerMove: classification.isPowerMove,
+            record: createMoveRecord(piece, placed, from, to, captured, promotion, isForcePower),
+        };
+    };
+
+    if (captured && isKingLike(captured)) {
+        return place({ ...piece, power: powerAfterCapture(piece, captured, rules), hasMoved: true }, true, null, null, forced);
+    }
+
+    if (isPromotionMove(board, from, to, enPassantTarget)) {
+        if (!move.promotion) throw new Error(`A promotion piece is required for ${getNotation(board, from, to, piece, captured, null)}`);
+        let powerAfterPromotion: PieceType | null = null;
+        if (captured) {
+            powerAfterPromotion = powerAfterCapture(piece, captured, rules);
+        } else if ((piece.originalType === PieceType.Pawn && !classification.isPowerMove) || rules.powerPersists) {
+            powerAfterPromotion = piece.power;
+        }
+        if (powerAfterPromotion === PieceType.Pawn) powerAfterPromotion = null;
+        const promoted: Piece = {
+            ...piece,
+            type: move.promotion,
+            isKing: isKingLike(piece),
+            hasMoved: true,
+            power: powerAfterPromotion,
+        };
+        return place(promoted, true, null, move.promotion, false);
+    }
+
+    let powerAfterMove = piece.power;
+    if (captured) {
+        powerAfterMove = powerAfterCapture(piece, captured, rules);
+    } else if ((forced || classification.isPowerMove) && !rules.powerPersists) {
+        powerAfterMove = null;
+    }
+
+    const nextEnPassant = piece.type === PieceType.Pawn && Math.abs(to.row - from.row) === 2
+        ? { row: from.row + (to.row - from.row) / 2, col: from.col }
+        : null;
+    const resetsClock = piece.type === PieceType.Pawn || !!captured || ambiguousEnPassant;
+
+    return place({ ...piece, power: powerAfterMove, hasMoved: true }, resetsClock, nextEnPassant, null, forced);
+};
+
+// Works out the full effect of a move on the board. Does not check legality; see `legalMoves`.
+export const resolveMove = (board: BoardState, enPassantTarget: Position | null, move: MoveIntent, rules: RuleSet = STANDARD_RULES): MoveResolution => {
+    return resolve(board, enPassantTarget, move, {
+        isPowerMove: isPowerMove(board, move.from, move.to, enPassantTarget),
+        // A power that persists is never spent, so there is nothing to choose.
+        isAmbiguous: !rules.powerPersists && isAmbiguousMove(board, move.from, move.to, enPassantTarget),
+    }, rules);
+};
+
+const intentsForTarget = (board: BoardState, from: Position, to: Position, enPassantTarget: Position | null, isAmbiguous: boolean): MoveIntent[] => {
+    // Capturing the king ends the game on the spot, even on the promotion rank.
+    const target = board[to.row][to.col];
+    if (target && isKingLike(target)) return [{ from, to }];
+    if (isPromotionMove(board, from, to, enPassantTarget)) {
+        return PROMOTION_PIECES.map(promotion => ({ from, to, promotion }));
+    }
+    if (isAmbiguousEnPassant(board, from, to, enPassantTarget)) {
+        return [{ from, to, enPassantChoice: 'capture' }, { from, to, enPassantChoice: 'move' }];
+    }
+    if (isAmbiguous) {
+        return [{ from, to }, { from, to, forcePower: true }];
+    }
+    return [{ from, to }];
+};
+
+export interface LegalMove {
+    intent: MoveIntent;
+    resolution: MoveResolution;
+}
+
+// Every distinct move for `color` with its resolved effect. Krachtschaak lets a player leave their
+// king en prise (the opponent may then capture it), so self-check is allowed unless `strict` is set.
+export const generateMoves = (board: BoardState, color: Color, enPassantTarget: Position | null, strict = false, rules: RuleSet = STANDARD_RULES): LegalMove[] => {
+    const moves: LegalMove[] = [];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = board[r][c];
+            if (!piece || piece.color !== color) continue;
+            const from = { row: r, col: c };
+            const standard = getMovesForPieceType(board, from, piece.type, enPassantTarget);
+            const viaPower = piece.power ? getMovesForPieceType(board, from, piece.power, enPassantTarget) : [];
+            const seen = new Set<number>();
+
+            for (const to of [...standard, ...viaPower]) {
+                const key = to.row * 8 + to.col;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                const occupant = board[to.row][to.col];
+                if (occupant && occupant.color === color && !findCastlingMove(board, from, to)) continue;
+
+                const isStandard = standard.some(m => samePos(m, to));
+                const isPower = viaPower.some(m => samePos(m, to));
+                const classification = { isPowerMove: !isStandard && isPower, isAmbiguous: isStandard && isPower && !occupant && !rules.powerPersists };
+
+                for (const intent of intentsForTarget(board, from, to, enPassantTarget, classification.isAmbiguous)) {
+                    const resolution = resolve(board, enPassantTarget, intent, classification, rules);
+                    if (strict && isKingInCheck(resolution.board, color)) continue;
+                    moves.push({ intent, resolution });
+                }
+            }
+        }
+    }
+    return moves;
+};
+
+export const gameRules = (state: GameState): RuleSet => state.rules || STANDARD_RULES;
+
+export const legalMoves = (state: GameState, strict = false): MoveIntent[] => {
+    if (state.status !== 'playing') return [];
+    return generateMoves(state.board, state.turn, state.enPassantTarget, strict, gameRules(state)).map(m => m.intent);
+};
+
+// Movement types a piece has: its own and its power's.
+const abilities = (p: Piece): PieceType[] => p.power && p.power !== p.type ? [p.type, p.power] : [p.type];
+
+// Whether `royal` and `others` can force the capture of a king that defends perfectly. Errs towards
+// true: only the known cases, as in chess, count as unable to win.
+const canForceWith = (royal: Piece, others: Piece[]): boolean => {
+    const royalMoves = abilities(royal);
+    if (others.length === 0) {
+        // Alone, only a king that moves like an amazon (queen + knight) can force capture. Promoting
+        // with a pawn power gives a single piece type, so it does not help.
+        return royalMoves.includes(PieceType.Queen) && royalMoves.includes(PieceType.Knight);
+    }
+    // A pawn (or pawn power) can still promote.
+    if ([royal, ...others].some(p => abilities(p).includes(PieceType.Pawn))) return true;
+    if (others.length >= 2) return true;
+
+    // A king that moves as more than a king may help in ways the chess cases do not cover.
+    if (royalMoves.length > 1 || royalMoves[0] !== PieceType.King) return true;
+
+    // King and one piece: a lone knight or bishop cannot win, a rook, queen or knight + bishop can.
+    const moves = abilities(others[0]);
+    if (moves.some(t => t === PieceType.Rook || t === PieceType.Queen || t === PieceType.King)) return true;
+    return moves.includes(PieceType.Knight) && moves.includes(PieceType.Bishop);
+};
+
+// True when `color` can no longer force the capture of the enemy king, even after picking up the power
+// of one of the opponent's pieces. Without `color`, true when neither side can.
+export const isInsufficientMaterial = (board: BoardState, color?: Color, rules: RuleSet = STANDARD_RULES): boolean => {
+    if (!color) return isInsufficientMaterial(board, Color.White, rules) && isInsufficientMaterial(board, Color.Black, rules);
+
+    const own: Piece[] = [];
+    const gains = new Set<PieceType>();
+    for (const row of board) {
+        for (const p of row) {
+            if (!p) continue;
+            if (p.color === color) own.push(p);
+            else if (!isKingLike(p) && rules.powers) gains.add(p.originalType);
+        }
+    }
+    const royal = own.find(isKingLike);
+    if (!royal) return false;
+    const others = own.filter(p => p !== royal);
+    if (canForceWith(royal, others)) return false;
+
+    // Capturing an enemy piece grants its original type as a power.
+    const canGain = (p: Piece) => (rules.powerOnCapture === 'replace' || !p.power) && (p !== royal || rules.kingGainsPowers);
+    for (const power of gains) {
+        const gain = (p: Piece): Piece => canGain(p) ? { ...p, power } : p;
+        if (canForceWith(gain(royal), others)) return false;
+        if (others.some((p, i) => canForceWith(royal, others.map((o, j) => j === i ? gain(o) : o)))) return false;
+    }
+    return true;
+};
+
+// When `flagged` runs out of time the opponent wins, unless the opponent could never force a win.
+export const timeoutWinner = (state: GameState, flagged: Color): string | null => {
+    const opponent = opponentOf(flagged);
+    return isInsufficientMaterial(state.board, opponent, gameRules(state)) ? null : colorName(opponent);
+};
+
+const hasCapturedKing = (captured: Record<Color, Piece[]> | undefined): boolean => {
+    const isKingPiece = (p: Piece) => p.isKing || p.originalType === PieceType.King || p.type === PieceType.King || p.power === PieceType.King;
+    return !!captured && ((captured.white || []).some(isKingPiece) || (captured.black || []).some(isKingPiece));
+};
+
+// How often the current position has occurred since the last irreversible move.
+const repetitions = (state: GameState): number =>
+    state.positionHistory?.[generateBoardKey(state.board, state.turn, state.enPassantTarget)] || 0;
+
+// The draw the player to move may claim, if any. Claims are optional; fivefold repetition and the
+// 75-move rule end the game on their own in `outcome`.
+export const claimableDraw = (state: GameState): 'draw_threefold' | 'draw_fiftyMove' | null => {
+    if (state.status !== 'playing') return null;
+    if (repetitions(state) >= 3) return 'draw_threefold';
+    if ((state.halfmoveClock || 0) >= 100) return 'draw_fiftyMove';
+    return null;
+};
+
+// Result of the position with `state.turn` to move; `playing` while the game goes on.
+export const outcome = (state: GameState): GameOutcome => {
+    // Finished games are stored with `turn` left on the player who made the last move,
+    // so their recorded result is authoritative.
+    if (state.status !== 'playing' && state.status !== 'promotion' && state.status !== 'ambiguous_en_passant') {
+        return { status: state.status, winner: state.winner };
+    }
+    const { board, turn, enPassantTarget } = state;
+    const mover = opponentOf(turn);
+
+    if (hasCapturedKing(state.capturedPieces)) {
+        return { status: 'kingCaptured', winner: colorName(mover) };
+    }
+    // Threefold repetition and the fifty-move rule only draw when claimed (see claimableDraw).
+    if ((state.halfmoveClock || 0) >= 150) {
+        return { status: 'draw_seventyFiveMove', winner: null };
+    }
+    if (repetitions(state) >= 5) {
+        return { status: 'draw_fivefold', winner: null };
+    }
+    if (isInsufficientMaterial(board, undefined, gameRules(state))) {
+        return { status: 'draw_insufficient', winner: null };
+    }
+    if (!hasLegalMoves(board, turn, enPassantTarget) && !canCaptureKing(board, turn)) {
+        if (isKingInCheck(board, turn)) {
+            return { status: 'checkmate', winner: colorName(mover) };
+        }
+        return { status: 'stalemate', winner: null };
+    }
+    return { status: 'playing', winner: null };
+};
+
+// Repetition bookkeeping: an irreversible move (capture or pawn move) starts a fresh history.
+export const recordPosition = (positionHistory: Record<string, number> | undefined, board: BoardState, turn: Color, enPassantTarget: Position | null, irreversible: boolean): Record<string, number> => {
+    const key = generateBoardKey(board, turn, enPassantTarget);
+    if (irreversible) return { [key]: 1 };
+    return { ...(positionHistory || {}), [key]: ((positionHistory || {})[key] || 0) + 1 };
+};
+
+// Folds a resolved move into the game state. When the move ends the game, `turn` stays with the
+// player who made it, matching how finished games are stored.
+// The state with the time since the turn began taken off the clock of the player to move, in a realtime
+// game. `now` is on the clock that set `turnStartTime`: the server's in an online game.
+export const chargeElapsedTime = (state: GameState, now: number = Date.now()): GameState => {
+    const { playerTimes, turnStartTime, timerSettings, turn } = state;
+    if (!playerTimes || !turnStartTime || !timerSettings || !('initialTime' in timerSettings)) return state;
+    const remaining = playerTimes[turn] - Math.max(0, now - turnStartTime) / 1000;
+    return { ...state, playerTimes: { ...playerTimes, [turn]: Math.max(0, remaining) } };
+};
+
+export const completeTurn = (state: GameState, resolution: MoveResolution, now: number = Date.now()): GameState => {
+    const { turn, timerSettings } = state;
+    const nextTurn = opponentOf(turn);
+
+    const capturedPieces: Record<Color, Piece[]> = {
+        white: [...(state.capturedPieces?.white || [])],
+        black: [...(state.capturedPieces?.black || [])],
+    };
+    if (resolution.captured) capturedPieces[resolution.captured.color].push(resolution.captured);
+
+    const irreversible = !!resolution.captured || resolution.piece.type === PieceType.Pawn;
+    // Move generation keeps the cheap long notation; a played move is recorded in SAN, which needs the
+    // rival moves and the check state.
+    const record: Move = { ...resolution.record, notation: toSan(resolution, generateMoves(state.board, turn, state.enPassantTarget, false, gameRules(state))) };
+    const next: GameState = {
+        ...state,
+        status: 'playing',
+        winner: null,
+        board: resolution.board,
+        turn: nextTurn,
+        capturedPieces,
+        enPassantTarget: resolution.enPassantTarget,
+        halfmoveClock: resolution.resetsClock ? 0 : (state.halfmoveClock || 0) + 1,
+        positionHistory: recordPosition(state.positionHistory, resolution.board, nextTurn, resolution.enPassantTarget, irreversible),
+        promotionData: null,
+        ambiguousEnPassantData: null,
+        drawOffer: state.drawOffer === turn ? state.drawOffer : null,
+        takebackOffer: null,
+        lastMove: { from: record.from, to: record.to },
+        moveHistory: [...(state.moveHistory || []), record],
+    };
+
+    if (state.playerTimes && timerSettings && 'increment' in timerSettings) {
+        next.playerTimes = { ...state.playerTimes, [turn]: state.playerTimes[turn] + timerSettings.increment };
+        record.clock = Math.round(next.playerTimes[turn] * 10) / 10;
+    }
+    if (timerSettings && 'daysPerMove' in timerSettings) {
+        next.moveDeadline = now + timerSettings.daysPerMove * 24 * 60 * 60 * 1000;
+    }
+
+    const result = outcome(next);
+    if (result.status !== 'playing') {
+        return { ...next, turn, status: result.status, winner: result.winner };
+    }
+    return next;
+};
+
+// Validates and plays a move. Throws when the move is not allowed in this position.
+export const applyMove = (state: GameState, move: MoveIntent, strict = false): GameState => {
+    if (state.status !== 'playing') throw new Error(`Cannot move in a finished game (${state.status})`);
+    const piece = state.board[move.from.row]?.[move.from.col];
+    if (!piece || piece.color !== state.turn) throw new Error(`No ${state.turn} piece on the source square`);
+
+    const rules = gameRules(state);
+    const reachable = generateMoves(state.board, state.turn, state.enPassantTarget, false, rules)
+        .filter(m => samePos(m.intent.from, move.from) && samePos(m.intent.to, move.to));
+    if (reachable.length === 0) throw new Error(`Illegal move ${JSON.stringify(move)}`);
+
+    const needsPromotion = reachable.some(m => m.intent.promotion);
+    if (needsPromotion && !(move.promotion && PROMOTION_PIECES.includes(move.promotion))) {
+        throw new Error('A promotion piece (queen, rook, bishop or knight) is required');
+    }
+    if (!needsPromotion && move.promotion) throw new Error('This move is not a promotion');
+
+    const resolution = resolveMove(state.board, state.enPassantTarget, move, rules);
+    if (strict && isKingInCheck(resolution.board, state.turn)) throw new Error(`Move ${resolution.record.notation} leaves the king in check`);
+
+    return completeTurn(state, resolution);
+};
+
+// Turns a stored move record back into the intent that produced it.
+export const intentFromRecord = (move: Move): MoveIntent => ({
+    from: move.from,
+    to: move.to,
+    ...(move.promotion ? { promotion: move.promotion } : {}),
+    ...(move.isForcePower ? { forcePower: true } : {}),
+    enPassantChoice: move.captured ? 'capture' : 'move',
+});
+
+// A minimal game state for headless play, starting from the standard position or a KFen.
+export const createGameState = (kFen?: string, rules?: RuleSet): GameState => {
+    const parsed = kFen ? fenToBoard(kFen) : null;
+    if (kFen && !parsed) throw new Error(`Invalid KFen: ${kFen}`);
+    const board: BoardState = parsed?.board || createInitialBoard();
+    const turn: Color = parsed?.turn || Color.White;
+    const enPassantTarget: Position | null = parsed?.enPassantTarget || null;
+
+    return {
+        board,
+        turn,
+        status: 'playing',
+        winner: null,
+        promotionData: null,
+        capturedPieces: { white: [], black: [] },
+        enPassantTarget,
+        halfmoveClock: parsed?.halfmoveClock || 0,
+        positionHistory: recordPosition({}, board, turn, enPassantTarget, true),
+        ambiguousEnPassantData: null,
+        drawOffer: null,
+        takebackOffer: null,
+        previousState: null,
+        playerTimes: null,
+        turnStartTime: null,
+        moveDeadline: null,
+        timerSettings: null,
+        ratingCategory: RatingCategory.Unlimited,
+        players: {},
+        playerColors: { white: null, black: null },
+        initialRatings: null,
+        isRated: false,
+        rematchOffer: null,
+        nextGameId: null,
+        ratingChange: null,
+        lastMove: null,
+        moveHistory: [],
+        ...(kFen ? { kFen } : {}),
+        ...(!isStandardRules(rules) ? { rules } : {}),
+    };
+};
@@ -0,0 +1,114 @@
+import { BoardState, Color, PieceType } from '../types';
+import { canCaptureKing, hasLegalMoves, isKingInCheck, posToNotation } from './game';
+import type { LegalMove, MoveResolution } from './rules';
+
+// Standard algebraic notation for Krachtschaak. It reads like chess SAN, keyed on the piece's current
+// type, with minimal disambiguation and `+`/`#` suffixes. Krachtschaak additions:
+//   `^`   the move spends the piece's power without capturing: a move only the power allows, or a
+//         move both could make when the player chose to use the power (Bc4^).
+//   `x`   on the ambiguous en passant square it means the pawn is taken (Bxd6); leaving it out means
+//         the piece just moves there and keeps its pawn power (Bd6).
+// Both functions take the moves the side to move has, as returned by `generateMoves`.
+
+export const PIECE_LETTERS: Record<PieceType, string> = {
+    [PieceType.Pawn]: '',
+    [PieceType.Knight]: 'N',
+    [PieceType.Bishop]: 'B',
+    [PieceType.Rook]: 'R',
+    [PieceType.Queen]: 'Q',
+    [PieceType.King]: 'K',
+};
+
+const LETTER_TYPES: Record<string, PieceType> = { N: PieceType.Knight, B: PieceType.Bishop, R: PieceType.Rook, Q: PieceType.Queen, K: PieceType.King };
+
+const SAN_PATTERN = /^([KQRBN])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=?([QRBNK]))?(\^)?$/;
+
+const spendsPower = (r: MoveResolution): boolean => !r.captured && !r.record.promotion && (r.isPowerMove || !!r.record.isForcePower);
+
+// The SAN of a move without its check suffix.
+const sanBody = (resolution: MoveResolution, moves: LegalMove[]): string => {
+    const { piece, captured, record, isCastle } = resolution;
+    const { from, to } = record;
+    if (isCastle) return to.col > from.col ? 'O-O' : 'O-O-O';
+
+    const letter = PIECE_LETTERS[piece.type];
+    const rivals = moves.map(m => m.resolution).filter(r =>
+        r.piece.type === piece.type &&
+        r.record.to.row === to.row && r.record.to.col === to.col &&
+        (r.record.from.row !== from.row || r.record.from.col !== from.col)
+    );
+
+    let disambiguation = '';
+    const file = posToNotation(from.row, from.col)[0];
+    const rank = posToNotation(from.row, from.col)[1];
+    if (rivals.length > 0) {
+        if (!rivals.some(r => r.record.from.col === from.col)) disambiguation = file;
+        else if (!rivals.some(r => r.record.from.row === from.row)) disambiguation = rank;
+        else disambiguation = file + rank;
+    } else if (!letter && captured) {
+        disambiguation = file;
+    }
+
+    let san = `${letter}${disambiguation}${captured ? 'x' : ''}${posToNotation(to.row, to.col)}`;
+    if (record.promotion) san += `=${PIECE_LETTERS[record.promotion]}`;
+    if (spendsPower(resolution)) san += '^';
+    return san;
+};
+
+const checkSuffix = (resolution: MoveResolution, mover: Color): string => {
+    if (resolution.isKingCapture) return '';
+    const opponent = mover === Color.White ? Color.Black : Color.White;
+    const board: BoardState = resolution.board;
+    if (!isKingInCheck(board, opponent)) return '';
+    const isMate = !hasLegalMoves(board, opponent, resolution.enPassantTarget) && !canCaptureKing(board, opponent);
+    return isMate ? '#' : '+';
+};
+
+export const toSan = (resolution: MoveResolution, moves: LegalMove[]): string =>
+    sanBody(resolution, moves) + checkSuffix(resolution, resolution.piece.color);
+
+const cleanToken = (token: string): string => token
+    .replace(/e\.p\.$/, '')
+    .replace(/[+#!?]+$/, '')
+    .replace(/0/g, 'O');
+
+// Finds the move a SAN token stands for. Also accepts the long notation of older games (Ng1-f3,
+// e2xd3^) and loose SAN from other tools, as long as it points at a single move.
+export const parseSan = (token: string, moves: LegalMove[]): LegalMove | null => {
+    const san = cleanToken(token.trim());
+    if (!san) return null;
+
+    const exact = moves.find(m => sanBody(m.resolution, moves) === san || m.resolution.record.notation === san);
+    if (exact) return exact;
+
+    if (san === 'O-O' || san === 'O-O-O') {
+        return moves.find(m => m.resolution.isCastle && (m.resolution.record.to.col > m.resolution.record.from.col) === (san === 'O-O')) || null;
+    }
+
+    const match = san.match(SAN_PATTERN);
+    if (!match) return null;
+    const [, letter, fromFile, fromRank, capture, square, promotion, spends] = match;
+    const pieceType = letter ? LETTER_TYPES[letter] : PieceType.Pawn;
+
+    const candidates = moves.filter(m => {
+        const r = m.resolution;
+        const from = posToNotation(r.record.from.row, r.record.from.col);
+        if (r.piece.type !== pieceType && r.piece.originalType !== pieceType) return false;
+        if (posToNotation(r.record.to.row, r.record.to.col) !== square) return false;
+        if (fromFile && from[0] !== fromFile) return false;
+        if (fromRank && from[1] !== fromRank) return false;
+        if (capture && !r.captured) return false;
+        if ((promotion ? LETTER_TYPES[promotion] : undefined) !== r.record.promotion) return false;
+        return true;
+    });
+    if (candidates.length <= 1) return candidates[0] || null;
+
+    // Prefer the reading that matches the optional markers, then the current piece type.
+    const score = (m: LegalMove) =>
+        (spendsPower(m.resolution) === !!spends ? 4 : 0) +
+        (!!m.resolution.captured === !!capture ? 2 : 0) +
+        (m.resolution.piece.type === pieceType ? 1 : 0);
+    const best = Math.max(...candidates.map(score));
+    const top = candidates.filter(m => score(m) === best);
+    return top.length === 1 ? top[0] : null;
+};
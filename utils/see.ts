@@ -0,0 +1,94 @@
+import { BoardState, Color, MoveIntent, Piece, PieceType, Position, RuleSet } from '../types';
+import { DEFAULT_EVAL_PARAMS, EvalParams, pieceValue } from './evaluation';
+import { getMovesForPieceType } from './game';
+import { isPromotionMove, opponentOf, resolveMove, STANDARD_RULES } from './rules';
+
+// Static exchange evaluation: what a capture wins once both sides have recaptured on its square for as
+// long as it pays. Every capture is played out with the rules, so a piece that recaptures carries the
+// power it picks up into the next exchange, and is worth that much more to take. A step's gain is the
+// victim's value plus whatever the capturing piece gains in value, its new power or promotion.
+
+// Whether a piece moving as `type` could reach a square `dr` rows and `dc` columns away, ignoring
+// blockers; a cheap test before generating its moves.
+const mightReach = (type: PieceType, dr: number, dc: number): boolean => {
+    const ar = Math.abs(dr), ac = Math.abs(dc);
+    switch (type) {
+        case PieceType.Pawn: return ar === 1 && ac === 1;
+        case PieceType.Knight: return ar * ac === 2;
+        case PieceType.Bishop: return ar === ac;
+        case PieceType.Rook: return ar === 0 || ac === 0;
+        case PieceType.Queen: return ar === ac || ar === 0 || ac === 0;
+        case PieceType.King: return Math.max(ar, ac) === 1;
+    }
+};
+
+// The squares of the pieces of `color` that attack `square`, by their type or their power, cheapest first.
+export const attackersOf = (board: BoardState, square: Position, color: Color, params: EvalParams = DEFAULT_EVAL_PARAMS): Position[] => {
+    const found: { from: Position, value: number }[] = [];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = board[r][c];
+            if (!piece || piece.color !== color) continue;
+            const types = piece.power && piece.power !== piece.type ? [piece.type, piece.power] : [piece.type];
+            const attacks = types.some(type => mightReach(type, square.row - r, square.col - c)
+                && getMovesForPieceType(board, { row: r, col: c }, type, null, true).some(m => m.row === square.row && m.col === square.col));
+            if (attacks) found.push({ from: { row: r, col: c }, value: pieceValue(piece, params) });
+        }
+    }
+    return found.sort((a, b) => a.value - b.value).map(a => a.from);
+};
+
+// A capture onto `to` from `from`, promoting to a queen where it must promote.
+const captureIntent = (board: BoardState, from: Position, to: Position): MoveIntent =>
+    isPromotionMove(board, from, to, null) ? { from, to, promotion: PieceType.Queen } : { from, to };
+
+// What `move` wins for the side making it, in centipawns, when each side goes on recapturing on the
+// square with its cheapest attacker while that pays. Not a capture: 0. Pins are not looked at.
+export const staticExchange = (board: BoardState, move: MoveIntent, enPassantTarget: Position | null, rules: RuleSet = STANDARD_RULES, params: EvalParams = DEFAULT_EVAL_PARAMS): number => {
+    const first = resolveMove(board, enPassantTarget, move, rules);
+    if (!first.captured) return 0;
+    const { to } = move;
+    const stepGain = (captured: Piece, before: Piece, after: Piece) =>
+        pieceValue(captured, params) + pieceValue(after, params) - pieceValue(before, params);
+
+    // gains[d]: the material the side making capture d has won once it is made, if the exchange stops there.
+    const gains = [stepGain(first.captured, first.piece, first.board[to.row][to.col]!)];
+    let current = first.board;
+    let side = opponentOf(first.piece.color);
+    for (;;) {
+        const victim = current[to.row][to.col]!;
+        const from = attackersOf(current, to, side, params)[0];
+        if (!from) break;
+        const next = resolveMove(current, null, captureIntent(current, from, to), rules);
+        gains.push(stepGain(victim, next.piece, next.board[to.row][to.col]!) - gains[gains.length - 1]);
+        current = next.board;
+        side = opponentOf(side);
+    }
+    // Each side may stop recapturing when going on would lose more.
+    for (let d = gains.length - 1; d > 0; d--) gains[d - 1] = -Math.max(-gains[d - 1], gains[d]);
+    return gains[0];
+};
+
+export interface HangingPiece {
+    square: Position;
+    loss: number; // what the opponent's best capture of it wins
+}
+
+// The pieces of `color` the opponent would win material by capturing, if it were the opponent's move.
+export const hangingPieces = (board: BoardState, color: Color, rules: RuleSet = STANDARD_RULES, params: EvalParams = DEFAULT_EVAL_PARAMS): HangingPiece[] => {
+    const hanging: HangingPiece[] = [];
+    const opponent = opponentOf(color);
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = board[r][c];
+            if (!piece || piece.color !== color || piece.isKing || piece.originalType === PieceType.King) continue;
+            const square = { row: r, col: c };
+            let loss = 0;
+            for (const from of attackersOf(board, square, opponent, params)) {
+                loss = Math.max(loss, staticExchange(board, captureIntent(board, from, square), null, rules, params));
+            }
+            if (loss > 0) hanging.push({ square, loss });
+        }
+    }
+    return hanging;
+};
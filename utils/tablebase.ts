@@ -0,0 +1,472 @@
+import { BoardState, Color, Piece, PieceType, Position, RuleSet } from '../types';
+import { castlingRookMask, findKingPosition, generateBoardKey, isKingInCheck, liveEnPassantTarget } from './game';
+import { generateMoves, isStandardRules, LegalMove, opponentOf, STANDARD_RULES } from './rules';
+
+// Endgame tablebases: the exact result of every position with a given material, found by retrograde
+// analysis. Play is chess-like: a side with no legal move loses when in check and draws otherwise.
+// Tables leave out castling, which needs pieces that have not moved, and treat a position with a live
+// en passant capture as not covered; the fifty-move rule and insufficient material do not count, so
+// a table shows what can be forced, however long it takes.
+//
+// A table covers one material: the pieces of each side, told apart by type, power, original type and
+// king flag. Its name lists the stronger side first, e.g. KQvK or KN(nq0)vK, with the same piece
+// codes as generateBoardKey: a piece that is more than its type gets (original type, power, king flag).
+// Positions of the other colouring are probed with colours swapped and the board mirrored.
+//
+// A table file is little-endian:
+//   header: magic "KTB1", name length (u16), piece count (u8), reserved (u8), name (ASCII)
+//   values: one byte per index, deflated (zlib format)
+// An index is the side to move (White, Black) followed by each piece's square (0-63, a8 first), in the
+// order of the name. A value is from the side to move's point of view: 0 a draw, 1-127 mate in that
+// many moves, 128-254 mated in (value - 128) moves, 255 an impossible position.
+
+const MAGIC = 0x3142544b; // "KTB1"
+const HEADER_BYTES = 8;
+const DRAW = 0;
+const LOSS_BASE = 128;
+const ILLEGAL = 255;
+
+// Where the app looks for its tables; `npm run tablebase` writes them there with an index.json.
+export const TABLEBASE_URL = 'tablebases/';
+
+export interface TablebaseResult {
+    result: 'win' | 'draw' | 'loss'; // for the side to move
+    plies: number;                   // to the checkmate, 0 for a draw
+}
+
+const CODES: Record<PieceType, string> = {
+    [PieceType.King]: 'k', [PieceType.Queen]: 'q', [PieceType.Rook]: 'r',
+    [PieceType.Bishop]: 'b', [PieceType.Knight]: 'n', [PieceType.Pawn]: 'p',
+};
+const TYPES = Object.fromEntries(Object.entries(CODES).map(([type, code]) => [code, type as PieceType]));
+const ORDER = 'KQRBNP';
+
+// A piece's code, whatever its colour.
+export const pieceCode = (p: Piece): string => {
+    const char = CODES[p.type].toUpperCase();
+    if (p.originalType === p.type && !p.power && p.isKing === (p.type === PieceType.King)) return char;
+    return `${char}(${CODES[p.originalType]}${p.power ? CODES[p.power] : '-'}${p.isKing ? 1 : 0})`;
+};
+
+const compareCodes = (a: string, b: string): number =>
+    ORDER.indexOf(a[0]) - ORDER.indexOf(b[0]) || (a < b ? -1 : a > b ? 1 : 0);
+
+const sideName = (codes: string[]): string => [...codes].sort(compareCodes).join('');
+
+// Whether a side's pieces are named first: more pieces, or the same number and greater codes.
+const namedFirst = (a: string[], b: string[]): boolean =>
+    a.length !== b.length ? a.length > b.length : sideName(a) >= sideName(b);
+
+// The table name for the material on `board`, and whether Black takes the first side in it.
+export const materialSignature = (board: BoardState): { signature: string, flipped: boolean } => {
+    const white: string[] = [], black: string[] = [];
+    for (const row of board) {
+        for (const p of row) {
+            if (p) (p.color === Color.White ? white : black).push(pieceCode(p));
+        }
+    }
+    const flipped = !namedFirst(white, black);
+    const [first, second] = flipped ? [black, white] : [white, black];
+    return { signature: `${sideName(first)}v${sideName(second)}`, flipped };
+};
+
+const PIECE_PATTERN = /([KQRBNP])(?:\(([kqrbnp])([kqrbnp-])([01])\))?/g;
+
+const parseSide = (text: string, color: Color): Piece[] => {
+    const pieces: Piece[] = [];
+    let consumed = 0;
+    for (const match of text.matchAll(PIECE_PATTERN)) {
+        if (match.index !== consumed) break;
+        consumed += match[0].length;
+        const type = TYPES[match[1].toLowerCase()];
+        pieces.push(match[2]
+            ? { type, color, originalType: TYPES[match[2]], power: match[3] === '-' ? null : TYPES[match[3]], isKing: match[4] === '1', hasMoved: true }
+            : { type, color, originalType: type, power: null, isKing: type === PieceType.King, hasMoved: true });
+    }
+    if (consumed !== text.length) throw new Error(`Cannot read the pieces "${text}"`);
+    return pieces.sort((a, b) => compareCodes(pieceCode(a), pieceCode(b)));
+};
+
+// The pieces of a table, the first side as White, in index order.
+export const parseSignature = (signature: string): Piece[] => {
+    const sides = signature.split('v');
+    if (sides.length !== 2) throw new Error(`"${signature}" is not a table name like KQvK`);
+    const white = parseSide(sides[0], Color.White);
+    const black = parseSide(sides[1], Color.Black);
+    for (const side of [white, black]) {
+        if (!side.some(p => p.isKing || p.originalType === PieceType.King)) throw new Error(`Each side of "${signature}" needs a king`);
+    }
+    const pieces = [...white, ...black];
+    const canonical = materialSignature([pieces.map(p => p as Piece | null)]).signature;
+    if (canonical !== signature) throw new Error(`"${signature}" is named ${canonical}`);
+    return pieces;
+};
+
+export class TablebaseTable {
+    readonly pieces: Piece[];
+    private readonly codes: string[];
+
+    constructor(readonly signature: string, readonly values: Uint8Array) {
+        this.pieces = parseSignature(signature);
+        this.codes = this.pieces.map(pieceCode);
+        if (values.length !== 2 * 64 ** this.pieces.length) throw new Error(`Table ${signature} has the wrong size`);
+    }
+
+    // The index of a position in this table's colouring, or -1 when its material is different.
+    indexOf(board: BoardState, turn: Color): number {
+        const found: { code: string, color: Color, square: number }[] = [];
+        for (let r = 0; r < 8; r++) {
+            for (let c = 0; c < 8; c++) {
+                const p = board[r][c];
+                if (p) found.push({ code: pieceCode(p), color: p.color, square: r * 8 + c });
+            }
+        }
+        if (found.length !== this.codes.length) return -1;
+        found.sort((a, b) => (a.color === b.color ? 0 : a.color === Color.White ? -1 : 1) || compareCodes(a.code, b.code) || a.square - b.square);
+        let index = turn === Color.White ? 0 : 1;
+        for (let i = 0; i < found.length; i++) {
+            if (found[i].code !== this.codes[i] || found[i].color !== this.pieces[i].color) return -1;
+            index = index * 64 + found[i].square;
+        }
+        return index;
+    }
+}
+
+const mirror = (board: BoardState): BoardState =>
+    board.map((_, r) => board[7 - r].map(p => p && { ...p, color: opponentOf(p.color) }));
+
+const decodeValue = (value: number): TablebaseResult | null => {
+    if (value === ILLEGAL) return null;
+    if (value === DRAW) return { result: 'draw', plies: 0 };
+    if (value < LOSS_BASE) return { result: 'win', plies: 2 * value - 1 };
+    return { result: 'loss', plies: 2 * (value - LOSS_BASE) };
+};
+
+const encodeValue = (result: TablebaseResult): number => {
+    if (result.result === 'draw') return DRAW;
+    const value = result.result === 'win' ? (result.plies + 1) / 2 : LOSS_BASE + result.plies / 2;
+    if (value >= (result.result === 'win' ? LOSS_BASE : ILLEGAL)) throw new Error(`A mate in ${result.plies} plies is too long for a table`);
+    return value;
+};
+
+export class Tablebase {
+    private tables = new Map<string, TablebaseTable>();
+    maxPieces = 0;
+
+    add(table: TablebaseTable) {
+        this.tables.set(table.signature, table);
+        this.maxPieces = Math.max(this.maxPieces, table.pieces.length);
+    }
+
+    table(signature: string): TablebaseTable | undefined {
+        return this.tables.get(signature);
+    }
+
+    get signatures(): string[] {
+        return [...this.tables.keys()];
+    }
+
+    // The stored value of a position, or undefined when no table has its material.
+    value(board: BoardState, turn: Color): number | undefined {
+        const { signature, flipped } = materialSignature(board);
+        const table = this.tables.get(signature);
+        if (!table) return undefined;
+        const index = flipped ? table.indexOf(mirror(board), opponentOf(turn)) : table.indexOf(board, turn);
+        return table.values[index];
+    }
+
+    // The exact result of a position, or null when it is not covered.
+    probe(board: BoardState, turn: Color, enPassantTarget: Position | null, rules: RuleSet = STANDARD_RULES): TablebaseResult | null {
+        if (!isStandardRules(rules) || this.maxPieces === 0) return null;
+        let count = 0;
+        for (const row of board) {
+            for (const p of row) if (p) count++;
+        }
+        if (count > this.maxPieces) return null;
+        if (liveEnPassantTarget(board, turn, enPassantTarget) || castlingRookMask(board) !== 0) return null;
+        const value = this.value(board, turn);
+        return value === undefined ? null : decodeValue(value);
+    }
+}
+
+export interface TablebaseMove {
+    move: LegalMove;
+    result: TablebaseResult; // for the side making the move
+}
+
+// The legal moves of a position with their results, quickest win first, longest defence last; empty
+// when the moves do not all lead into covered positions.
+export const tablebaseMoves = (tablebase: Tablebase, board: BoardState, turn: Color, enPassantTarget: Position | null, rules: RuleSet = STANDARD_RULES): TablebaseMove[] => {
+    const moves: TablebaseMove[] = [];
+    for (const move of generateMoves(board, turn, enPassantTarget, true, rules)) {
+        const reply = tablebase.probe(move.resolution.board, opponentOf(turn), move.resolution.enPassantTarget, rules);
+        if (!reply) return [];
+        moves.push({
+            move,
+            result: reply.result === 'draw' ? reply : { result: reply.result === 'win' ? 'loss' : 'win', plies: reply.plies + 1 },
+        });
+    }
+    const rank = (r: TablebaseResult) => r.result === 'win' ? 1000 - r.plies : r.result === 'loss' ? r.plies - 1000 : 0;
+    return moves.sort((a, b) => rank(b.result) - rank(a.result));
+};
+
+// A table file, with its values compressed by `deflate` (zlib format).
+export const encodeTable = (table: TablebaseTable, deflate: (bytes: Uint8Array) => Uint8Array): Uint8Array => {
+    const name = new TextEncoder().encode(table.signature);
+    const data = deflate(table.values);
+    const out = new Uint8Array(HEADER_BYTES + name.length + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, MAGIC, true);
+    view.setUint16(4, name.length, true);
+    view.setUint8(6, table.pieces.length);
+    out.set(name, HEADER_BYTES);
+    out.set(data, HEADER_BYTES + name.length);
+    return out;
+};
+
+// A table from its file; `inflate` undoes encodeTable's `deflate`.
+export const readTableFile = (buffer: ArrayBuffer, inflate: (bytes: Uint8Array) => Uint8Array): TablebaseTable => {
+    const { signature, data } = splitTableFile(buffer);
+    return new TablebaseTable(signature, inflate(data));
+};
+
+// The name of a table file and its still compressed values.
+const splitTableFile = (buffer: ArrayBuffer): { signature: string, data: Uint8Array } => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < HEADER_BYTES || view.getUint32(0, true) !== MAGIC) throw new Error('Not a tablebase table');
+    const nameLength = view.getUint16(4, true);
+    return {
+        signature: new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, nameLength)),
+        data: new Uint8Array(buffer, HEADER_BYTES + nameLength),
+    };
+};
+
+// The board of index `index` of a table, or null when two pieces share a square or a pawn stands on
+// the first or last rank.
+const boardAt = (pieces: Piece[], index: number): BoardState | null => {
+    const board: BoardState = Array.from({ length: 8 }, () => Array(8).fill(null));
+    for (let i = pieces.length - 1; i >= 0; i--) {
+        const square = index % 64;
+        index = Math.floor(index / 64);
+        const row = square >> 3, col = square & 7;
+        if (board[row][col] || (pieces[i].type === PieceType.Pawn && (row === 0 || row === 7))) return null;
+        board[row][col] = { ...pieces[i] };
+    }
+    return board;
+};
+
+export interface GenerateProgress {
+    signature: string;
+    positions: number;
+    seconds: number;
+}
+
+// Node states during generation.
+const PENDING = 0, WON = 1, LOST = 2, DRAWN = 3, IMPOSSIBLE = 4;
+
+// Builds the table `signature` and every table it leads into that `tablebase` lacks, adding them all to
+// `tablebase`. Each position's moves are generated once; the results then spread backwards from the
+// checkmates, shortest first, so a won position takes its quickest mate and a lost one its longest
+// defence. Tables grow as 64 to the number of pieces: three pieces take about a minute, four pieces
+// need a few gigabytes of memory and hours.
+export const generateTable = (signature: string, tablebase: Tablebase, onProgress?: (progress: GenerateProgress) => void): TablebaseTable => {
+    const existing = tablebase.table(signature);
+    if (existing) return existing;
+    const started = Date.now();
+    const pieces = parseSignature(signature);
+    const template = new TablebaseTable(signature, new Uint8Array(2 * 64 ** pieces.length));
+    const size = template.values.length;
+    const half = size / 2;
+
+    // The value of a position after a move that leaves this material, building its table first if need be.
+    const external = (board: BoardState, turn: Color): number => {
+        const value = tablebase.value(board, turn);
+        if (value !== undefined) return value;
+        generateTable(materialSignature(board).signature, tablebase, onProgress);
+        return tablebase.value(board, turn)!;
+    };
+
+    // The graph: one node per index, then one per position with a live en passant capture, which the
+    // table does not store but which play passes through.
+    const edgeStart: number[] = [];
+    const edges: number[] = [];
+    const initial: number[] = [];
+    const externalWin: number[] = [];  // plies of the quickest mate through a move out of the table, -1 for none
+    const externalLoss: number[] = []; // plies of the longest defence through moves out of the table
+    const externalDraw: boolean[] = [];
+    const passNodes = new Map<string, number>();
+    const passQueue: { board: BoardState, turn: Color, enPassantTarget: Position }[] = [];
+
+    const expand = (board: BoardState | null, turn: Color, enPassantTarget: Position | null) => {
+        edgeStart.push(edges.length);
+        let win = -1, loss = 0, draw = false;
+        let state = PENDING;
+        if (!board || isKingInCheck(board, opponentOf(turn)) || !findKingPosition(board, turn)) {
+            state = IMPOSSIBLE;
+        } else {
+            const moves = generateMoves(board, turn, enPassantTarget, true, STANDARD_RULES);
+            if (moves.length === 0) {
+                if (isKingInCheck(board, turn)) state = LOST;
+                else draw = true;
+            }
+            for (const { resolution } of moves) {
+                const next = opponentOf(turn);
+                const passTarget = liveEnPassantTarget(resolution.board, next, resolution.enPassantTarget);
+                if (passTarget) {
+                    const key = generateBoardKey(resolution.board, next, passTarget);
+                    let node = passNodes.get(key);
+                    if (node === undefined) {
+                        node = size + passNodes.size;
+                        passNodes.set(key, node);
+                        passQueue.push({ board: resolution.board, turn: next, enPassantTarget: passTarget });
+                    }
+                    edges.push(node);
+                    continue;
+                }
+                const index = template.indexOf(resolution.board, next);
+                if (index !== -1) {
+                    edges.push(index);
+                    continue;
+                }
+                const result = decodeValue(external(resolution.board, next));
+                if (!result || result.result === 'draw') draw = true;
+                else if (result.result === 'loss') win = win === -1 ? result.plies + 1 : Math.min(win, result.plies + 1);
+                else loss = Math.max(loss, result.plies + 1);
+            }
+        }
+        initial.push(state);
+        externalWin.push(win);
+        externalLoss.push(loss);
+        externalDraw.push(draw);
+    };
+
+    for (let index = 0; index < size; index++) {
+        expand(boardAt(pieces, index % half), index < half ? Color.White : Color.Black, null);
+    }
+    for (let i = 0; i < passQueue.length; i++) {
+        const { board, turn, enPassantTarget } = passQueue[i];
+        expand(board, turn, enPassantTarget);
+    }
+    const nodes = initial.length;
+    edgeStart.push(edges.length);
+
+    // Predecessors of each node, in compressed rows.
+    const predStart = new Int32Array(nodes + 1);
+    for (const to of edges) predStart[to + 1]++;
+    for (let i = 0; i < nodes; i++) predStart[i + 1] += predStart[i];
+    const preds = new Int32Array(edges.length);
+    const fill = predStart.slice(0, nodes);
+    for (let from = 0; from < nodes; from++) {
+        for (let e = edgeStart[from]; e < edgeStart[from + 1]; e++) preds[fill[edges[e]]++] = from;
+    }
+
+    const state = Uint8Array.from(initial);
+    const plies = new Uint16Array(nodes);
+    const remaining = new Uint16Array(nodes);
+    const longest = new Uint16Array(nodes);
+    // Candidate results by plies, as node * 2 + 1 for a win and node * 2 for a loss.
+    const buckets: number[][] = [];
+    const candidate = (node: number, distance: number, won: boolean) => (buckets[distance] ||= []).push(node * 2 + (won ? 1 : 0));
+
+    for (let node = 0; node < nodes; node++) {
+        if (state[node] === IMPOSSIBLE) continue;
+        if (state[node] === LOST) {
+            state[node] = PENDING;
+            candidate(node, 0, false);
+            continue;
+        }
+        remaining[node] = edgeStart[node + 1] - edgeStart[node];
+        longest[node] = externalLoss[node];
+        if (externalWin[node] !== -1) candidate(node, externalWin[node], true);
+        else if (remaining[node] === 0) {
+            if (externalDraw[node]) state[node] = DRAWN;
+            else candidate(node, longest[node], false);
+        }
+    }
+
+    for (let distance = 0; distance < buckets.length; distance++) {
+        for (const entry of buckets[distance] || []) {
+            const node = entry >> 1, won = (entry & 1) === 1;
+            if (state[node] !== PENDING) continue;
+            state[node] = won ? WON : LOST;
+            plies[node] = distance;
+            for (let p = predStart[node]; p < predStart[node + 1]; p++) {
+                const pred = preds[p];
+                if (state[pred] !== PENDING) continue;
+                if (!won) {
+                    candidate(pred, distance + 1, true);
+                    continue;
+                }
+                longest[pred] = Math.max(longest[pred], distance + 1);
+                if (--remaining[pred] === 0 && !externalDraw[pred] && externalWin[pred] === -1) candidate(pred, longest[pred], false);
+            }
+        }
+    }
+
+    const values = new Uint8Array(size);
+    for (let index = 0; index < size; index++) {
+        values[index] = state[index] === IMPOSSIBLE ? ILLEGAL
+            : state[index] === WON ? encodeValue({ result: 'win', plies: plies[index] })
+                : state[index] === LOST ? encodeValue({ result: 'loss', plies: plies[index] })
+                    : DRAW;
+    }
+    const table = new TablebaseTable(signature, values);
+    tablebase.add(table);
+    onProgress?.({ signature, positions: size, seconds: (Date.now() - started) / 1000 });
+    return table;
+};
+
+export interface TableSummary {
+    wins: number;
+    draws: number;
+    losses: number;
+    longest: { plies: number, index: number };
+}
+
+// Counts of the results in a table for one side to move, and its longest mate.
+export const summarizeTable = (table: TablebaseTable, turn: Color): TableSummary => {
+    const half = table.values.length / 2;
+    const offset = turn === Color.White ? 0 : half;
+    const summary: TableSummary = { wins: 0, draws: 0, losses: 0, longest: { plies: 0, index: -1 } };
+    for (let i = offset; i < offset + half; i++) {
+        const result = decodeValue(table.values[i]);
+        if (!result) continue;
+        if (result.result === 'draw') summary.draws++;
+        else if (result.result === 'win') summary.wins++;
+        else summary.losses++;
+        if (result.plies > summary.longest.plies) summary.longest = { plies: result.plies, index: i };
+    }
+    return summary;
+};
+
+// The position at `index` of a table, as a board with the side to move.
+export const tablePosition = (table: TablebaseTable, index: number): { board: BoardState, turn: Color } | null => {
+    const half = table.values.length / 2;
+    const board = boardAt(table.pieces, index % half);
+    return board && { board, turn: index < half ? Color.White : Color.Black };
+};
+
+let tablebasePromise: Promise<Tablebase> | null = null;
+
+// The app's tables, fetched once: those listed in the index.json next to them. Empty when there are none.
+export const loadTablebase = (): Promise<Tablebase> => {
+    if (!tablebasePromise) {
+        const tablebase = new Tablebase();
+        tablebasePromise = fetch(`${TABLEBASE_URL}index.json`)
+            .then(response => response.ok ? response.json() : [])
+            .then((signatures: string[]) => Promise.all(signatures.map(async signature => {
+                try {
+                    const response = await fetch(`${TABLEBASE_URL}${encodeURIComponent(signature)}.ktb`);
+                    if (!response.ok) return;
+                    const file = splitTableFile(await response.arrayBuffer());
+                    const inflated = new Response(new Blob([file.data]).stream().pipeThrough(new DecompressionStream('deflate')));
+                    tablebase.add(new TablebaseTable(file.signature, new Uint8Array(await inflated.arrayBuffer())));
+                } catch {
+                    // A table that does not load is left out.
+                }
+            })))
+            .then(() => tablebase)
+            .catch(() => tablebase);
+    }
+    return tablebasePromise;
+};
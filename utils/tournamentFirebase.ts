@@ -1,7 +1,7 @@
 import { db, auth } from '../firebaseConfig';
 import {
     TournamentData, TournamentPlayer, TournamentPairing, TournamentRound,
-    TimerSettings, PairingMode, PairingResult
+    TimerSettings, PairingMode, PairingResult, Variant
 } from '../types';
 
 // Generate a short readable ID
@@ -27,7 +27,8 @@ export const createTournament = async (
     flags?: string[],
     expectedStartDate?: string,
     timezone?: string,
-    kFen?: string
+    kFen?: string,
+    variant: Variant = 'standard'
 ): Promise<string> => {
     const id = generateTournamentId();
     const players: Record<string, TournamentPlayer> = {};
@@ -77,6 +78,7 @@ export const createTournament = async (
     if (expectedStartDate) tournament.expectedStartDate = expectedStartDate;
     if (timezone) tournament.timezone = timezone;
     if (kFen) tournament.kFen = kFen;
+    if (variant !== 'standard') tournament.variant = variant;
 
     await db.ref(`tournaments/${id}`).set(tournament);
     return id;
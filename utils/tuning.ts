@@ -0,0 +1,206 @@
+import KrachtschaakAI, { MutableBoard } from '../engine';
+import { BoardState, Color, RuleSet } from '../types';
+import { DEFAULT_EVAL_PARAMS, EVAL_TERMS, EvalParams, evaluateTerms } from './evaluation';
+import { ArchiveGame } from './gameArchive';
+import { isKingInCheck } from './game';
+
+// Texel tuning: the evaluation weights that best predict the results of finished games. Each quiet
+// position of a game is labelled with the game's result, a score maps to an expected result through
+// a logistic curve, and a local search moves one weight at a time while the mean squared error drops.
+
+export interface TuningPosition {
+    board: BoardState;
+    turn: Color;
+    rules: RuleSet;
+    result: number; // 1, 0.5 or 0, from White's point of view
+}
+
+export interface ExtractOptions {
+    skipPlies: number;     // opening moves to leave out
+    maxPositions: number;  // spread evenly over all quiet positions beyond this
+    maxScore: number;      // leave out positions already decided by this many centipawns
+}
+
+export const DEFAULT_EXTRACT_OPTIONS: ExtractOptions = { skipPlies: 8, maxPositions: 20000, maxScore: 2000 };
+
+// The quiet positions of `games`: not in check, and no capture sequence changes the static score under
+// `params`, the weights the tuning starts from. The engine evaluates with them meanwhile.
+export const extractPositions = (games: ArchiveGame[], options: ExtractOptions = DEFAULT_EXTRACT_OPTIONS, params: EvalParams = DEFAULT_EVAL_PARAMS): TuningPosition[] => {
+    const quiet: TuningPosition[] = [];
+    const previous = KrachtschaakAI.getEvalParams();
+    KrachtschaakAI.setEvalParams(params);
+    KrachtschaakAI.resetStopFlag();
+    for (const game of games) {
+        for (const { board, turn, enPassantTarget } of game.positions.slice(options.skipPlies)) {
+            if (isKingInCheck(board, turn)) continue;
+            const mutableBoard = new MutableBoard(board, turn, enPassantTarget, game.rules);
+            const standPat = KrachtschaakAI.evaluate(mutableBoard);
+            if (Math.abs(standPat) > options.maxScore) continue;
+            if (KrachtschaakAI.quiescenceSearch(mutableBoard, -Infinity, Infinity) !== standPat) continue;
+            quiet.push({ board, turn, rules: game.rules, result: game.result });
+        }
+    }
+    KrachtschaakAI.setEvalParams(previous);
+    if (quiet.length <= options.maxPositions) return quiet;
+    const stride = quiet.length / options.maxPositions;
+    return Array.from({ length: options.maxPositions }, (_, i) => quiet[Math.floor(i * stride)]);
+};
+
+// The static score from White's point of view, unrounded so single steps of a weight show.
+export const whiteScore = (position: TuningPosition, params: EvalParams): number => {
+    const terms = evaluateTerms(position.board, position.turn, position.rules, params);
+    return EVAL_TERMS.reduce((sum, term) => sum + terms[term][0] - terms[term][1], 0);
+};
+
+// The expected result for White at `score` centipawns.
+export const expectedResult = (score: number, k: number): number => 1 / (1 + Math.pow(10, -k * score / 400));
+
+export const meanSquaredError = (scores: number[], positions: TuningPosition[], k: number): number => {
+    let sum = 0;
+    for (let i = 0; i < positions.length; i++) {
+        const diff = positions[i].result - expectedResult(scores[i], k);
+        sum += diff * diff;
+    }
+    return sum / Math.max(1, positions.length);
+};
+
+export interface ErrorStatistics {
+    meanSquared: number;
+    meanAbsolute: number;
+    decisiveCorrect: number; // share of won and lost positions where the score favours the winner
+}
+
+export const errorStatistics = (params: EvalParams, positions: TuningPosition[], k: number): ErrorStatistics => {
+    let squared = 0, absolute = 0, decisive = 0, correct = 0;
+    for (const position of positions) {
+        const score = whiteScore(position, params);
+        const diff = position.result - expectedResult(score, k);
+        squared += diff * diff;
+        absolute += Math.abs(diff);
+        if (position.result !== 0.5) {
+            decisive++;
+            if ((score > 0) === (position.result === 1) && score !== 0) correct++;
+        }
+    }
+    const n = Math.max(1, positions.length);
+    return { meanSquared: squared / n, meanAbsolute: absolute / n, decisiveCorrect: correct / Math.max(1, decisive) };
+};
+
+// The curve's steepness that fits the current weights best, by golden-section search.
+export const fitScalingConstant = (scores: number[], positions: TuningPosition[]): number => {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let low = 0.05, high = 4;
+    for (let i = 0; i < 40; i++) {
+        const a = high - ratio * (high - low);
+        const b = low + ratio * (high - low);
+        if (meanSquaredError(scores, positions, a) < meanSquaredError(scores, positions, b)) high = b;
+        else low = a;
+    }
+    return (low + high) / 2;
+};
+
+export type ParamGroup = keyof EvalParams;
+
+export const PARAM_GROUPS: ParamGroup[] = ['pieceValues', 'combinationBonuses', 'pieceSquare', 'mobility', 'kingSafety', 'pawnStructure', 'powerThreat', 'tempo'];
+
+// How far one step moves a weight in each group.
+const GROUP_STEPS: Record<ParamGroup, number> = {
+    pieceValues: 5, combinationBonuses: 5, pieceSquare: 2, mobility: 1, kingSafety: 1, pawnStructure: 2, powerThreat: 2, tempo: 1,
+};
+
+// One weight, by its path in EvalParams, e.g. ['pieceSquare', 'knight', 27].
+export type ParamPath = (string | number)[];
+
+// Every numeric weight in `groups`. The king's value only stands for "game over", so it is not tuned.
+export const tunableParams = (params: EvalParams, groups: ParamGroup[]): ParamPath[] => {
+    const paths: ParamPath[] = [];
+    const walk = (value: unknown, path: ParamPath) => {
+        if (typeof value === 'number') paths.push(path);
+        else if (Array.isArray(value)) value.forEach((v, i) => walk(v, [...path, i]));
+        else if (value && typeof value === 'object') Object.entries(value).forEach(([key, v]) => walk(v, [...path, key]));
+    };
+    for (const group of groups) walk(params[group], [group]);
+    return paths.filter(path => !(path[0] === 'pieceValues' && path[1] === 'king'));
+};
+
+export const formatParamPath = (path: ParamPath): string =>
+    path.map((part, i) => typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`).join('');
+
+export const getParam = (params: EvalParams, path: ParamPath): number =>
+    path.reduce((value: any, key) => value[key], params) as number;
+
+// A copy of `params` with the weight at `path` set to `value`.
+export const setParam = (params: EvalParams, path: ParamPath, value: number): EvalParams => {
+    const update = (node: any, depth: number): any => {
+        const key = path[depth];
+        const copy = Array.isArray(node) ? [...node] : { ...node };
+        copy[key] = depth === path.length - 1 ? value : update(node[key], depth + 1);
+        return copy;
+    };
+    return update(params, 0);
+};
+
+export interface TuneOptions {
+    groups: ParamGroup[];
+    maxIterations: number;
+}
+
+export interface TuneProgress {
+    iteration: number;
+    error: number;
+    changed: number;
+}
+
+export interface TuneReport {
+    params: EvalParams;
+    k: number;
+    positions: number;
+    errorBefore: number;
+    errorAfter: number;
+    iterations: number;
+    changes: { path: ParamPath, before: number, after: number }[];
+}
+
+// Local search: each pass tries every weight a step up, then a step down, and keeps what lowers the
+// error, until a pass changes nothing or `maxIterations` passes have run.
+export const tune = (positions: TuningPosition[], initial: EvalParams = DEFAULT_EVAL_PARAMS, options: TuneOptions, onProgress?: (progress: TuneProgress) => void): TuneReport => {
+    const scoresFor = (params: EvalParams) => positions.map(p => whiteScore(p, params));
+    const k = fitScalingConstant(scoresFor(initial), positions);
+    const errorOf = (params: EvalParams) => meanSquaredError(scoresFor(params), positions, k);
+    const paths = tunableParams(initial, options.groups);
+
+    let params = initial;
+    let error = errorOf(params);
+    const errorBefore = error;
+    let iteration = 0;
+    while (iteration < options.maxIterations) {
+        iteration++;
+        let changed = 0;
+        for (const path of paths) {
+            const value = getParam(params, path);
+            const step = GROUP_STEPS[path[0] as ParamGroup];
+            for (const candidate of [value + step, value - step]) {
+                const next = setParam(params, path, candidate);
+                const nextError = errorOf(next);
+                if (nextError < error) {
+                    params = next;
+                    error = nextError;
+                    changed++;
+                    break;
+                }
+            }
+        }
+        onProgress?.({ iteration, error, changed });
+        if (changed === 0) break;
+    }
+
+    const changes = paths
+        .map(path => ({ path, before: getParam(initial, path), after: getParam(params, path) }))
+        .filter(change => change.before !== change.after);
+    return { params, k, positions: positions.length, errorBefore, errorAfter: error, iterations: iteration, changes };
+};
+
+// JSON in the layout of evalParams.json: one line per table.
+export const formatEvalParams = (params: EvalParams): string =>
+    JSON.stringify(params, null, 4).replace(/\[([-\d.,\s]*)\]/g, (_, list: string) =>
+        `[${list.split(',').map(v => v.trim()).join(', ')}]`) + '\n';
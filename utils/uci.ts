@@ -0,0 +1,291 @@
+import KrachtschaakAI, { lineSearchContext, SearchLimits } from '../engine';
+import { Color, GameState, MoveIntent, PieceType, RuleSet } from '../types';
+import { chooseEngineMove, engineLevel, ENGINE_LEVELS } from './engineLevels';
+import { evalTrace } from './evaluation';
+import { boardToKrachtschaakFen, posToNotation } from './game';
+import { OpeningBook, pickBookMove } from './openingBook';
+import { completeTurn, createGameState, gameRules, generateMoves, isStandardRules, LegalMove, opponentOf, STANDARD_RULES } from './rules';
+import { parseSan } from './san';
+import { WDL_MODEL_NOTE, wdlPermille } from './wdl';
+
+// A line protocol modelled on UCI, so scripts, match runners and GUIs can drive the engine. It speaks
+// the UCI commands (uci, isready, ucinewgame, setoption, position, go, stop, quit) with these changes:
+//   `position kfen <KFen>` sets up any Krachtschaak position; `fen` is accepted as an alias.
+//   Moves are coordinates (e2e4, e7e8q) with two Krachtschaak suffixes: `^` spends the power on an
+//   ambiguous move, `(move)` steps onto the en passant square without taking. `position` also
+//   accepts SAN.
+//   The power rules are options: Powers, PowerOnCapture, PowerPersists and KingGainsPowers.
+//   The transposition table (option Hash, in MB) is kept between searches until `ucinewgame`.
+//   With the option UCI_ShowWDL on, `info` lines carry the win/draw/loss chances after the score, in
+//   permille for the side to move (`wdl 420 380 200`, see utils/wdl.ts). Until the model there is
+//   fitted to games they are a rough estimate, and turning the option on says so in an `info string`.
+//   `eval` prints each evaluation term of the current position (see evalTrace).
+//   The option Level (1 to 6) plays as that level of the app's computer (utils/engineLevels.ts): within
+//   its depth and node caps, picking among its candidates. 0, the default, is full strength.
+//   A session given an opening book answers `go` from it while the position is in the book, unless the
+//   option OwnBook is off or the search is infinite.
+
+export const ENGINE_NAME = 'Krachtschaak';
+
+const MAX_MULTI_PV = 10;
+const MAX_HASH_MB = 1024;
+
+export const formatUciMove = (intent: MoveIntent): string => {
+    const { from, to, promotion, forcePower, enPassantChoice } = intent;
+    let text = `${posToNotation(from.row, from.col)}${posToNotation(to.row, to.col)}`;
+    if (promotion) text += promotion === PieceType.Knight ? 'n' : promotion[0];
+    if (forcePower) text += '^';
+    if (enPassantChoice === 'move') text += '(move)';
+    return text;
+};
+
+// The move a coordinate or SAN token stands for among `moves`.
+export const parseUciMove = (text: string, moves: LegalMove[]): LegalMove | null =>
+    moves.find(m => formatUciMove(m.intent) === text) || parseSan(text, moves);
+
+export interface GoLimits {
+    depth?: number;
+    movetime?: number;
+    nodes?: number;
+    wtime?: number;
+    btime?: number;
+    winc?: number;
+    binc?: number;
+    movestogo?: number;
+    infinite?: boolean;
+}
+
+export const parseGoLimits = (args: string[]): GoLimits => {
+    const limits: GoLimits = {};
+    for (let i = 0; i < args.length; i++) {
+        const name = args[i];
+        if (name === 'infinite') {
+            limits.infinite = true;
+            continue;
+        }
+        const value = parseInt(args[i + 1]);
+        if (isNaN(value)) continue;
+        if (['depth', 'movetime', 'nodes', 'wtime', 'btime', 'winc', 'binc', 'movestogo'].includes(name)) {
+            limits[name as Exclude<keyof GoLimits, 'infinite'>] = value;
+            i++;
+        }
+    }
+    return limits;
+};
+
+// The engine's limits for a `go` command; `infinite` runs until `stop`.
+const searchLimits = (limits: GoLimits, turn: Color): SearchLimits => {
+    if (limits.infinite) return {};
+    const isWhite = turn === Color.White;
+    return {
+        movetime: limits.movetime,
+        time: isWhite ? limits.wtime : limits.btime,
+        increment: isWhite ? limits.winc : limits.binc,
+        movesToGo: limits.movestogo,
+        nodes: limits.nodes,
+    };
+};
+
+// Engine scores are from the side to move; a mate is 20000 minus the ply it happens at.
+const formatScore = (score: number): string => {
+    if (Math.abs(score) <= 15000) return `cp ${Math.round(score)}`;
+    const plies = 20000 - Math.abs(score);
+    return `mate ${score > 0 ? Math.ceil(plies / 2) : -Math.ceil(plies / 2)}`;
+};
+
+export interface UciSession {
+    handle: (line: string) => void;
+    isSearching: () => boolean;
+}
+
+// One engine conversation. `send` receives every output line; `handle` takes one input line. A search
+// runs asynchronously and gives way between depths, where a `stop` from the input is seen; time and
+// node limits also cut a depth short.
+export const createUciSession = (send: (line: string) => void, book: OpeningBook | null = null): UciSession => {
+    let rules: RuleSet = { ...STANDARD_RULES };
+    let multiPv = 1;
+    let ownBook = !!book;
+    let showWdl = false;
+    let level = 0;
+    let state: GameState = createGameState(undefined, rules);
+    let played: GameState[] = [state]; // the positions of the game so far, `state` last
+    let searching = false;
+
+    const options = [
+        `option name Hash type spin default 16 min 1 max ${MAX_HASH_MB}`,
+        `option name MultiPV type spin default 1 min 1 max ${MAX_MULTI_PV}`,
+        'option name Powers type check default true',
+        'option name PowerOnCapture type combo default replace var replace var keep',
+        'option name PowerPersists type check default false',
+        'option name KingGainsPowers type check default true',
+        'option name UCI_ShowWDL type check default false',
+        `option name Level type spin default 0 min 0 max ${ENGINE_LEVELS.length}`,
+        ...(book ? ['option name OwnBook type check default true'] : []),
+    ];
+
+    const setOption = (args: string[]) => {
+        const valueAt = args.indexOf('value');
+        const name = args.slice(2, valueAt === -1 ? undefined : valueAt).join(' ').toLowerCase();
+        const value = valueAt === -1 ? '' : args.slice(valueAt + 1).join(' ');
+        switch (name) {
+            case 'hash': KrachtschaakAI.setHashSize(Math.max(1, Math.min(MAX_HASH_MB, parseInt(value) || 16))); return;
+            case 'multipv': multiPv = Math.max(1, Math.min(MAX_MULTI_PV, parseInt(value) || 1)); break;
+            case 'powers': rules = { ...rules, powers: value === 'true' }; break;
+            case 'poweroncapture': rules = { ...rules, powerOnCapture: value === 'keep' ? 'keep' : 'replace' }; break;
+            case 'powerpersists': rules = { ...rules, powerPersists: value === 'true' }; break;
+            case 'kinggainspowers': rules = { ...rules, kingGainsPowers: value === 'true' }; break;
+            case 'ownbook': ownBook = !!book && value === 'true'; return;
+            case 'level': level = Math.max(0, Math.min(ENGINE_LEVELS.length, parseInt(value) || 0)); return;
+            case 'uci_showwdl':
+                showWdl = value === 'true';
+                if (showWdl && WDL_MODEL_NOTE) send(`info string ${WDL_MODEL_NOTE}`);
+                return;
+            default: send(`info string unknown option ${name}`); return;
+        }
+        state = { ...state, rules };
+        played = [...played.slice(0, -1), state];
+    };
+
+    const setPosition = (args: string[]) => {
+        const movesAt = args.indexOf('moves');
+        const setup = args.slice(1, movesAt === -1 ? undefined : movesAt);
+        if (setup[0] !== 'startpos' && setup[0] !== 'kfen' && setup[0] !== 'fen') {
+            send(`info string expected startpos, kfen or fen after position`);
+            return;
+        }
+        let next: GameState;
+        const nextLine: GameState[] = [];
+        try {
+            next = setup[0] === 'startpos'
+                ? createGameState(undefined, rules)
+                : createGameState(setup.slice(1).join(' '), rules);
+        } catch (err) {
+            send(`info string ${err instanceof Error ? err.message : String(err)}`);
+            return;
+        }
+        for (const token of movesAt === -1 ? [] : args.slice(movesAt + 1)) {
+            if (next.status !== 'playing') break;
+            const move = parseUciMove(token, generateMoves(next.board, next.turn, next.enPassantTarget, false, rules));
+            if (!move) {
+                send(`info string illegal move ${token} in ${boardToKrachtschaakFen(next)}`);
+                return;
+            }
+            nextLine.push(next);
+            next = completeTurn(next, move.resolution);
+        }
+        state = next;
+        played = [...nextLine, next];
+    };
+
+    // Replays the engine's long-notation PV from the searched position.
+    const pvToUci = (position: GameState, pv: string[]): string[] => {
+        const line: string[] = [];
+        let { board, turn, enPassantTarget } = position;
+        for (const notation of pv) {
+            const move = generateMoves(board, turn, enPassantTarget, false, gameRules(position)).find(m => m.resolution.record.notation === notation);
+            if (!move) break;
+            line.push(formatUciMove(move.intent));
+            ({ board, enPassantTarget } = move.resolution);
+            turn = opponentOf(turn);
+        }
+        return line;
+    };
+
+    const go = (args: string[]) => {
+        if (searching) return;
+        const limits = parseGoLimits(args);
+        const position = state;
+        const context = lineSearchContext(played);
+        const started = Date.now();
+
+        // A finished game has nothing to search; `turn` is left on the side that ended it.
+        if (position.status !== 'playing') {
+            send(`info depth 0 score ${position.winner ? 'mate 0' : 'cp 0'}`);
+            send('bestmove (none)');
+            return;
+        }
+
+        if (book && ownBook && !limits.infinite && isStandardRules(gameRules(position))) {
+            const bookMove = pickBookMove(book, position.board, position.turn, position.enPassantTarget, gameRules(position));
+            if (bookMove) {
+                send('info string book move');
+                send(`bestmove ${formatUciMove(bookMove.intent)}`);
+                return;
+            }
+        }
+
+        KrachtschaakAI.resetStopFlag();
+        searching = true;
+
+        const onUpdate = (results: any[], depth: number) => {
+            const nodes = KrachtschaakAI.nodesVisited;
+            const time = Date.now() - started;
+            results.forEach((result, i) => {
+                const pv = pvToUci(position, result.pv || []).join(' ');
+                send(`info depth ${depth} multipv ${i + 1} score ${formatScore(result.score)}${showWdl && result.wdl ? ` wdl ${wdlPermille(result.wdl).join(' ')}` : ''} nodes ${nodes} nps ${Math.round(nodes * 1000 / Math.max(1, time))} hashfull ${KrachtschaakAI.hashfull()} time ${time} pv ${pv}`);
+            });
+        };
+
+        const skill = level > 0 ? engineLevel(level - 1) : null;
+        const depth = Math.min(limits.depth || 99, skill?.maxDepth ?? 99);
+        const engineLimits = searchLimits(limits, position.turn);
+        if (skill?.nodes) engineLimits.nodes = Math.min(engineLimits.nodes ?? Infinity, skill.nodes);
+        KrachtschaakAI.getBestMoveIterative(position.board, position.turn, depth, onUpdate, skill?.multiPv ?? multiPv, gameRules(position), engineLimits, context)
+            .then(results => {
+                searching = false;
+                const chosen = skill ? chooseEngineMove(results, level - 1) : null;
+                const line = chosen ? pvToUci(position, [chosen.notation])
+                    : results.length > 0 ? pvToUci(position, results[0].pv || []) : [];
+                send(line.length === 0 ? 'bestmove (none)' : `bestmove ${line[0]}${line[1] ? ` ponder ${line[1]}` : ''}`);
+            })
+            .catch(err => {
+                searching = false;
+                send(`info string ${err instanceof Error ? err.message : String(err)}`);
+                send('bestmove (none)');
+            });
+    };
+
+    const handle = (input: string) => {
+        const args = input.trim().split(/\s+/);
+        switch (args[0]) {
+            case 'uci':
+                send(`id name ${ENGINE_NAME}`);
+                send('id author Krachtschaak Online');
+                options.forEach(send);
+                send('uciok');
+                break;
+            case 'isready':
+                send('readyok');
+                break;
+            case 'ucinewgame':
+                state = createGameState(undefined, rules);
+                played = [state];
+                KrachtschaakAI.clearHash();
+                break;
+            case 'setoption':
+                setOption(args);
+                break;
+            case 'position':
+                setPosition(args);
+                break;
+            case 'go':
+                go(args.slice(1));
+                break;
+            case 'stop':
+                KrachtschaakAI.shouldStop = true;
+                break;
+            case 'd':
+                send(`info string ${boardToKrachtschaakFen(state)}`);
+                break;
+            case 'eval':
+                evalTrace(boardToKrachtschaakFen(state), rules, KrachtschaakAI.getEvalParams()).split('\n').forEach(line => send(`info string ${line}`));
+                break;
+            case '':
+                break;
+            default:
+                send(`info string unknown command ${args[0]}`);
+        }
+    };
+
+    return { handle, isSearching: () => searching };
+};
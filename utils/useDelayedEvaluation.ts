@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { BoardState, Color, Position, RuleSet } from '../types';
+import { EngineWorker, spawnEngineWorker } from './engineCoordinator';
+import { generateBoardKey } from './game';
+import { flipWdl, formatWhiteScore, Wdl } from './wdl';
+
+export interface DelayedEvaluation {
+    wdl: Wdl;      // White's chances
+    label: string; // the score, as formatWhiteScore shows it
+}
+
+// How long the engine looks at each position.
+const SEARCH_MS = 2000;
+
+/**
+ * Evaluates each position `delaySeconds` after it appears, for spectators: a bar that lags the game
+ * cannot help a player who watches it on a second screen. A null delay turns the engine off. Positions
+ * that came and went while waiting are still evaluated in turn, so the bar replays the game behind it.
+ */
+const useDelayedEvaluation = (board: BoardState, turn: Color, enPassantTarget: Position | null, rules: RuleSet | undefined, delaySeconds: number | null): DelayedEvaluation | null => {
+    const [evaluation, setEvaluation] = useState<DelayedEvaluation | null>(null);
+    const workerRef = useRef<EngineWorker | null>(null);
+    const requestRef = useRef<{ id: number, turn: Color } | null>(null);
+    const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+    useEffect(() => {
+        if (delaySeconds === null) return;
+        const worker = spawnEngineWorker();
+        workerRef.current = worker;
+        worker.onmessage = (ev) => {
+            const msg = ev.data || {};
+            const request = requestRef.current;
+            const best = msg.results?.[0];
+            if (!request || msg.requestId !== request.id || !best?.wdl) return;
+            if (msg.type === 'update' || msg.type === 'done') {
+                setEvaluation({ wdl: request.turn === Color.White ? best.wdl : flipWdl(best.wdl), label: formatWhiteScore(best.score, request.turn) });
+            }
+        };
+        return () => {
+            timersRef.current.forEach(clearTimeout);
+            timersRef.current = [];
+            worker.terminate();
+            workerRef.current = null;
+            requestRef.current = null;
+            setEvaluation(null);
+        };
+    }, [delaySeconds]);
+
+    const key = generateBoardKey(board, turn, enPassantTarget);
+    useEffect(() => {
+        if (delaySeconds === null) return;
+        const timer = setTimeout(() => {
+            timersRef.current = timersRef.current.filter(t => t !== timer);
+            const id = Date.now();
+            requestRef.current = { id, turn };
+            // A new start supersedes the search of the position before.
+            workerRef.current?.postMessage({ type: 'start', board, turn, maxDepth: 99, requestId: id, rules, limits: { movetime: SEARCH_MS }, context: { enPassantTarget } });
+        }, delaySeconds * 1000);
+        timersRef.current.push(timer);
+    }, [key, delaySeconds]);
+
+    return evaluation;
+};
+
+export default useDelayedEvaluation;
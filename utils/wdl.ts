@@ -0,0 +1,114 @@
+import { Color } from '../types';
+import wdlModel from './wdlModel.json';
+
+// Win, draw and loss chances from a score. Two logistic curves, centred at +a and -a centipawns with
+// spread b, give the chances of a win and of a loss; a draw takes the rest. Both a and b run between an
+// endgame and a middlegame value with the material on the board (gamePhase), since a pawn is worth
+// more of a win with little else left. `npm run tune -- <games> --wdl` fits them to finished games.
+// The model in wdlModel.json has not been fitted yet: its numbers are set by hand, so the chances are a
+// placeholder rather than calibrated odds until a fit to real games replaces it (see WDL_MODEL_NOTE).
+
+export interface WdlModel {
+    a: [number, number]; // the score where a win is as likely as not, in the endgame and the middlegame
+    b: [number, number]; // how fast the chances change around it
+}
+
+// Chances summing to 1, for the side the score is for.
+export interface Wdl {
+    win: number;
+    draw: number;
+    loss: number;
+}
+
+export const DEFAULT_WDL_MODEL: WdlModel = { a: wdlModel.a as [number, number], b: wdlModel.b as [number, number] };
+
+// Whether wdlModel.json came from a fit; formatWdlModel marks the models it writes.
+export const WDL_MODEL_FITTED: boolean = wdlModel.fitted;
+
+// Said wherever the chances are shown while the model is the hand-set placeholder.
+export const WDL_MODEL_NOTE = WDL_MODEL_FITTED ? '' : 'Rough estimate: the win/draw/loss model is not yet fitted to games';
+
+// Scores past this are mates (see engine.ts), which the model does not stretch to.
+const MATE_SCORE = 15000;
+
+const logistic = (x: number): number => 1 / (1 + Math.exp(-x));
+
+export const wdlFromScore = (score: number, phase: number, model: WdlModel = DEFAULT_WDL_MODEL): Wdl => {
+    if (score >= MATE_SCORE) return { win: 1, draw: 0, loss: 0 };
+    if (score <= -MATE_SCORE) return { win: 0, draw: 0, loss: 1 };
+    const a = model.a[0] + (model.a[1] - model.a[0]) * phase;
+    const b = model.b[0] + (model.b[1] - model.b[0]) * phase;
+    const win = logistic((score - a) / b);
+    const loss = logistic((-score - a) / b);
+    return { win, draw: Math.max(0, 1 - win - loss), loss };
+};
+
+// The chances the other way round, e.g. for White from the side to move's.
+export const flipWdl = (wdl: Wdl): Wdl => ({ win: wdl.loss, draw: wdl.draw, loss: wdl.win });
+
+// A search score from the side to move's point of view as White's, the way the app shows it: "+0.35",
+// or "-M3" for a mate in three for Black.
+export const formatWhiteScore = (score: number, turn: Color): string => {
+    const white = turn === Color.White ? score : -score;
+    if (Math.abs(white) > 19000) return `${white > 0 ? '+' : '-'}M${Math.max(1, Math.ceil((20000 - Math.abs(white)) / 2))}`;
+    return `${white > 0 ? '+' : ''}${(white / 100).toFixed(2)}`;
+};
+
+// What the chances are worth in points, a draw counting half.
+export const wdlExpectation = (wdl: Wdl): number => wdl.win + wdl.draw / 2;
+
+// Permille, the way UCI reports it (`info ... wdl 420 380 200`); rounded so the three add up to 1000.
+export const wdlPermille = (wdl: Wdl): [number, number, number] => {
+    const win = Math.round(wdl.win * 1000), loss = Math.round(wdl.loss * 1000);
+    return [win, 1000 - win - loss, loss];
+};
+
+export interface WdlSample {
+    score: number; // from White's point of view
+    phase: number;
+    result: number; // 1, 0.5 or 0, from White's point of view
+}
+
+// The mean negative log-likelihood of the samples' results; lower fits better.
+export const wdlLogLoss = (samples: WdlSample[], model: WdlModel): number => {
+    let sum = 0;
+    for (const { score, phase, result } of samples) {
+        const wdl = wdlFromScore(score, phase, model);
+        const p = result === 1 ? wdl.win : result === 0 ? wdl.loss : wdl.draw;
+        sum -= Math.log(Math.max(p, 1e-9));
+    }
+    return sum / Math.max(1, samples.length);
+};
+
+type ModelParam = ['a' | 'b', 0 | 1];
+const MODEL_PARAMS: ModelParam[] = [['a', 0], ['a', 1], ['b', 0], ['b', 1]];
+
+// The model that predicts the samples' results best, by a local search on its four numbers with a
+// step that halves whenever no number improves.
+export const fitWdlModel = (samples: WdlSample[], initial: WdlModel = DEFAULT_WDL_MODEL, onStep?: (model: WdlModel, loss: number) => void): { model: WdlModel, loss: number } => {
+    let model: WdlModel = { a: [...initial.a], b: [...initial.b] };
+    let best = wdlLogLoss(samples, model);
+    for (let step = 32; step >= 1;) {
+        let improved = false;
+        for (const [key, index] of MODEL_PARAMS) {
+            for (const delta of [step, -step]) {
+                const value = model[key][index] + delta;
+                if (value < 1) continue;
+                const candidate: WdlModel = { ...model, [key]: model[key].map((v, i) => i === index ? value : v) as [number, number] };
+                const loss = wdlLogLoss(samples, candidate);
+                if (loss < best) {
+                    model = candidate;
+                    best = loss;
+                    improved = true;
+                    break;
+                }
+            }
+        }
+        onStep?.(model, best);
+        if (!improved) step /= 2;
+    }
+    return { model, loss: best };
+};
+
+export const formatWdlModel = (model: WdlModel): string =>
+    `{\n    "fitted": true,\n    "a": [${model.a.join(', ')}],\n    "b": [${model.b.join(', ')}]\n}\n`;
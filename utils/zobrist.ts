@@ -0,0 +1,94 @@
+import { BoardState, Color, Piece, PieceType, Position } from '../types';
+import { castlingRookMask, liveEnPassantTarget } from './game';
+
+// Zobrist keys from a fixed seed, so a position hashes the same in every worker, session and machine.
+// The hash covers what generateBoardKey covers: every piece with its power, original type and king
+// flag, the side to move, the rooks that can still castle and a live en passant square. Opening books,
+// eval caches, repetition checks and parallel searches can therefore exchange hashes.
+
+export const PIECE_INDICES: Record<PieceType, number> = {
+    [PieceType.Pawn]: 0,
+    [PieceType.Knight]: 1,
+    [PieceType.Bishop]: 2,
+    [PieceType.Rook]: 3,
+    [PieceType.Queen]: 4,
+    [PieceType.King]: 5
+};
+
+const POWER_INDICES: Record<string, number> = {
+    'none': 0,
+    [PieceType.Pawn]: 1,
+    [PieceType.Knight]: 2,
+    [PieceType.Bishop]: 3,
+    [PieceType.Rook]: 4,
+    [PieceType.Queen]: 5,
+    [PieceType.King]: 6
+};
+
+// Changing the seed or the order the tables are filled in changes every hash, and with it any stored book.
+const ZOBRIST_SEED = 0x4b72616368747363n;
+
+// SplitMix64: small, fast, and every seed gives a full-period sequence.
+const createRandom = (seed: bigint) => {
+    let state = seed;
+    return (): bigint => {
+        state = BigInt.asUintN(64, state + 0x9e3779b97f4a7c15n);
+        let z = state;
+        z = BigInt.asUintN(64, (z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n);
+        z = BigInt.asUintN(64, (z ^ (z >> 27n)) * 0x94d049bb133111ebn);
+        return BigInt.asIntN(64, z ^ (z >> 31n));
+    };
+};
+
+const NUM_ZOBRIST_KEYS = 2 * 6 * 7 * 6 * 64; // color * type * power * originalType * squares
+const ZOBRIST_KEYS = new BigInt64Array(NUM_ZOBRIST_KEYS);
+const ZOBRIST_ROYAL = new BigInt64Array(64); // pieces whose capture ends the game
+const ZOBRIST_CASTLING = new BigInt64Array(16); // one per bit of castlingRookMask
+const ZOBRIST_EP = new BigInt64Array(8);
+
+const random = createRandom(ZOBRIST_SEED);
+for (let i = 0; i < NUM_ZOBRIST_KEYS; i++) ZOBRIST_KEYS[i] = random();
+for (let i = 0; i < 64; i++) ZOBRIST_ROYAL[i] = random();
+for (let i = 0; i < 16; i++) ZOBRIST_CASTLING[i] = random();
+for (let i = 0; i < 8; i++) ZOBRIST_EP[i] = random();
+export const ZOBRIST_SIDE = random();
+
+export const pieceKey = (piece: Piece, squareIndex: number): bigint => {
+    const c = piece.color === Color.White ? 0 : 1;
+    const t = PIECE_INDICES[piece.type];
+    const p = piece.power ? POWER_INDICES[piece.power] : 0;
+    const o = PIECE_INDICES[piece.originalType];
+    // Index: (((c * 6 + t) * 7) + p) * 6 + o) * 64 + squareIndex
+    const index = (((((c * 6 + t) * 7) + p) * 6) + o) * 64 + squareIndex;
+    return piece.isKing ? ZOBRIST_KEYS[index] ^ ZOBRIST_ROYAL[squareIndex] : ZOBRIST_KEYS[index];
+};
+
+// `mask` as returned by castlingRookMask.
+export const castlingKey = (mask: number): bigint => {
+    let key = 0n;
+    for (let bit = 0; bit < 16; bit++) {
+        if (mask & (1 << bit)) key ^= ZOBRIST_CASTLING[bit];
+    }
+    return key;
+};
+
+// Only an en passant capture the side to move can make is part of the hash.
+export const enPassantKey = (board: BoardState, turn: Color, enPassantTarget: Position | null): bigint => {
+    const ep = liveEnPassantTarget(board, turn, enPassantTarget);
+    return ep ? ZOBRIST_EP[ep.col] : 0n;
+};
+
+// The 64-bit hash of a position. `castling` defaults to the rooks on the board that can still castle.
+export const hashPosition = (board: BoardState, turn: Color, enPassantTarget: Position | null, castling: number = castlingRookMask(board)): bigint => {
+    let h = 0n;
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const p = board[r][c];
+            if (p) h ^= pieceKey(p, r * 8 + c);
+        }
+    }
+    if (turn === Color.Black) h ^= ZOBRIST_SIDE;
+    h ^= castlingKey(castling);
+    h ^= enPassantKey(board, turn, enPassantTarget);
+    return h;
+};
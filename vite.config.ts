@@ -3,6 +3,14 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 
+// Cross-origin isolation, which SharedArrayBuffer and so the engine workers' shared hash table need (see
+// utils/engineCoordinator.ts). `credentialless` rather than `require-corp`: cross-origin requests that do
+// not use CORS, such as the analytics script Firebase injects, still load, only without cookies.
+const isolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
@@ -10,13 +18,17 @@ export default defineConfig(({ mode }) => {
     server: {
       port: 3000,
       host: '0.0.0.0',
+      headers: isolationHeaders,
+    },
+    preview: {
+      headers: isolationHeaders,
     },
     plugins: [
       react(),
       VitePWA({
         registerType: 'autoUpdate',
         injectRegister: 'inline',
-        includeAssets: ['favicon.ico', 'icon.jpg', 'icons/*.png', 'icons/*.webp', 'vendor/**/*.js'],
+        includeAssets: ['favicon.ico', 'icon.jpg', 'icons/*.png', 'icons/*.webp', 'vendor/**/*.js', 'openings.kbook'],
         manifest: {
           id: '/',
           name: 'Krachtschaak',